@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { routePoster } from '@/app/api/routeTestUtils';
+import { POST } from './route';
+
+const post = routePoster(POST, '/api/agreement');
+
+describe('POST /api/agreement', () => {
+  it('returns 400 for a geometry that is not a polygon', async () => {
+    const response = await post({ geometry: { type: 'Point', coordinates: [175, -41] } });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'geometry must be a Polygon or MultiPolygon' });
+  });
+
+  it('returns 400 for a year that is not a year', async () => {
+    expect((await post({ year: 'latest' })).status).toBe(400);
+  });
+
+  it('returns 400 for a GLAD threshold outside 0-100', async () => {
+    expect((await post({ gladThreshold: 101 })).status).toBe(400);
+    expect((await post({ gladThreshold: -1 })).status).toBe(400);
+  });
+
+  it('returns 400 for an unsupported cell size', async () => {
+    expect((await post({ cellSize: 7 })).status).toBe(400);
+  });
+
+  it('compares every forest signal on the 25 m grid', async () => {
+    const response = await post();
+    expect(response.status).toBe(200);
+
+    const result = await response.json();
+    expect(result).toMatchObject({ year: 2020, gladThreshold: 30, cellSize: 0.00025 });
+    expect(result.statusCounts).toEqual({ forest: 0, non_forest: 68, disputed: 10 });
+    expect(result.cells.features).toHaveLength(78);
+    expect(result.pairs).toHaveLength(10);
+
+    // 3 GLAD and 8 JRC forest cells out of 77: p_o = 72/77, p_e = (3·8 + 74·69)/77², kappa = 0.518
+    const gladJrc = result.pairs.find((pair: { a: string; b: string }) => pair.a === 'glad' && pair.b === 'jrc_cover');
+    expect(gladJrc).toMatchObject({ cells: 77, matrix: { bothForest: 3, onlyA: 0, onlyB: 5, bothNonForest: 69 } });
+    expect(gladJrc.accuracy).toBeCloseTo(72 / 77, 10);
+    expect(gladJrc.kappa).toBeCloseTo(0.5181, 4);
+  });
+});
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readDataset } from '@/lib/datasetStore';
+import { isPolygonal } from '@/lib/geometry';
+import {
+  AGREEMENT_CELL_SIZES,
+  DEFAULT_AGREEMENT_OPTIONS,
+  forestAgreement,
+  type AgreementSources
+} from '@/lib/forestAgreement';
+
+// POST /api/agreement { geometry?, year?, gladThreshold?, cellSize? } - every forest
+// signal resampled onto a common grid, with per-cell agreement and pairwise
+// confusion matrices, accuracy and kappa
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+
+  if (body?.geometry !== undefined && !isPolygonal(body.geometry)) {
+    return NextResponse.json({ error: 'geometry must be a Polygon or MultiPolygon' }, { status: 400 });
+  }
+
+  const year = Number(body?.year ?? DEFAULT_AGREEMENT_OPTIONS.year);
+  const gladThreshold = Number(body?.gladThreshold ?? DEFAULT_AGREEMENT_OPTIONS.gladThreshold);
+  const cellSize = Number(body?.cellSize ?? DEFAULT_AGREEMENT_OPTIONS.cellSize);
+
+  if (!Number.isInteger(year)) {
+    return NextResponse.json({ error: `Year ${body.year} is not a year` }, { status: 400 });
+  }
+  if (!(gladThreshold >= 0 && gladThreshold <= 100)) {
+    return NextResponse.json({ error: 'gladThreshold must be between 0 and 100' }, { status: 400 });
+  }
+  if (!AGREEMENT_CELL_SIZES.some(size => size.cellSize === cellSize)) {
+    return NextResponse.json({ error: `cellSize must be one of ${AGREEMENT_CELL_SIZES.map(size => size.cellSize).join(', ')}` }, { status: 400 });
+  }
+
+  try {
+    const sources: AgreementSources = {
+      mangaroa: await readDataset('mangaroa'),
+      glad: await readDataset('glad'),
+      io_class: await readDataset('io_class'),
+      jrc_cover: await readDataset('jrc_cover'),
+      jrc_type: await readDataset('jrc_type')
+    };
+    return NextResponse.json(forestAgreement(sources, { year, gladThreshold, cellSize, zone: body?.geometry }));
+  } catch (error) {
+    console.error('Error computing forest agreement:', error);
+    return NextResponse.json({ error: 'Failed to read datasets' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { datasetPoster } from '@/app/api/routeTestUtils';
+import { POST } from './route';
+
+const post = datasetPoster(POST, 'carbon');
+
+describe('POST /api/datasets/[key]/carbon', () => {
+  it.each(['unknown', 'constructor'])('returns 404 for dataset %s', async key => {
+    expect((await post(key)).status).toBe(404);
+  });
+
+  it('returns 400 for a dataset without carbon densities', async () => {
+    const response = await post('glad');
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'GLAD Forest Cover Loss/Gain has no carbon densities' });
+  });
+
+  it('returns 400 for a geometry that is not a polygon', async () => {
+    expect((await post('mangaroa', { geometry: { type: 'LineString', coordinates: [] } })).status).toBe(400);
+  });
+
+  it('returns 400 for a baseline year the dataset does not have', async () => {
+    const response = await post('mangaroa', { baselineYear: 2000 });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Year 2000 is not available for mangaroa' });
+  });
+
+  // 76 pixels of about 0.058 ha; densities are t/ha, so totals are a few tonnes, not thousands
+  it('totals carbon and CO₂e per year from the first year on', async () => {
+    const response = await post('mangaroa');
+    expect(response.status).toBe(200);
+
+    const account = await response.json();
+    expect(account.baselineYear).toBe(2013);
+    expect(account.areaHa).toBeCloseTo(4.432, 3);
+    expect(account.years).toHaveLength(12);
+    expect(account.years[0]).toMatchObject({ year: 2013, pixelCount: 76, netRemovalsT: null, cumulativeT: 0 });
+    expect(account.years[0].carbonT).toBeCloseTo(12.09, 2);
+    expect(account.years[0].co2eT).toBeCloseTo(44.33, 2);
+    expect(account.years[1].netRemovalsT).toBeCloseTo(account.years[1].co2eT - account.years[0].co2eT, 10);
+    expect(account.years[11].cumulativeT).toBeCloseTo(account.years[11].co2eT - account.years[0].co2eT, 10);
+  });
+
+  it('counts removals from the baseline year asked for', async () => {
+    const account = await (await post('mangaroa', { baselineYear: 2020 })).json();
+
+    expect(account.baselineYear).toBe(2020);
+    const [year2020, year2021] = account.years.filter((year: { year: number }) => year.year >= 2020);
+    expect(year2020.cumulativeT).toBe(0);
+    expect(year2021.cumulativeT).toBeCloseTo(16.871, 3);
+  });
+});
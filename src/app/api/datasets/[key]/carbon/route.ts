@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DATASETS } from '@/lib/datasets';
+import { isDatasetKey } from '@/lib/datasetQueries';
+import { readDataset } from '@/lib/datasetStore';
+import { isPolygonal } from '@/lib/geometry';
+import { CARBON_DATASETS, carbonAccount, hasCarbonDensities } from '@/lib/carbonAccounting';
+
+// POST /api/datasets/[key]/carbon { geometry?, baselineYear? } - carbon and CO₂e
+// totals per year for the whole dataset or the part inside a Polygon/MultiPolygon
+export async function POST(request: NextRequest, { params }: { params: Promise<{ key: string }> }) {
+  const { key } = await params;
+
+  if (!isDatasetKey(key)) {
+    return NextResponse.json({ error: `Unknown dataset: ${key}` }, { status: 404 });
+  }
+  if (!hasCarbonDensities(key)) {
+    return NextResponse.json({ error: `${DATASETS[key].label} has no carbon densities` }, { status: 400 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (body?.geometry !== undefined && !isPolygonal(body.geometry)) {
+    return NextResponse.json({ error: 'geometry must be a Polygon or MultiPolygon' }, { status: 400 });
+  }
+
+  const years: readonly number[] = DATASETS[key].years;
+  const baselineYear = body?.baselineYear === undefined ? undefined : Number(body.baselineYear);
+
+  if (baselineYear !== undefined && !years.includes(baselineYear)) {
+    return NextResponse.json({ error: `Year ${body.baselineYear} is not available for ${key}` }, { status: 400 });
+  }
+
+  try {
+    const records = await readDataset(key);
+    return NextResponse.json(carbonAccount(records, CARBON_DATASETS[key]!, { zone: body?.geometry, baselineYear }));
+  } catch (error) {
+    console.error(`Error reading dataset ${key}:`, error);
+    return NextResponse.json({ error: 'Failed to read dataset' }, { status: 500 });
+  }
+}
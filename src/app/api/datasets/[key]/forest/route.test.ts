@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { datasetPoster } from '@/app/api/routeTestUtils';
+import { POST } from './route';
+
+const post = datasetPoster(POST, 'forest');
+
+describe('POST /api/datasets/[key]/forest', () => {
+  it.each(['unknown', 'toString'])('returns 404 for dataset %s', async key => {
+    expect((await post(key)).status).toBe(404);
+  });
+
+  it('returns 400 for a dataset without canopy cover or tree height', async () => {
+    const response = await post('jrc_cover');
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'JRC Forest Cover 2020 has no canopy cover or tree height' });
+  });
+
+  it('returns 400 for an invalid definition', async () => {
+    expect((await post('mangaroa', { minCanopyCover: 150 })).status).toBe(400);
+    expect((await post('mangaroa', { minCanopyCover: 'dense' })).status).toBe(400);
+    expect((await post('mangaroa', { minTreeHeight: -1 })).status).toBe(400);
+    expect((await post('mangaroa', { minArea: -0.5 })).status).toBe(400);
+  });
+
+  it('returns 400 for a geometry or year that is not valid', async () => {
+    expect((await post('mangaroa', { geometry: { type: 'Point', coordinates: [175, -41] } })).status).toBe(400);
+    expect((await post('mangaroa', { year: 2020.5 })).status).toBe(400);
+  });
+
+  // No Kanop pixel reaches 30 % cover and 5 m as a 1 ha patch; two 2020 pixels meet cover and height alone
+  it('applies the NZ ETS definition to every Kanop year', async () => {
+    const response = await post('mangaroa', { year: 2020 });
+    expect(response.status).toBe(200);
+
+    const result = await response.json();
+    expect(result.definition).toEqual({ minCanopyCover: 30, minTreeHeight: 5, minArea: 1 });
+    expect(result.year).toBe(2020);
+    expect(result.years).toHaveLength(12);
+    expect(result.years.every((year: { forestPixels: number }) => year.forestPixels === 0)).toBe(true);
+
+    const year2020 = result.years.find((year: { year: number }) => year.year === 2020);
+    expect(year2020.tooSmallHa).toBeCloseTo(0.1166, 4);
+    expect(year2020.totalHa).toBeCloseTo(4.4323, 4);
+    expect(result.cells.features).toHaveLength(76);
+    expect(result.cells.features.filter((cell: GeoJSON.Feature) => cell.properties?.status === 'too_small')).toHaveLength(2);
+  });
+
+  it('checks only canopy cover for GLAD', async () => {
+    const result = await (await post('glad', { minCanopyCover: 50, minArea: 0 })).json();
+
+    expect(result.criteria).toEqual({ canopyCover: true, treeHeight: false });
+    expect(result.year).toBeNull();
+    expect(result.years).toHaveLength(1);
+    expect(result.years[0]).toMatchObject({ year: null, forestPixels: 3 });
+    expect(result.years[0].forestHa).toBeCloseTo(0.175, 3);
+  });
+});
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DATASETS } from '@/lib/datasets';
+import { isDatasetKey } from '@/lib/datasetQueries';
+import { readDataset } from '@/lib/datasetStore';
+import { isPolygonal } from '@/lib/geometry';
+import { DEFAULT_FOREST_DEFINITION, applyForestDefinition, hasForestFields } from '@/lib/forestDefinition';
+
+// POST /api/datasets/[key]/forest { geometry?, year?, minCanopyCover?, minTreeHeight?, minArea? } -
+// a forest definition applied to the dataset: forest area per year and the
+// forest/non-forest map for one year
+export async function POST(request: NextRequest, { params }: { params: Promise<{ key: string }> }) {
+  const { key } = await params;
+
+  if (!isDatasetKey(key)) {
+    return NextResponse.json({ error: `Unknown dataset: ${key}` }, { status: 404 });
+  }
+  if (!hasForestFields(key)) {
+    return NextResponse.json({ error: `${DATASETS[key].label} has no canopy cover or tree height` }, { status: 400 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (body?.geometry !== undefined && !isPolygonal(body.geometry)) {
+    return NextResponse.json({ error: 'geometry must be a Polygon or MultiPolygon' }, { status: 400 });
+  }
+
+  const definition = {
+    minCanopyCover: Number(body?.minCanopyCover ?? DEFAULT_FOREST_DEFINITION.minCanopyCover),
+    minTreeHeight: Number(body?.minTreeHeight ?? DEFAULT_FOREST_DEFINITION.minTreeHeight),
+    minArea: Number(body?.minArea ?? DEFAULT_FOREST_DEFINITION.minArea)
+  };
+  const year = body?.year === undefined ? undefined : Number(body.year);
+
+  if (!(definition.minCanopyCover >= 0 && definition.minCanopyCover <= 100)) {
+    return NextResponse.json({ error: 'minCanopyCover must be between 0 and 100' }, { status: 400 });
+  }
+  if (!(definition.minTreeHeight >= 0) || !(definition.minArea >= 0)) {
+    return NextResponse.json({ error: 'minTreeHeight and minArea must not be negative' }, { status: 400 });
+  }
+  if (year !== undefined && !Number.isInteger(year)) {
+    return NextResponse.json({ error: `Year ${body.year} is not a year` }, { status: 400 });
+  }
+
+  try {
+    const records = await readDataset(key);
+    return NextResponse.json(applyForestDefinition(key, records, definition, { year, zone: body?.geometry }));
+  } catch (error) {
+    console.error(`Error reading dataset ${key}:`, error);
+    return NextResponse.json({ error: 'Failed to read dataset' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { datasetGetter } from '@/app/api/routeTestUtils';
+import { GET } from './route';
+
+const get = datasetGetter(GET, 'pixels');
+
+describe('GET /api/datasets/[key]/pixels', () => {
+  it.each(['unknown', 'toString', 'constructor', '__proto__'])('returns 404 for dataset %s', async key => {
+    const response = await get(key);
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: `Unknown dataset: ${key}` });
+  });
+
+  it('returns 400 for a year the dataset does not have', async () => {
+    const response = await get('mangaroa', '?year=1999');
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Year 1999 is not available for mangaroa' });
+  });
+
+  it('returns 400 for a year that is not a number', async () => {
+    expect((await get('mangaroa', '?year=latest')).status).toBe(400);
+  });
+
+  // The Kanop file has 77 pixels, one of them blank in every year and dropped on parse
+  it('returns the footprints of one year only', async () => {
+    const response = await get('mangaroa', '?year=2020');
+    expect(response.status).toBe(200);
+
+    const collection: GeoJSON.FeatureCollection = await response.json();
+    expect(collection.features).toHaveLength(76);
+    expect(collection.features.every(feature => feature.properties?.year === 2020)).toBe(true);
+    expect(collection.features[0].geometry.type).toBe('Polygon');
+  });
+
+  it('returns every year without a year filter', async () => {
+    const collection: GeoJSON.FeatureCollection = await (await get('mangaroa')).json();
+    expect(collection.features).toHaveLength(76 * 12);
+  });
+
+  it('ignores the year filter for a dataset without years', async () => {
+    const collection: GeoJSON.FeatureCollection = await (await get('jrc_cover', '?year=2020')).json();
+    expect(collection.features).toHaveLength(573);
+  });
+
+  it('answers a matching If-None-Match with 304 and no body', async () => {
+    const first = await get('jrc_cover');
+    const etag = first.headers.get('ETag');
+    expect(first.status).toBe(200);
+    expect(etag).toBeTruthy();
+
+    const second = await get('jrc_cover', '', { 'If-None-Match': etag! });
+    expect(second.status).toBe(304);
+    expect(second.headers.get('ETag')).toBe(etag);
+    expect(await second.text()).toBe('');
+  });
+});
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DATASETS } from '@/lib/datasets';
+import { filterByYear, isDatasetKey, toFeatureCollection } from '@/lib/datasetQueries';
+import { datasetETag, readDataset } from '@/lib/datasetStore';
+
+// GET /api/datasets/[key]/pixels?year=2024 - GeoJSON pixel footprints for one year
+// (or every record when year is omitted or the dataset has no years)
+export async function GET(request: NextRequest, { params }: { params: Promise<{ key: string }> }) {
+  const { key } = await params;
+
+  if (!isDatasetKey(key)) {
+    return NextResponse.json({ error: `Unknown dataset: ${key}` }, { status: 404 });
+  }
+
+  const yearParam = request.nextUrl.searchParams.get('year');
+  const years: readonly number[] = DATASETS[key].years;
+  const year = yearParam === null || !years.length ? undefined : Number(yearParam);
+
+  if (year !== undefined && !years.includes(year)) {
+    return NextResponse.json({ error: `Year ${yearParam} is not available for ${key}` }, { status: 400 });
+  }
+
+  try {
+    // Browsers send back the ETag of their cached copy; an unchanged dataset needs no body
+    const etag = await datasetETag(key);
+    if (request.headers.get('If-None-Match') === etag) {
+      return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+    }
+
+    const records = await readDataset(key);
+    return NextResponse.json(toFeatureCollection(filterByYear(records, year)), { headers: { ETag: etag } });
+  } catch (error) {
+    console.error(`Error reading dataset ${key}:`, error);
+    return NextResponse.json({ error: 'Failed to read dataset' }, { status: 500 });
+  }
+}
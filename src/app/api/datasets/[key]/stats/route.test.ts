@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { datasetGetter } from '@/app/api/routeTestUtils';
+import { GET } from './route';
+
+const get = datasetGetter(GET, 'stats');
+
+describe('GET /api/datasets/[key]/stats', () => {
+  it.each(['unknown', 'toString', 'hasOwnProperty'])('returns 404 for dataset %s', async key => {
+    const response = await get(key);
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: `Unknown dataset: ${key}` });
+  });
+
+  it('returns 400 for a year the dataset does not have', async () => {
+    const response = await get('io_class', '?year=2013');
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Year 2013 is not available for io_class' });
+  });
+
+  it('summarises every year of the Kanop screening', async () => {
+    const response = await get('mangaroa');
+    expect(response.status).toBe(200);
+
+    const stats = await response.json();
+    expect(stats).toMatchObject({ totalRecords: 912, uniquePixels: 76, datasetType: 'time_series', yearRange: [2013, 2024] });
+    expect(stats.canopyRange[0]).toBeCloseTo(0.533, 3);
+    expect(stats.canopyRange[1]).toBeCloseTo(41.993, 3);
+    expect(stats.avgCanopy).toBeCloseTo(6.749, 3);
+    expect(stats.yearlyAverages.canopy_cover).toHaveLength(12);
+    expect(stats.rangeViolations).toEqual([]);
+  });
+
+  it('summarises a single year', async () => {
+    const stats = await (await get('mangaroa', '?year=2020')).json();
+    expect(stats).toMatchObject({ totalRecords: 76, uniquePixels: 76, yearRange: [2020, 2020] });
+    expect(stats.avgCanopy).toBeCloseTo(8.628, 3);
+    expect(stats.canopyRange[1]).toBeCloseTo(37.311, 3);
+  });
+
+  it('counts the pixels of a classification over its years', async () => {
+    const stats = await (await get('io_class')).json();
+    expect(stats).toEqual({ totalRecords: 2576, uniquePixels: 368, datasetType: 'classification', yearRange: [2017, 2023] });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { datasetPoster } from '@/app/api/routeTestUtils';
+import { POST } from './route';
+
+const post = datasetPoster(POST, 'transitions');
+
+describe('POST /api/datasets/[key]/transitions', () => {
+  it.each(['unknown', '__proto__'])('returns 404 for dataset %s', async key => {
+    expect((await post(key)).status).toBe(404);
+  });
+
+  it('returns 400 for a dataset without land-cover classes', async () => {
+    const response = await post('mangaroa');
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Mangaroa Canopy Cover has no land-cover classes' });
+  });
+
+  it('returns 400 for a geometry that is not a polygon', async () => {
+    expect((await post('io_class', { geometry: { type: 'Point', coordinates: [175, -41] } })).status).toBe(400);
+  });
+
+  it('returns 400 for years outside the IO-9 series', async () => {
+    const response = await post('io_class', { fromYear: 2016 });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'fromYear 2016 is not available for io_class' });
+    expect((await post('io_class', { toYear: 'next' })).status).toBe(400);
+  });
+
+  // All 368 classified pixels are Rangeland in both 2017 and 2023
+  it('returns the matrix and the flows across every year', async () => {
+    const response = await post('io_class');
+    expect(response.status).toBe(200);
+
+    const { matrix, flows } = await response.json();
+    expect(matrix).toMatchObject({ fromYear: 2017, toYear: 2023, classes: [11], pixels: 368, noData: { pixels: 0, hectares: 0 } });
+    expect(matrix.cells).toHaveLength(1);
+    expect(matrix.cells[0]).toMatchObject({ from: 11, to: 11, pixels: 368 });
+    expect(matrix.hectares).toBeCloseTo(3.883, 3);
+
+    // 57 pixels turn to Crops in 2021, 52 of them back to Rangeland in 2022
+    const names = flows.nodes.map((node: { name: string }) => node.name);
+    const link = (from: string, to: string) =>
+      flows.links.find((l: { source: number; target: number }) => l.source === names.indexOf(from) && l.target === names.indexOf(to));
+    expect(link('Rangeland 2020', 'Crops 2021').pixels).toBe(57);
+    expect(link('Crops 2021', 'Rangeland 2022').pixels).toBe(52);
+    expect(link('Rangeland 2018', 'Trees 2019').pixels).toBe(1);
+  });
+
+  it('returns the class areas of every year', async () => {
+    const { classAreas } = await (await post('io_class')).json();
+
+    expect(classAreas).toHaveLength(7);
+    expect(classAreas[4]).toMatchObject({ year: 2021, pixels: { 5: 57, 11: 311 }, noData: { pixels: 0, hectares: 0 } });
+  });
+
+  it('compares the two years asked for', async () => {
+    const { matrix } = await (await post('io_class', { fromYear: 2020, toYear: 2021 })).json();
+
+    expect(matrix.classes).toEqual([5, 11]);
+    expect(matrix.cells).toEqual(expect.arrayContaining([
+      expect.objectContaining({ from: 11, to: 5, pixels: 57 }),
+      expect.objectContaining({ from: 11, to: 11, pixels: 311 })
+    ]));
+  });
+});
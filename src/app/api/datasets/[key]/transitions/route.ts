@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DATASETS } from '@/lib/datasets';
+import { isDatasetKey } from '@/lib/datasetQueries';
+import { readDataset } from '@/lib/datasetStore';
+import { isPolygonal } from '@/lib/geometry';
+import { classAreasByYear, transitionFlows, transitionMatrix, type TransitionAnalysis } from '@/lib/ioTransitions';
+
+// POST /api/datasets/[key]/transitions { geometry?, fromYear?, toYear? } - IO-9
+// from/to class matrix between two years, class flows across every year and the
+// area of each class per year
+export async function POST(request: NextRequest, { params }: { params: Promise<{ key: string }> }) {
+  const { key } = await params;
+
+  if (!isDatasetKey(key)) {
+    return NextResponse.json({ error: `Unknown dataset: ${key}` }, { status: 404 });
+  }
+  if (key !== 'io_class') {
+    return NextResponse.json({ error: `${DATASETS[key].label} has no land-cover classes` }, { status: 400 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (body?.geometry !== undefined && !isPolygonal(body.geometry)) {
+    return NextResponse.json({ error: 'geometry must be a Polygon or MultiPolygon' }, { status: 400 });
+  }
+
+  const years: readonly number[] = DATASETS.io_class.years;
+  const fromYear = Number(body?.fromYear ?? years[0]);
+  const toYear = Number(body?.toYear ?? years[years.length - 1]);
+
+  for (const [field, year] of [['fromYear', fromYear], ['toYear', toYear]] as const) {
+    if (!years.includes(year)) {
+      return NextResponse.json({ error: `${field} ${body?.[field]} is not available for ${key}` }, { status: 400 });
+    }
+  }
+
+  try {
+    const records = await readDataset('io_class');
+    const analysis: TransitionAnalysis = {
+      matrix: transitionMatrix(records, fromYear, toYear, body?.geometry),
+      flows: transitionFlows(records, body?.geometry),
+      classAreas: classAreasByYear(records, body?.geometry)
+    };
+    return NextResponse.json(analysis);
+  } catch (error) {
+    console.error(`Error reading dataset ${key}:`, error);
+    return NextResponse.json({ error: 'Failed to read dataset' }, { status: 500 });
+  }
+}
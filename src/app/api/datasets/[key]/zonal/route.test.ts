@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { datasetPoster } from '@/app/api/routeTestUtils';
+import { POST } from './route';
+
+const ZONE: GeoJSON.Polygon = {
+  type: 'Polygon',
+  coordinates: [[[175.08, -41.15], [175.09, -41.15], [175.09, -41.14], [175.08, -41.14], [175.08, -41.15]]]
+};
+
+const post = datasetPoster(POST, 'zonal');
+
+describe('POST /api/datasets/[key]/zonal', () => {
+  it.each(['unknown', 'valueOf'])('returns 404 for dataset %s', async key => {
+    const response = await post(key, { geometry: ZONE });
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: `Unknown dataset: ${key}` });
+  });
+
+  it('returns 400 without a polygon', async () => {
+    expect((await post('mangaroa', {})).status).toBe(400);
+    expect((await post('mangaroa', { geometry: { type: 'Point', coordinates: [175, -41] } })).status).toBe(400);
+  });
+
+  it('returns 400 for a year the dataset does not have', async () => {
+    const response = await post('mangaroa', { geometry: ZONE, year: 2030 });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Year 2030 is not available for mangaroa' });
+  });
+
+  it('summarises the Kanop pixels in the zone for the year', async () => {
+    const response = await post('mangaroa', { geometry: ZONE, year: 2020 });
+    expect(response.status).toBe(200);
+
+    const result = await response.json();
+    expect(result.pixelCount).toBe(41);
+    expect(result.hectares).toBeCloseTo(2.002, 3);
+    expect(result.metrics.canopy_cover.mean).toBeCloseTo(6.247, 3);
+    expect(result.metrics.canopy_cover.max).toBeCloseTo(29.834, 3);
+    expect(result.fields.find((field: { key: string }) => field.key === 'carbon_stock')).toEqual({
+      key: 'carbon_stock',
+      label: 'Carbon Stock',
+      unit: 't/ha'
+    });
+
+    // The series holds every year; its 2020 entry is the mean above
+    expect(result.series).toHaveLength(12);
+    const year2020 = result.series.find((entry: { year: number }) => entry.year === 2020);
+    expect(year2020.values.canopy_cover).toBeCloseTo(result.metrics.canopy_cover.mean, 10);
+  });
+});
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DATASETS, type DataPoint } from '@/lib/datasets';
+import { isDatasetKey } from '@/lib/datasetQueries';
+import { readDataset } from '@/lib/datasetStore';
+import { isPolygonal } from '@/lib/geometry';
+import { ZONAL_FIELDS, zonalStatistics, type ZonalField } from '@/lib/zonalStats';
+
+// POST /api/datasets/[key]/zonal { geometry, year? } - area-weighted statistics
+// for a Polygon or MultiPolygon, with a per-year series for time-series datasets
+export async function POST(request: NextRequest, { params }: { params: Promise<{ key: string }> }) {
+  const { key } = await params;
+
+  if (!isDatasetKey(key)) {
+    return NextResponse.json({ error: `Unknown dataset: ${key}` }, { status: 404 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!isPolygonal(body?.geometry)) {
+    return NextResponse.json({ error: 'Body must include a Polygon or MultiPolygon geometry' }, { status: 400 });
+  }
+
+  const years: readonly number[] = DATASETS[key].years;
+  const year = body.year === undefined || !years.length ? undefined : Number(body.year);
+
+  if (year !== undefined && !years.includes(year)) {
+    return NextResponse.json({ error: `Year ${body.year} is not available for ${key}` }, { status: 400 });
+  }
+
+  try {
+    const records: DataPoint[] = await readDataset(key);
+    const fields = ZONAL_FIELDS[key] as ZonalField<DataPoint>[];
+    return NextResponse.json(zonalStatistics(records, body.geometry, fields, year));
+  } catch (error) {
+    console.error(`Error reading dataset ${key}:`, error);
+    return NextResponse.json({ error: 'Failed to read dataset' }, { status: 500 });
+  }
+}
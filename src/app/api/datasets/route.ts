@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { DATASETS } from '@/lib/datasets';
+
+// GET /api/datasets - the dataset registry
+export async function GET() {
+  const datasets = Object.entries(DATASETS).map(([key, dataset]) => ({
+    key,
+    label: dataset.label,
+    description: dataset.description,
+    type: dataset.type,
+    resolution: dataset.resolution,
+    years: dataset.years
+  }));
+
+  return NextResponse.json({ datasets });
+}
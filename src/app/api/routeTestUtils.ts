@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server';
+
+type RouteContext = { params: Promise<{ key: string }> };
+type DatasetRouteHandler = (request: NextRequest, context: RouteContext) => Promise<Response>;
+
+const ORIGIN = 'http://localhost';
+
+const jsonRequest = (path: string, body: unknown) =>
+  new NextRequest(`${ORIGIN}${path}`, { method: 'POST', body: JSON.stringify(body) });
+
+const datasetContext = (key: string): RouteContext => ({ params: Promise.resolve({ key }) });
+
+// Route tests call the handlers the way Next.js does: a NextRequest, plus the
+// dynamic [key] segment as a promise
+export const datasetGetter = (handler: DatasetRouteHandler, route: string) =>
+  (key: string, query = '', headers: Record<string, string> = {}) =>
+    handler(new NextRequest(`${ORIGIN}/api/datasets/${key}/${route}${query}`, { headers }), datasetContext(key));
+
+export const datasetPoster = (handler: DatasetRouteHandler, route: string) =>
+  (key: string, body: unknown = {}) =>
+    handler(jsonRequest(`/api/datasets/${key}/${route}`, body), datasetContext(key));
+
+export const routePoster = (handler: (request: NextRequest) => Promise<Response>, path: string) =>
+  (body: unknown = {}) => handler(jsonRequest(path, body));
@@ -0,0 +1,64 @@
+"use client";
+
+import React, { useState } from 'react';
+import { readAOIFile, type AOI } from '@/lib/aoi';
+
+interface AOIControlProps {
+  aois: AOI[];
+  selectedId: string | null;
+  onImport: (aois: AOI[]) => void;
+  onSelect: (id: string | null) => void;
+}
+
+// Import project boundaries and choose the one every dataset is clipped to
+const AOIControl = ({ aois, selectedId, onImport, onSelect }: AOIControlProps) => {
+  const [error, setError] = useState<string | null>(null);
+  const selected = aois.find(aoi => aoi.id === selectedId);
+
+  const handleFile = async (file: File) => {
+    try {
+      const imported = await readAOIFile(file);
+      setError(null);
+      onImport(imported);
+    } catch (error) {
+      console.error('Error importing boundary:', error);
+      setError(error instanceof Error ? error.message : `Could not read ${file.name}`);
+    }
+  };
+
+  return (
+    <div>
+      <select
+        value={selectedId ?? ''}
+        onChange={(e) => onSelect(e.target.value || null)}
+        className="w-full p-2 bg-white border border-gray-300 rounded text-gray-800 mb-2"
+      >
+        <option value="">No boundary (all pixels)</option>
+        {aois.map(aoi => (
+          <option key={aoi.id} value={aoi.id}>{aoi.name}</option>
+        ))}
+      </select>
+      <label className="block w-full text-xs text-center bg-gray-100 text-gray-800 px-2 py-1 rounded hover:bg-gray-200 cursor-pointer">
+        Import boundary (GeoJSON, KML, zipped Shapefile)
+        <input
+          type="file"
+          accept=".geojson,.json,.kml,.zip"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+      {selected && (
+        <p className="text-xs text-gray-500 mt-1">
+          Clipping to {selected.name} ({selected.areaHa.toFixed(1)} ha)
+        </p>
+      )}
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default AOIControl;
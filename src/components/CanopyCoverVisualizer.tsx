@@ -1,10 +1,44 @@
 "use client";
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Slider } from '@/components/ui/slider';
 import mapboxgl from 'mapbox-gl';
 import 'mapbox-gl/dist/mapbox-gl.css';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ScatterChart, Scatter, ZAxis } from 'recharts';
+import { DATASETS, isMangaroaMetric, pixelFootprint, type DatasetKey, type DataPoint, type MangaroaDataPoint } from '@/lib/datasets';
+import { fetchDatasetStats, fetchZonalStats } from '@/lib/datasetApi';
+import { clearDatasetCache } from '@/lib/datasetCache';
+import { computeDatasetStats, type DataStats } from '@/lib/datasetQueries';
+import { isAbortError, loadDatasetRecords } from '@/lib/datasetLoader';
+import { METRICS, formatMetricLabel, formatMetricValue, type Metric } from '@/lib/metrics';
+import { clipToAOI, raiseAOILayer, showAOIOnMap, type AOI } from '@/lib/aoi';
+import {
+  CHANGE_STATUS_LABELS,
+  MISSING_CHANGE_COLOR,
+  PERCENT_CHANGE_SCALE,
+  computeChange,
+  periodLabel,
+  type ChangeDisplay,
+  type ChangePeriod,
+  type ChangeStatus
+} from '@/lib/changeDetection';
+import {
+  DEFAULT_SIGNIFICANCE,
+  SIGNIFICANCE_LEVELS,
+  TREND_COLORS,
+  TREND_LABELS,
+  computeTrend,
+  type TrendDirection
+} from '@/lib/trends';
+import { ZONAL_FIELDS, zonalStatistics, type ZonalField } from '@/lib/zonalStats';
+import type { LegendItem } from '@/lib/datasetStyles';
+import { raiseZoneLayers, type Zone } from '@/lib/zones';
+import AOIControl from './AOIControl';
+import ChangePeriodControl from './ChangePeriodControl';
+import PixelTimeSeriesPanel, { MAX_COMPARED_PIXELS } from './PixelTimeSeriesPanel';
+import TimelineExportControl from './TimelineExportControl';
+import TimelinePlayer from './TimelinePlayer';
+import ZonalStatsPanel from './ZonalStatsPanel';
 
 // Add type declarations
 declare global {
@@ -15,297 +49,9 @@ declare global {
   }
 }
 
-// Dataset configuration
-const DATASETS = {
-  mangaroa: {
-    label: 'Mangaroa Canopy Cover',
-    description: 'Time-series canopy cover data (2013-2024)',
-    file: '/data/mangaroa_sampling_zone_1_kanop_screening_25_m.csv',
-    type: 'time_series'
-  },
-  glad: {
-    label: 'GLAD Forest Cover Loss/Gain',
-    description: 'Global forest change detection',
-    file: '/data/glad_forest_cover_loss_gain.csv',
-    type: 'forest_change'
-  },
-  io_class: {
-    label: 'IO-9 Land Use Classification',
-    description: 'Land use classification (2017-2023)',
-    file: '/data/io-9-class-10m.csv',
-    type: 'classification'
-  },
-  jrc_cover: {
-    label: 'JRC Forest Cover 2020',
-    description: 'European Commission forest cover',
-    file: '/data/jrc_forest_cover_2020.csv',
-    type: 'binary'
-  },
-  jrc_type: {
-    label: 'JRC Forest Type 2020',
-    description: 'European Commission forest type',
-    file: '/data/jrc_forest_type_2020.csv',
-    type: 'binary'
-  }
-} as const;
-
-type DatasetKey = keyof typeof DATASETS;
-
-// Process the Mangaroa canopy cover CSV data
-const processMangaroaData = async () => {
-  try {
-    console.log('Loading Mangaroa dataset...');
-    const response = await fetch('/data/mangaroa_sampling_zone_1_kanop_screening_25_m.csv');
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch CSV file: ${response.statusText}`);
-    }
-    
-    const csvText = await response.text();
-    
-    if (!csvText) {
-      throw new Error('No data received from file read');
-    }
-    
-    console.log('File read successful. First 200 characters:', csvText.substring(0, 200));
-    
-    // Parse CSV using Papa Parse
-    const Papa = await import('papaparse');
-    const parsed = Papa.parse<Record<string, any>>(csvText, {
-      header: true,
-      dynamicTyping: true,
-      skipEmptyLines: true,
-      delimitersToGuess: [',', '\t', '|', ';']
-    });
-
-    console.log('Raw CSV data sample:', parsed.data.slice(0, 3));
-    console.log('Total records:', parsed.data.length);
-    
-    // Process the data to match your structure
-    const processedData = parsed.data.map((row: Record<string, any>, index) => {
-      // Clean up column names (remove whitespace)
-      const cleanRow: Record<string, any> = {};
-      Object.keys(row).forEach(key => {
-        const cleanKey = key.trim();
-        cleanRow[cleanKey] = row[key];
-      });
-
-      return {
-        id: `${cleanRow.x}_${cleanRow.y}_${cleanRow.year}`,
-        pixel_id: index,
-        x: parseFloat(cleanRow.x),
-        y: parseFloat(cleanRow.y),
-        year: parseInt(cleanRow.year),
-        canopy_cover: parseFloat(cleanRow.canopy_cover) || 0,
-        coordinates: [parseFloat(cleanRow.x), parseFloat(cleanRow.y)] as [number, number],
-        tree_height: parseFloat(cleanRow.tree_height) || 0,
-        living_biomass: parseFloat(cleanRow.living_biomass) || 0,
-        carbon_stock: parseFloat(cleanRow.living_biomass_carbon_stock) || 0,
-        diversity_index: parseFloat(cleanRow.raos_q_diversity_index) || 0,
-        dataset: 'mangaroa' as DatasetKey
-      };
-    }).filter(row => 
-      // Filter out invalid data
-      !isNaN(row.x) && !isNaN(row.y) && !isNaN(row.year) && row.year >= 2013 && row.year <= 2024
-    );
-
-    // Create unique pixel IDs based on coordinates
-    const pixelMap = new Map();
-    let pixelCounter = 0;
-    
-    processedData.forEach(row => {
-      const coordKey = `${row.x.toFixed(6)}_${row.y.toFixed(6)}`;
-      if (!pixelMap.has(coordKey)) {
-        pixelMap.set(coordKey, pixelCounter++);
-      }
-      row.pixel_id = pixelMap.get(coordKey);
-    });
-
-    console.log('Processed Mangaroa data summary:');
-    console.log('- Total records:', processedData.length);
-    console.log('- Unique pixels:', pixelMap.size);
-    console.log('- Year range:', Math.min(...processedData.map(d => d.year)), 'to', Math.max(...processedData.map(d => d.year)));
-
-    return processedData;
-  } catch (error) {
-    console.error('Error processing Mangaroa data:', error);
-    return [];
-  }
-};
-
-// Process GLAD forest cover loss/gain data
-const processGLADData = async () => {
-  try {
-    console.log('Loading GLAD dataset...');
-    const response = await fetch('/data/glad_forest_cover_loss_gain.csv');
-    const csvText = await response.text();
-    
-    const Papa = await import('papaparse');
-    const parsed = Papa.parse<Record<string, any>>(csvText, {
-      header: true,
-      dynamicTyping: true,
-      skipEmptyLines: true
-    });
-
-    const processedData = parsed.data.map((row: Record<string, any>, index) => ({
-      id: `glad_${row.x}_${row.y}`,
-      pixel_id: index,
-      x: parseFloat(row.x),
-      y: parseFloat(row.y),
-      coordinates: [parseFloat(row.x), parseFloat(row.y)] as [number, number],
-      datamask: parseInt(row.datamask),
-      gain: parseInt(row.gain),
-      lossyear: parseInt(row.lossyear),
-      treecover2000: parseInt(row.treecover2000),
-      has_data: parseInt(row.datamask) === 1,
-      has_forest_gain: parseInt(row.gain) === 1,
-      forest_loss_year: parseInt(row.lossyear) > 0 ? 2000 + parseInt(row.lossyear) : null,
-      baseline_tree_cover: parseInt(row.treecover2000),
-      dataset: 'glad' as DatasetKey
-    })).filter(row => 
-      !isNaN(row.x) && !isNaN(row.y) && row.has_data
-    );
-
-    console.log('Processed GLAD data:', processedData.length);
-    return processedData;
-  } catch (error) {
-    console.error('Error processing GLAD data:', error);
-    return [];
-  }
-};
-
-// Process IO-9-class land use classification data
-const processIOClassData = async () => {
-  try {
-    console.log('Loading IO-9-class dataset...');
-    const response = await fetch('/data/io-9-class-10m.csv');
-    const csvText = await response.text();
-    
-    const Papa = await import('papaparse');
-    const parsed = Papa.parse<Record<string, any>>(csvText, {
-      header: true,
-      dynamicTyping: true,
-      skipEmptyLines: true
-    });
-
-    const processedData = parsed.data.map((row: Record<string, any>, index) => ({
-      id: `io_${row.x}_${row.y}`,
-      pixel_id: index,
-      x: parseFloat(row.x),
-      y: parseFloat(row.y),
-      coordinates: [parseFloat(row.x), parseFloat(row.y)] as [number, number],
-      class_2017: parseInt(row.class_2017),
-      class_2018: parseInt(row.class_2018),
-      class_2019: parseInt(row.class_2019),
-      class_2020: parseInt(row.class_2020),
-      class_2021: parseInt(row.class_2021),
-      class_2022: parseInt(row.class_2022),
-      class_2023: parseInt(row.class_2023),
-      has_data: parseInt(row.class_2017) !== 255,
-      dominant_class: parseInt(row.class_2017), // Use 2017 as reference
-      dataset: 'io_class' as DatasetKey
-    })).filter(row => 
-      !isNaN(row.x) && !isNaN(row.y) && row.has_data
-    );
-
-    console.log('Processed IO-9-class data:', processedData.length);
-    return processedData;
-  } catch (error) {
-    console.error('Error processing IO-9-class data:', error);
-    return [];
-  }
-};
-
-// Process JRC forest cover data
-const processJRCCoverData = async () => {
-  try {
-    console.log('Loading JRC Forest Cover dataset...');
-    const response = await fetch('/data/jrc_forest_cover_2020.csv');
-    const csvText = await response.text();
-    
-    const Papa = await import('papaparse');
-    const parsed = Papa.parse<Record<string, any>>(csvText, {
-      header: true,
-      dynamicTyping: true,
-      skipEmptyLines: true
-    });
-
-    const processedData = parsed.data.map((row: Record<string, any>, index) => ({
-      id: `jrc_cover_${row.x}_${row.y}`,
-      pixel_id: index,
-      x: parseFloat(row.x),
-      y: parseFloat(row.y),
-      coordinates: [parseFloat(row.x), parseFloat(row.y)] as [number, number],
-      forest_cover_2020: parseInt(row.forest_cover_2020),
-      has_data: parseInt(row.forest_cover_2020) !== 255,
-      is_forest: parseInt(row.forest_cover_2020) === 0, // 0 = forest, 255 = no data
-      dataset: 'jrc_cover' as DatasetKey
-    })).filter(row => 
-      !isNaN(row.x) && !isNaN(row.y) && row.has_data
-    );
-
-    console.log('Processed JRC Forest Cover data:', processedData.length);
-    return processedData;
-  } catch (error) {
-    console.error('Error processing JRC Forest Cover data:', error);
-    return [];
-  }
-};
-
-// Process JRC forest type data
-const processJRCTypeData = async () => {
-  try {
-    console.log('Loading JRC Forest Type dataset...');
-    const response = await fetch('/data/jrc_forest_type_2020.csv');
-    const csvText = await response.text();
-    
-    const Papa = await import('papaparse');
-    const parsed = Papa.parse<Record<string, any>>(csvText, {
-      header: true,
-      dynamicTyping: true,
-      skipEmptyLines: true
-    });
-
-    const processedData = parsed.data.map((row: Record<string, any>, index) => ({
-      id: `jrc_type_${row.x}_${row.y}`,
-      pixel_id: index,
-      x: parseFloat(row.x),
-      y: parseFloat(row.y),
-      coordinates: [parseFloat(row.x), parseFloat(row.y)] as [number, number],
-      forest_type_2020: parseInt(row.forest_type_2020),
-      has_data: parseInt(row.forest_type_2020) !== 255,
-      is_forest: parseInt(row.forest_type_2020) === 0, // 0 = forest, 255 = no data
-      dataset: 'jrc_type' as DatasetKey
-    })).filter(row => 
-      !isNaN(row.x) && !isNaN(row.y) && row.has_data
-    );
-
-    console.log('Processed JRC Forest Type data:', processedData.length);
-    return processedData;
-  } catch (error) {
-    console.error('Error processing JRC Forest Type data:', error);
-    return [];
-  }
-};
-
 // Fallback mock data generator
 const generateMockData = () => {
-  interface MockDataPoint {
-    id: string;
-    pixel_id: number;
-    x: number;
-    y: number;
-    year: number;
-    canopy_cover: number;
-    coordinates: [number, number];
-    tree_height: number;
-    living_biomass: number;
-    carbon_stock: number;
-    diversity_index: number;
-    dataset: DatasetKey;
-  }
-
-  const mockData: MockDataPoint[] = [];
+  const mockData: MangaroaDataPoint[] = [];
   const centerLat = -41.148613;
   const centerLng = 175.086901;
   const pixels = [];
@@ -339,11 +85,17 @@ const generateMockData = () => {
         year: year,
         canopy_cover: canopyCover,
         coordinates: [pixel.x, pixel.y],
+        footprint: pixelFootprint(pixel.x, pixel.y, DATASETS.mangaroa.pixelSize),
+        canopy_height: Math.random() * 30,
         tree_height: Math.random() * 30,
+        forest_cover: canopyCover >= 30 ? 1 : 0,
         living_biomass: Math.random() * 200,
+        living_aboveground_biomass: Math.random() * 150,
+        living_belowground_biomass: Math.random() * 50,
         carbon_stock: Math.random() * 50,
+        co2_eq: Math.random() * 180,
         diversity_index: Math.random(),
-        dataset: 'mangaroa' as DatasetKey
+        dataset: 'mangaroa'
       });
     });
   });
@@ -357,12 +109,12 @@ const VISUALIZATION_MODES = {
     description: 'Show selected metric for the chosen year'
   },
   change_from_baseline: {
-    label: 'Change from 2013',
-    description: 'Show change since baseline (2013)'
+    label: 'Change Between Periods',
+    description: 'Show absolute or percent change between two years or multi-year windows'
   },
   trend_analysis: {
     label: 'Trend Analysis',
-    description: 'Show overall trend (increase/decrease)'
+    description: 'Show significant increases and decreases (Sen\'s slope, Mann-Kendall)'
   },
   correlation: {
     label: 'Correlation Analysis',
@@ -382,201 +134,24 @@ const VISUALIZATION_MODES = {
   }
 } as const;
 
-const METRICS = {
-  canopy_cover: {
-    label: 'Canopy Cover',
-    unit: '%',
-    colorScale: [
-      { value: 0, color: '#ffffcc' },
-      { value: 25, color: '#a1dab4' },
-      { value: 50, color: '#41b6c4' },
-      { value: 75, color: '#2c7fb8' },
-      { value: 100, color: '#253494' }
-    ],
-    changeColorScale: [
-      { value: -50, color: '#d73027' },
-      { value: -25, color: '#fc8d59' },
-      { value: 0, color: '#ffffbf' },
-      { value: 25, color: '#91bfdb' },
-      { value: 50, color: '#4575b4' }
-    ]
-  },
-  tree_height: {
-    label: 'Tree Height',
-    unit: 'm',
-    colorScale: [
-      { value: 0, color: '#ffffcc' },
-      { value: 10, color: '#a1dab4' },
-      { value: 20, color: '#41b6c4' },
-      { value: 30, color: '#2c7fb8' },
-      { value: 40, color: '#253494' }
-    ],
-    changeColorScale: [
-      { value: -20, color: '#d73027' },
-      { value: -10, color: '#fc8d59' },
-      { value: 0, color: '#ffffbf' },
-      { value: 10, color: '#91bfdb' },
-      { value: 20, color: '#4575b4' }
-    ]
-  },
-  living_biomass: {
-    label: 'Living Biomass',
-    unit: 'kg/m²',
-    colorScale: [
-      { value: 0, color: '#ffffcc' },
-      { value: 50, color: '#a1dab4' },
-      { value: 100, color: '#41b6c4' },
-      { value: 150, color: '#2c7fb8' },
-      { value: 200, color: '#253494' }
-    ],
-    changeColorScale: [
-      { value: -100, color: '#d73027' },
-      { value: -50, color: '#fc8d59' },
-      { value: 0, color: '#ffffbf' },
-      { value: 50, color: '#91bfdb' },
-      { value: 100, color: '#4575b4' }
-    ]
-  },
-  carbon_stock: {
-    label: 'Carbon Stock',
-    unit: 'kg/m²',
-    colorScale: [
-      { value: 0, color: '#ffffcc' },
-      { value: 12.5, color: '#a1dab4' },
-      { value: 25, color: '#41b6c4' },
-      { value: 37.5, color: '#2c7fb8' },
-      { value: 50, color: '#253494' }
-    ],
-    changeColorScale: [
-      { value: -25, color: '#d73027' },
-      { value: -12.5, color: '#fc8d59' },
-      { value: 0, color: '#ffffbf' },
-      { value: 12.5, color: '#91bfdb' },
-      { value: 25, color: '#4575b4' }
-    ]
-  },
-  diversity_index: {
-    label: 'Diversity Index',
-    unit: '',
-    colorScale: [
-      { value: 0, color: '#ffffcc' },
-      { value: 0.25, color: '#a1dab4' },
-      { value: 0.5, color: '#41b6c4' },
-      { value: 0.75, color: '#2c7fb8' },
-      { value: 1, color: '#253494' }
-    ],
-    changeColorScale: [
-      { value: -0.5, color: '#d73027' },
-      { value: -0.25, color: '#fc8d59' },
-      { value: 0, color: '#ffffbf' },
-      { value: 0.25, color: '#91bfdb' },
-      { value: 0.5, color: '#4575b4' }
-    ]
-  },
-  forest_change: {
-    label: 'Forest Change',
-    unit: '',
-    colorScale: [
-      { value: 0, color: '#d73027' }, // Loss
-      { value: 1, color: '#ffffbf' }, // No change
-      { value: 2, color: '#4575b4' }  // Gain
-    ],
-    changeColorScale: []
-  },
-  land_class: {
-    label: 'Land Classification',
-    unit: '',
-    colorScale: [
-      { value: 0, color: '#fee5d9' },   // Class 0
-      { value: 11, color: '#2ca02c' },  // Forest (Class 11)
-      { value: 20, color: '#d62728' },  // Other classes
-    ],
-    changeColorScale: []
-  },
-  forest_binary: {
-    label: 'Forest Cover',
-    unit: '',
-    colorScale: [
-      { value: 0, color: '#2ca02c' }, // Forest
-      { value: 1, color: '#fee5d9' }  // Non-forest
-    ],
-    changeColorScale: []
-  }
-} as const;
 
 type VisualizationMode = keyof typeof VISUALIZATION_MODES;
-type Metric = keyof typeof METRICS;
-
-interface BaseDataPoint {
-  id: string;
-  pixel_id: number;
-  x: number;
-  y: number;
-  coordinates: [number, number];
-  dataset: DatasetKey;
-}
-
-interface MangaroaDataPoint extends BaseDataPoint {
-  year: number;
-  canopy_cover: number;
-  tree_height: number;
-  living_biomass: number;
-  carbon_stock: number;
-  diversity_index: number;
-}
-
-interface GLADDataPoint extends BaseDataPoint {
-  datamask: number;
-  gain: number;
-  lossyear: number;
-  treecover2000: number;
-  has_data: boolean;
-  has_forest_gain: boolean;
-  forest_loss_year: number | null;
-  baseline_tree_cover: number;
-}
-
-interface IOClassDataPoint extends BaseDataPoint {
-  class_2017: number;
-  class_2018: number;
-  class_2019: number;
-  class_2020: number;
-  class_2021: number;
-  class_2022: number;
-  class_2023: number;
-  has_data: boolean;
-  dominant_class: number;
-}
-
-interface JRCDataPoint extends BaseDataPoint {
-  forest_cover_2020?: number;
-  forest_type_2020?: number;
-  has_data: boolean;
-  is_forest: boolean;
-}
-
-type DataPoint = MangaroaDataPoint | GLADDataPoint | IOClassDataPoint | JRCDataPoint;
-
-interface DataStats {
-  totalRecords: number;
-  uniquePixels: number;
-  yearRange?: [number, number];
-  canopyRange?: [number, number];
-  avgCanopy?: number;
-  datasetType: string;
-}
 
 interface PixelTrend {
   pixel_id: number;
   x: number;
   y: number;
   coordinates: [number, number];
+  footprint: GeoJSON.Polygon;
   years: number[];
   values: number[];
   trend_slope: number;
+  trend_lower: number;
+  trend_upper: number;
+  trend_p_value: number;
   avg_value: number;
-  trend_direction: string;
-  [key: string]: number | string | [number, number] | number[]; // Allow dynamic metric properties
+  trend_direction: TrendDirection;
+  [key: string]: number | string | [number, number] | number[] | GeoJSON.Polygon; // Allow dynamic metric properties
 }
 
 interface SavedMapState {
@@ -593,76 +168,156 @@ const CanopyCoverVisualizer = () => {
   const [visualizationMode, setVisualizationMode] = useState<VisualizationMode>('current_year');
   const [selectedMetric, setSelectedMetric] = useState<Metric>('canopy_cover');
   const [opacity, setOpacity] = useState([80]);
-  const [canopyData, setCanopyData] = useState<DataPoint[]>([]);
-  const [dataStats, setDataStats] = useState<DataStats | null>(null);
+  // Records of the years the view renders, fetched a year at a time. The full series
+  // replaces them once a view that spans years (change, trends, the pixel and AOI
+  // time series, the timeline) needs it, and is kept for the dataset it belongs to.
+  const [yearSlices, setYearSlices] = useState<DataPoint[]>([]);
+  const [seriesData, setSeriesData] = useState<{ dataset: DatasetKey; records: DataPoint[] } | null>(null);
+  const sliceCacheRef = useRef(new Map<string, DataPoint[]>());
+  const [usingMockData, setUsingMockData] = useState(false);
+  const [aois, setAois] = useState<AOI[]>([]);
+  const [selectedAoiId, setSelectedAoiId] = useState<string | null>(null);
   const [isAnimating, setIsAnimating] = useState(false);
-  const [loading, setLoading] = useState(true);
-  const animationRef = useRef<NodeJS.Timeout | null>(null);
+  const [sliceLoading, setSliceLoading] = useState(true);
+  const [seriesLoading, setSeriesLoading] = useState(false);
+  const loading = sliceLoading || seriesLoading;
+  const [cacheStatus, setCacheStatus] = useState<string | null>(null);
+  // Statistics for the whole dataset from the stats route, regardless of the AOI
+  const [datasetStats, setDatasetStats] = useState<DataStats | null>(null);
+  // Pre-computed GeoJSON per year for the timeline player, and the year it is showing
+  const framesRef = useRef(new Map<number, GeoJSON.FeatureCollection>());
+  const [playbackYear, setPlaybackYear] = useState<number | null>(null);
   const [selectedYearForCorrelation, setSelectedYearForCorrelation] = useState(2024);
   const [selectedMetricsForCorrelation, setSelectedMetricsForCorrelation] = useState<[Metric, Metric]>(['canopy_cover', 'tree_height']);
+  // Trend significance level, remembered per metric
+  const [significanceByMetric, setSignificanceByMetric] = useState<Partial<Record<Metric, number>>>({});
+  const significance = significanceByMetric[selectedMetric] ?? DEFAULT_SIGNIFICANCE;
+  const [beforePeriod, setBeforePeriod] = useState<ChangePeriod>({ start: 2013, end: 2013 });
+  const [afterPeriod, setAfterPeriod] = useState<ChangePeriod>({ start: 2024, end: 2024 });
+  const [changeDisplay, setChangeDisplay] = useState<ChangeDisplay>('absolute');
+  // Pixels charted in the time-series panel; shift-click adds to the list
+  const [seriesPixelIds, setSeriesPixelIds] = useState<number[]>([]);
+
+  const aoi = aois.find(a => a.id === selectedAoiId) ?? null;
+  const drawingRef = useRef(false);
+
+  const hasYears = DATASETS[selectedDataset].years.length > 0;
+  const series = seriesData?.dataset === selectedDataset ? seriesData.records : null;
+  const hasSeries = series !== null;
+  const needsSeries = hasYears && (
+    visualizationMode === 'change_from_baseline' ||
+    visualizationMode === 'trend_analysis' ||
+    seriesPixelIds.length > 0 ||
+    // The trend chart averages the AOI's own pixels per year; without an AOI it uses the stats route
+    (aoi !== null && visualizationMode !== 'correlation')
+  );
+  // The map's year, plus the correlation year when the scatter plot shows another one
+  const sliceKey = hasYears
+    ? Array.from(new Set([selectedYear[0], ...(visualizationMode === 'correlation' ? [selectedYearForCorrelation] : [])])).join(',')
+    : '';
+  const loadedData = series ?? yearSlices;
+
+  // Everything below (map, stats, charts, correlation) describes only the pixels inside the AOI
+  const canopyData = useMemo(() => clipToAOI(loadedData, aoi), [loadedData, aoi]);
+  const dataStats = useMemo<DataStats | null>(
+    () => (usingMockData || !canopyData.length ? null : computeDatasetStats(selectedDataset, canopyData)),
+    [usingMockData, canopyData, selectedDataset]
+  );
 
   const years = [2013, 2014, 2015, 2016, 2017, 2018, 2019, 2020, 2021, 2022, 2023, 2024];
 
-  // Load dataset based on selection
-  const loadDataset = async (datasetKey: DatasetKey) => {
-    setLoading(true);
-    try {
-      let data: DataPoint[] = [];
-      
-      switch (datasetKey) {
-        case 'mangaroa':
-          data = await processMangaroaData();
-          break;
-        case 'glad':
-          data = await processGLADData();
-          break;
-        case 'io_class':
-          data = await processIOClassData();
-          break;
-        case 'jrc_cover':
-          data = await processJRCCoverData();
-          break;
-        case 'jrc_type':
-          data = await processJRCTypeData();
-          break;
-        default:
-          data = generateMockData();
-      }
+  // Whole-dataset statistics (range checks, yearly means) from the stats route
+  useEffect(() => {
+    if (!isLoaded) return;
+    const controller = new AbortController();
+
+    fetchDatasetStats(selectedDataset, { signal: controller.signal })
+      .then(setDatasetStats)
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('Error loading dataset statistics:', error);
+        setDatasetStats(null);
+      });
 
-      setCanopyData(data);
-      
-      // Calculate data statistics
-      const uniquePixels = new Set(data.map(d => d.pixel_id)).size;
-      
-      let stats: DataStats = {
-        totalRecords: data.length,
-        uniquePixels: uniquePixels,
-        datasetType: DATASETS[datasetKey].type
-      };
+    return () => controller.abort();
+  }, [isLoaded, selectedDataset]);
 
-      // Add time-series specific stats for Mangaroa data
-      if (datasetKey === 'mangaroa') {
-        const mangaroaData = data as MangaroaDataPoint[];
-        const uniqueYears = new Set(mangaroaData.map(d => d.year));
-        const canopyValues = mangaroaData.map(d => d.canopy_cover).filter(v => !isNaN(v));
-        
-        stats = {
-          ...stats,
-          yearRange: [Math.min(...uniqueYears), Math.max(...uniqueYears)],
-          canopyRange: [Math.min(...canopyValues), Math.max(...canopyValues)],
-          avgCanopy: canopyValues.reduce((a, b) => a + b, 0) / canopyValues.length
-        };
-      }
-      
-      setDataStats(stats);
-      
+  // Only the rendered year(s), or the whole layer of a dataset without years
+  useEffect(() => {
+    if (!isLoaded || hasSeries || needsSeries) return;
+    const controller = new AbortController();
+    const sliceYears = sliceKey ? sliceKey.split(',').map(Number) : [undefined];
+
+    const fetchSlice = async (year?: number) => {
+      const cacheKey = `${selectedDataset}:${year ?? 'all'}`;
+      const cached = sliceCacheRef.current.get(cacheKey);
+      if (cached) return cached;
+
+      const records: DataPoint[] = await loadDatasetRecords(selectedDataset, { year, signal: controller.signal });
+      sliceCacheRef.current.set(cacheKey, records);
+      return records;
+    };
+
+    setSliceLoading(true);
+    Promise.all(sliceYears.map(fetchSlice))
+      .then(slices => {
+        setYearSlices(slices.flat());
+        setUsingMockData(false);
+      })
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('Error loading dataset:', error);
+        // Fallback to mock data
+        setSeriesData({ dataset: selectedDataset, records: generateMockData() });
+        setUsingMockData(true);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setSliceLoading(false);
+      });
+
+    return () => {
+      controller.abort();
+      setSliceLoading(false);
+    };
+  }, [isLoaded, selectedDataset, sliceKey, hasSeries, needsSeries]);
+
+  // Every year, once a view that spans years needs it
+  useEffect(() => {
+    if (!isLoaded || hasSeries || !needsSeries) return;
+    const controller = new AbortController();
+
+    setSeriesLoading(true);
+    loadDatasetRecords(selectedDataset, { signal: controller.signal })
+      .then(records => {
+        setSeriesData({ dataset: selectedDataset, records });
+        setUsingMockData(false);
+      })
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('Error loading dataset time series:', error);
+        // Fallback to mock data
+        setSeriesData({ dataset: selectedDataset, records: generateMockData() });
+        setUsingMockData(true);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setSeriesLoading(false);
+      });
+
+    return () => {
+      controller.abort();
+      setSeriesLoading(false);
+    };
+  }, [isLoaded, selectedDataset, hasSeries, needsSeries]);
+
+  // Drop every cached route response, from IndexedDB and this session; the next load fetches them again
+  const handleClearCache = async () => {
+    sliceCacheRef.current.clear();
+    try {
+      await clearDatasetCache();
+      setCacheStatus('Cached data cleared');
     } catch (error) {
-      console.error('Error loading dataset:', error);
-      // Fallback to mock data
-      const mockData = generateMockData();
-      setCanopyData(mockData);
-    } finally {
-      setLoading(false);
+      console.error('Error clearing dataset cache:', error);
+      setCacheStatus('Could not clear cached data');
     }
   };
 
@@ -718,7 +373,9 @@ const CanopyCoverVisualizer = () => {
         container: mapContainer.current,
         style: 'mapbox://styles/mapbox/satellite-streets-v12',
         center: center,
-        zoom: zoom
+        zoom: zoom,
+        // Lets timeline exports read frames back from the canvas
+        preserveDrawingBuffer: true
       });
 
       map.current = mapInstance;
@@ -745,12 +402,9 @@ const CanopyCoverVisualizer = () => {
       // Save state on moveend event
       mapInstance.on('moveend', saveMapState);
 
-      mapInstance.on('load', async () => {
+      mapInstance.on('load', () => {
         console.log('Map loaded successfully');
         setIsLoaded(true);
-        
-        // Load initial dataset
-        await loadDataset('mangaroa');
       });
 
       mapInstance.on('error', (e: { error: Error }) => {
@@ -769,140 +423,114 @@ const CanopyCoverVisualizer = () => {
     };
   }, []);
 
-  // Load new dataset when selection changes
-  useEffect(() => {
-    if (isLoaded) {
-      loadDataset(selectedDataset);
-    }
-  }, [selectedDataset, isLoaded]);
-
   // Process data based on visualization mode
-  const processVisualizationData = () => {
-    if (!canopyData.length) return [];
+  const processVisualizationData = (currentYear = selectedYear[0], data: DataPoint[] = canopyData) => {
+    if (!data.length) return [];
 
-    const currentYear = selectedYear[0];
     
     switch (visualizationMode) {
       case 'current_year':
-        // Only filter by year for time-series data
-        if (selectedDataset === 'mangaroa') {
-          return canopyData.filter(d => 'year' in d && d.year === currentYear);
+        // Only filter by year for datasets with yearly records
+        if (DATASETS[selectedDataset].years.length > 0) {
+          return data.filter(d => 'year' in d && d.year === currentYear);
         }
-        return canopyData;
+        return data;
         
       case 'change_from_baseline':
         if (selectedDataset === 'mangaroa') {
-          const mangaroaData = canopyData as MangaroaDataPoint[];
-          const baseline2013 = mangaroaData.filter(d => d.year === 2013);
-          const currentYearData = mangaroaData.filter(d => d.year === currentYear);
-          
-          return currentYearData.map(current => {
-            const baseline = baseline2013.find(b => b.pixel_id === current.pixel_id);
-            const metricKey = selectedMetric as keyof MangaroaDataPoint;
-            return {
-              ...current,
-              change_value: (current[metricKey] as number) - ((baseline?.[metricKey] as number) || 0),
-              baseline_value: (baseline?.[metricKey] as number) || 0
-            };
-          });
+          const mangaroaData = data as MangaroaDataPoint[];
+          const metricValue = (d: MangaroaDataPoint) => (isMangaroaMetric(selectedMetric) ? d[selectedMetric] : NaN);
+
+          // Pixels missing from either period keep a status instead of a change
+          return computeChange(mangaroaData, metricValue, beforePeriod, afterPeriod).map(change => ({
+            ...change.record,
+            change_value: change.absolute,
+            change_percent: change.percent,
+            baseline_value: change.before,
+            after_value: change.after,
+            change_status: change.status
+          }));
         }
-        return canopyData;
+        return data;
         
       case 'trend_analysis':
         if (selectedDataset === 'mangaroa') {
-          const mangaroaData = canopyData as MangaroaDataPoint[];
+          const mangaroaData = data as MangaroaDataPoint[];
           const pixelTrends: Record<number, PixelTrend> = {};
           
           // Calculate trend for each pixel
           mangaroaData.forEach(d => {
+            const metricKey = selectedMetric as keyof MangaroaDataPoint;
+            // Blank years are left out of the pixel's series
+            if (!Number.isFinite(d[metricKey])) return;
             if (!pixelTrends[d.pixel_id]) {
               pixelTrends[d.pixel_id] = { 
                 pixel_id: d.pixel_id, 
                 x: d.x, 
                 y: d.y, 
                 coordinates: d.coordinates,
+                footprint: d.footprint,
                 years: [], 
                 values: [], 
                 trend_slope: 0,
+                trend_lower: 0,
+                trend_upper: 0,
+                trend_p_value: 1,
                 avg_value: 0,
-                trend_direction: 'stable'
+                trend_direction: 'no_trend'
               };
             }
             pixelTrends[d.pixel_id].years.push(d.year);
-            const metricKey = selectedMetric as keyof MangaroaDataPoint;
             pixelTrends[d.pixel_id].values.push(d[metricKey] as number);
           });
         
           return Object.values(pixelTrends).map(trend => {
-            // Simple linear trend calculation
-            const n = trend.years.length;
-            if (n < 2) return null;
-            
-            const sumX = trend.years.reduce((a, b) => a + b, 0);
-            const sumY = trend.values.reduce((a, b) => a + b, 0);
-            const sumXY = trend.years.reduce((sum, year, i) => sum + year * trend.values[i], 0);
-            const sumXX = trend.years.reduce((sum, year) => sum + year * year, 0);
-            
-            const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
-            const avgValue = sumY / n;
+            // Theil–Sen slope with Mann–Kendall significance
+            if (trend.years.length < 2) return null;
+            const { slope, lower, upper, pValue, direction } = computeTrend(trend.years, trend.values, significance);
+            const avgValue = trend.values.reduce((a, b) => a + b, 0) / trend.values.length;
             
             const result: PixelTrend = {
               ...trend,
               trend_slope: slope,
+              trend_lower: lower,
+              trend_upper: upper,
+              trend_p_value: pValue,
               avg_value: avgValue,
-              trend_direction: slope > 0.5 ? 'increasing' : slope < -0.5 ? 'decreasing' : 'stable'
+              trend_direction: direction
             };
             result[selectedMetric] = avgValue;
             return result;
           }).filter((trend): trend is PixelTrend => trend !== null);
         }
-        return canopyData;
+        return data;
         
       default:
-        // Only filter by year for time-series data (Mangaroa)
-        if (selectedDataset === 'mangaroa') {
-          return canopyData.filter(d => 'year' in d && d.year === currentYear);
+        // Only filter by year for datasets with yearly records
+        if (DATASETS[selectedDataset].years.length > 0) {
+          return data.filter(d => 'year' in d && d.year === currentYear);
         }
-        return canopyData;
+        return data;
     }
   };
 
   // Helper function to safely get metric value from a data point
   const getMetricValue = (point: DataPoint | PixelTrend, metric: Metric): number => {
+    if (isMangaroaMetric(metric)) {
+      // Blank cells are NaN, or null once they have been through JSON
+      const value = (point as Partial<Record<Metric, unknown>>)[metric];
+      return typeof value === 'number' ? value : NaN;
+    }
+
     switch (metric) {
-      case 'canopy_cover':
-        if ('canopy_cover' in point && typeof point.canopy_cover === 'number') {
-          return point.canopy_cover;
-        }
-        return 0;
-      case 'tree_height':
-        if ('tree_height' in point && typeof point.tree_height === 'number') {
-          return point.tree_height;
-        }
-        return 0;
-      case 'living_biomass':
-        if ('living_biomass' in point && typeof point.living_biomass === 'number') {
-          return point.living_biomass;
-        }
-        return 0;
-      case 'carbon_stock':
-        if ('carbon_stock' in point && typeof point.carbon_stock === 'number') {
-          return point.carbon_stock;
-        }
-        return 0;
-      case 'diversity_index':
-        if ('diversity_index' in point && typeof point.diversity_index === 'number') {
-          return point.diversity_index;
-        }
-        return 0;
       case 'forest_change':
         if ('has_forest_gain' in point && 'forest_loss_year' in point) {
           return point.has_forest_gain ? 2 : point.forest_loss_year ? 0 : 1;
         }
         return 1;
       case 'land_class':
-        if ('dominant_class' in point && typeof point.dominant_class === 'number') {
-          return point.dominant_class;
+        if ('land_class' in point && typeof point.land_class === 'number') {
+          return point.land_class;
         }
         return 0;
       case 'forest_binary':
@@ -916,49 +544,41 @@ const CanopyCoverVisualizer = () => {
   };
 
   // Create GeoJSON for visualization
-  const createVisualizationGeoJSON = () => {
-    const data = processVisualizationData();
+  const createVisualizationGeoJSON = (year = selectedYear[0], records: DataPoint[] = canopyData) => {
+    const data = processVisualizationData(year, records);
     
     const geoJSON: GeoJSON.FeatureCollection = {
       type: 'FeatureCollection',
       features: data.map(point => {
         if (!point) return null;
-        const isMangaroaDataPoint = 'year' in point;
+        const isYearlyDataPoint = 'year' in point;
         const isPixelTrend = 'trend_slope' in point;
         
-        // Create a square polygon around the point (25m × 25m)
-        const size = 0.00025; // increased from 0.000225 to eliminate gaps
-        const [lng, lat] = point.coordinates;
-        const square = [
-          [lng - size/2, lat - size/2],
-          [lng + size/2, lat - size/2],
-          [lng + size/2, lat + size/2],
-          [lng - size/2, lat + size/2],
-          [lng - size/2, lat - size/2]
-        ];
-
         const metricValue = getMetricValue(point, selectedMetric);
 
         const feature: GeoJSON.Feature = {
           type: 'Feature',
           properties: {
             pixel_id: point.pixel_id,
-            year: isMangaroaDataPoint ? point.year : selectedYear[0],
-            [selectedMetric]: metricValue,
+            year: isYearlyDataPoint ? point.year : year,
+            [selectedMetric]: Number.isFinite(metricValue) ? metricValue : null,
             change_value: 'change_value' in point ? point.change_value : 0,
+            change_percent: 'change_percent' in point ? point.change_percent : null,
             baseline_value: 'baseline_value' in point ? point.baseline_value : 0,
+            after_value: 'after_value' in point ? point.after_value : null,
+            change_status: 'change_status' in point ? point.change_status : 'ok',
             trend_slope: isPixelTrend ? point.trend_slope : 0,
-            trend_direction: isPixelTrend ? point.trend_direction : 'stable',
-            avg_value: isPixelTrend ? point.avg_value : metricValue,
+            trend_lower: isPixelTrend ? point.trend_lower : 0,
+            trend_upper: isPixelTrend ? point.trend_upper : 0,
+            trend_p_value: isPixelTrend ? point.trend_p_value : 1,
+            trend_direction: isPixelTrend ? point.trend_direction : 'no_trend',
+            avg_value: isPixelTrend ? point.avg_value : Number.isFinite(metricValue) ? metricValue : null,
             visualization_mode: visualizationMode,
-            tree_height: isMangaroaDataPoint ? point.tree_height : 0,
-            living_biomass: isMangaroaDataPoint ? point.living_biomass : 0,
-            carbon_stock: isMangaroaDataPoint ? point.carbon_stock : 0
+            tree_height: 'tree_height' in point ? point.tree_height : 0,
+            living_biomass: 'living_biomass' in point ? point.living_biomass : 0,
+            carbon_stock: 'carbon_stock' in point ? point.carbon_stock : 0
           },
-          geometry: {
-            type: 'Polygon',
-            coordinates: [square]
-          }
+          geometry: point.footprint
         };
         return feature;
       }).filter((feature): feature is GeoJSON.Feature => feature !== null)
@@ -996,50 +616,63 @@ const CanopyCoverVisualizer = () => {
     
     switch (visualizationMode) {
       case 'current_year':
+        // Pixels without a value for the year are grey
         circleColor = [
-          'interpolate',
-          ['linear'],
-          ['get', selectedMetric],
-          ...metric.colorScale.flatMap(scale => [scale.value, scale.color])
+          'case',
+          ['==', ['typeof', ['get', selectedMetric]], 'number'],
+          [
+            'interpolate',
+            ['linear'],
+            ['get', selectedMetric],
+            ...metric.colorScale.flatMap(scale => [scale.value, scale.color])
+          ],
+          '#cccccc'
         ] as mapboxgl.Expression;
         heatmapWeight = [
           'interpolate',
           ['linear'],
-          ['get', selectedMetric],
+          ['to-number', ['get', selectedMetric], 0],
           0, 0,
           metric.colorScale[metric.colorScale.length - 1].value, 1
         ] as mapboxgl.Expression;
         break;
         
-      case 'change_from_baseline':
+      case 'change_from_baseline': {
+        // Pixels without a change (missing from a period, or a percent change from 0) are grey
+        const changeProperty = changeDisplay === 'percent' ? 'change_percent' : 'change_value';
+        const changeScale = changeDisplay === 'percent' ? PERCENT_CHANGE_SCALE : metric.changeColorScale;
         circleColor = [
-          'interpolate',
-          ['linear'],
-          ['get', 'change_value'],
-          ...metric.changeColorScale.flatMap(scale => [scale.value, scale.color])
+          'case',
+          ['==', ['typeof', ['get', changeProperty]], 'number'],
+          [
+            'interpolate',
+            ['linear'],
+            ['get', changeProperty],
+            ...changeScale.flatMap(scale => [scale.value, scale.color])
+          ],
+          MISSING_CHANGE_COLOR
         ] as mapboxgl.Expression;
         heatmapWeight = [
           'interpolate',
           ['linear'],
-          ['abs', ['get', 'change_value']],
+          ['abs', ['to-number', ['get', changeProperty], 0]],
           0, 0,
-          Math.abs(metric.changeColorScale[metric.changeColorScale.length - 1].value), 1
+          Math.abs(changeScale[changeScale.length - 1].value), 1
         ] as mapboxgl.Expression;
         break;
+      }
         
       case 'trend_analysis':
         circleColor = [
           'case',
-          ['==', ['get', 'trend_direction'], 'increasing'], '#2ca02c',
-          ['==', ['get', 'trend_direction'], 'decreasing'], '#d62728',
-          '#1f77b4'
+          ['==', ['get', 'trend_direction'], 'increasing'], TREND_COLORS.increasing,
+          ['==', ['get', 'trend_direction'], 'decreasing'], TREND_COLORS.decreasing,
+          TREND_COLORS.no_trend
         ] as mapboxgl.Expression;
         heatmapWeight = [
-          'interpolate',
-          ['linear'],
-          ['abs', ['get', 'trend_slope']],
-          0, 0,
-          2, 1
+          'case',
+          ['==', ['get', 'trend_direction'], 'no_trend'], 0.1,
+          1
         ] as mapboxgl.Expression;
         break;
         
@@ -1093,8 +726,20 @@ const CanopyCoverVisualizer = () => {
 
     // Add click handler for detailed popups
     const handleClick = (e: mapboxgl.MapMouseEvent & { features?: mapboxgl.MapboxGeoJSONFeature[] }) => {
-      if (!e.features?.[0]?.properties) return;
+      // Clicks place vertices while a zone is being drawn
+      if (drawingRef.current || !e.features?.[0]?.properties) return;
       const props = e.features[0].properties;
+      const pixelId = Number(props.pixel_id);
+
+      if (selectedDataset === 'mangaroa') {
+        if (e.originalEvent.shiftKey) {
+          setSeriesPixelIds(current =>
+            current.includes(pixelId) ? current : [...current, pixelId].slice(-MAX_COMPARED_PIXELS)
+          );
+          return;
+        }
+        setSeriesPixelIds([pixelId]);
+      }
       
       let popupContent = `
         <div style="padding: 12px; min-width: 250px; font-family: Arial, sans-serif;">
@@ -1105,20 +750,33 @@ const CanopyCoverVisualizer = () => {
       if (visualizationMode === 'current_year') {
         popupContent += `
           <p style="margin: 2px 0;"><strong>Year:</strong> ${props.year}</p>
-          <p style="margin: 2px 0;"><strong>${METRICS[selectedMetric].label}:</strong> ${(props[selectedMetric] || 0).toFixed(2)}${METRICS[selectedMetric].unit}</p>
+          <p style="margin: 2px 0;"><strong>${METRICS[selectedMetric].label}:</strong> ${formatMetricValue(selectedMetric, props[selectedMetric])}</p>
         `;
       } else if (visualizationMode === 'change_from_baseline') {
+        const periodValue = (value: unknown) =>
+          typeof value === 'number' ? formatMetricValue(selectedMetric, value) : 'No data';
+        const status = props.change_status as ChangeStatus;
         popupContent += `
-          <p style="margin: 2px 0;"><strong>Current Year:</strong> ${props.year}</p>
-          <p style="margin: 2px 0;"><strong>Current ${METRICS[selectedMetric].label}:</strong> ${(props[selectedMetric] || 0).toFixed(2)}${METRICS[selectedMetric].unit}</p>
-          <p style="margin: 2px 0;"><strong>2013 Baseline:</strong> ${(props.baseline_value || 0).toFixed(2)}${METRICS[selectedMetric].unit}</p>
-          <p style="margin: 2px 0; color: ${props.change_value > 0 ? '#22c55e' : props.change_value < 0 ? '#ef4444' : '#6b7280'};"><strong>Change:</strong> ${props.change_value > 0 ? '+' : ''}${(props.change_value || 0).toFixed(2)}${METRICS[selectedMetric].unit}</p>
+          <p style="margin: 2px 0;"><strong>Before (${periodLabel(beforePeriod)}):</strong> ${periodValue(props.baseline_value)}</p>
+          <p style="margin: 2px 0;"><strong>After (${periodLabel(afterPeriod)}):</strong> ${periodValue(props.after_value)}</p>
         `;
+        if (status === 'ok') {
+          const percent = typeof props.change_percent === 'number'
+            ? `${props.change_percent > 0 ? '+' : ''}${props.change_percent.toFixed(1)}%`
+            : 'n/a (before is 0)';
+          popupContent += `
+            <p style="margin: 2px 0; color: ${props.change_value > 0 ? '#22c55e' : props.change_value < 0 ? '#ef4444' : '#6b7280'};"><strong>Change:</strong> ${props.change_value > 0 ? '+' : ''}${formatMetricValue(selectedMetric, props.change_value)} (${percent})</p>
+          `;
+        } else {
+          popupContent += `<p style="margin: 2px 0; color: #6b7280;"><strong>Change:</strong> ${CHANGE_STATUS_LABELS[status]}</p>`;
+        }
       } else if (visualizationMode === 'trend_analysis') {
         popupContent += `
-          <p style="margin: 2px 0;"><strong>12-Year Trend:</strong> <span style="color: ${props.trend_direction === 'increasing' ? '#22c55e' : props.trend_direction === 'decreasing' ? '#ef4444' : '#6b7280'}">${props.trend_direction}</span></p>
-          <p style="margin: 2px 0;"><strong>Avg ${METRICS[selectedMetric].label}:</strong> ${(props.avg_value || 0).toFixed(2)}${METRICS[selectedMetric].unit}</p>
-          <p style="margin: 2px 0;"><strong>Annual Change:</strong> ${props.trend_slope > 0 ? '+' : ''}${(props.trend_slope || 0).toFixed(3)}${METRICS[selectedMetric].unit}/year</p>
+          <p style="margin: 2px 0;"><strong>12-Year Trend:</strong> <span style="color: ${TREND_COLORS[props.trend_direction as TrendDirection]}">${TREND_LABELS[props.trend_direction as TrendDirection]}</span></p>
+          <p style="margin: 2px 0;"><strong>Avg ${METRICS[selectedMetric].label}:</strong> ${formatMetricValue(selectedMetric, props.avg_value)}</p>
+          <p style="margin: 2px 0;"><strong>Sen's Slope:</strong> ${props.trend_slope > 0 ? '+' : ''}${formatMetricValue(selectedMetric, props.trend_slope, 3)}/year</p>
+          <p style="margin: 2px 0;"><strong>${Math.round((1 - significance) * 100)}% CI:</strong> ${formatMetricValue(selectedMetric, props.trend_lower, 3)} to ${formatMetricValue(selectedMetric, props.trend_upper, 3)}/year</p>
+          <p style="margin: 2px 0;"><strong>Mann-Kendall p:</strong> ${props.trend_p_value < 0.001 ? '&lt; 0.001' : props.trend_p_value.toFixed(3)} (α = ${significance})</p>
         `;
       }
       
@@ -1130,8 +788,8 @@ const CanopyCoverVisualizer = () => {
         .addTo(map.current as mapboxgl.Map);
     };
 
-    map.current.off('click', 'canopy-points' as any);
-    map.current.on('click', 'canopy-points' as any, handleClick);
+    raiseAOILayer(map.current);
+    raiseZoneLayers(map.current);
 
     // Cursor handling
     const handleMouseEnter = () => {
@@ -1144,41 +802,81 @@ const CanopyCoverVisualizer = () => {
       map.current.getCanvas().style.cursor = '';
     };
 
-    map.current.on('mouseenter', 'canopy-points' as any, handleMouseEnter);
-    map.current.on('mouseleave', 'canopy-points' as any, handleMouseLeave);
-
-  }, [selectedYear, visualizationMode, selectedMetric, opacity, isLoaded, canopyData, loading]);
+    const mapInstance = map.current;
+    mapInstance.on('click', 'canopy-points', handleClick);
+    mapInstance.on('mouseenter', 'canopy-points', handleMouseEnter);
+    mapInstance.on('mouseleave', 'canopy-points', handleMouseLeave);
 
-  // Animation controls
-  const startAnimation = () => {
-    if (isAnimating) return;
-    
-    setIsAnimating(true);
-    let currentYearIndex = 0;
-    
-    const animate = () => {
-      if (currentYearIndex < years.length) {
-        setSelectedYear([years[currentYearIndex]]);
-        currentYearIndex++;
-        animationRef.current = setTimeout(animate, 1000); // 1 second per year
-      } else {
-        setIsAnimating(false);
-      }
+    // Each run binds handlers over its own state, so the previous ones come off first
+    return () => {
+      mapInstance.off('click', 'canopy-points', handleClick);
+      mapInstance.off('mouseenter', 'canopy-points', handleMouseEnter);
+      mapInstance.off('mouseleave', 'canopy-points', handleMouseLeave);
     };
-    
-    animate();
+  }, [selectedYear, visualizationMode, selectedMetric, opacity, isLoaded, canopyData, loading, significance, beforePeriod, afterPeriod, changeDisplay]);
+
+  // Draw the selected AOI and zoom to it
+  useEffect(() => {
+    if (!isLoaded || !map.current) return;
+
+    showAOIOnMap(map.current, aoi);
+    if (aoi) {
+      map.current.fitBounds(aoi.bbox as mapboxgl.LngLatBoundsLike, { padding: 40 });
+    }
+  }, [isLoaded, aoi]);
+
+  const handleImportAOIs = (imported: AOI[]) => {
+    setAois(current => [...current, ...imported]);
+    setSelectedAoiId(imported[0].id);
   };
 
-  const stopAnimation = () => {
-    if (animationRef.current) {
-      clearTimeout(animationRef.current);
+  // Animation controls: frames are built once, then each tick only swaps the source data.
+  // Playback spans every year, so the full series is loaded first if only slices are held.
+  const prepareAnimationFrames = async () => {
+    let records = series;
+    if (!records) {
+      records = await loadDatasetRecords(selectedDataset);
+      setSeriesData({ dataset: selectedDataset, records });
     }
-    setIsAnimating(false);
+    const clipped = clipToAOI(records, aoi);
+    framesRef.current = new Map(DATASETS[selectedDataset].years.map(year => [year, createVisualizationGeoJSON(year, clipped)]));
+  };
+
+  const showAnimationFrame = (year: number) => {
+    const frame = framesRef.current.get(year);
+    const source = map.current?.getSource('canopy-data') as mapboxgl.GeoJSONSource | undefined;
+    if (!frame || !source) return;
+    source.setData(frame);
+    setPlaybackYear(year);
   };
 
-  // Calculate average values for each year for the selected metric
+  const handleAnimationPlayingChange = (playing: boolean) => {
+    setIsAnimating(playing);
+    if (!playing) setPlaybackYear(null);
+  };
+
+  // Back to the selected year after recording a timeline export
+  const finishExport = () => {
+    showAnimationFrame(selectedYear[0]);
+    setPlaybackYear(null);
+  };
+
+  // The metric scale burned into exported timelines
+  const exportLegend: LegendItem[] = visualizationMode === 'current_year'
+    ? METRICS[selectedMetric].colorScale.map(scale => ({
+        color: scale.color,
+        label: `${scale.value}${METRICS[selectedMetric].unit}`
+      }))
+    : [];
+
+  // Calculate average values for each year for the selected metric. Without an AOI the
+  // stats route already has them, so the year slices are enough.
   const calculateYearlyAverages = () => {
-    if (!canopyData.length || selectedDataset !== 'mangaroa') return [];
+    if (selectedDataset !== 'mangaroa') return [];
+    if (!aoi && isMangaroaMetric(selectedMetric) && datasetStats?.yearlyAverages?.[selectedMetric]) {
+      return datasetStats.yearlyAverages[selectedMetric];
+    }
+    if (!canopyData.length) return [];
 
     const yearlyData = new Map<number, { sum: number; count: number }>();
     
@@ -1187,6 +885,7 @@ const CanopyCoverVisualizer = () => {
       if ('year' in point && typeof point.year === 'number') {
         const year = point.year;
         const value = getMetricValue(point, selectedMetric);
+        if (!Number.isFinite(value)) return;
         
         if (!yearlyData.has(year)) {
           yearlyData.set(year, { sum: 0, count: 0 });
@@ -1216,7 +915,8 @@ const CanopyCoverVisualizer = () => {
         x: getMetricValue(point, selectedMetricsForCorrelation[0]),
         y: getMetricValue(point, selectedMetricsForCorrelation[1]),
         pixel_id: point.pixel_id
-      }));
+      }))
+      .filter(point => Number.isFinite(point.x) && Number.isFinite(point.y));
   };
 
   // Calculate correlation coefficient
@@ -1277,6 +977,17 @@ const CanopyCoverVisualizer = () => {
           </p>
         </div>
 
+        {/* Area of Interest */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium mb-2 text-gray-700">Area of Interest</label>
+          <AOIControl
+            aois={aois}
+            selectedId={selectedAoiId}
+            onImport={handleImportAOIs}
+            onSelect={setSelectedAoiId}
+          />
+        </div>
+
         {/* Correlation Analysis */}
         {visualizationMode === 'correlation' && (
           <div className="mb-4">
@@ -1336,7 +1047,7 @@ const CanopyCoverVisualizer = () => {
                     name={METRICS[selectedMetricsForCorrelation[0]].label}
                     unit={METRICS[selectedMetricsForCorrelation[0]].unit}
                     label={{
-                      value: METRICS[selectedMetricsForCorrelation[0]].label + (METRICS[selectedMetricsForCorrelation[0]].unit ? ` (${METRICS[selectedMetricsForCorrelation[0]].unit})` : ''),
+                      value: formatMetricLabel(selectedMetricsForCorrelation[0]),
                       position: 'insideBottom',
                       offset: -5
                     }}
@@ -1347,7 +1058,7 @@ const CanopyCoverVisualizer = () => {
                     name={METRICS[selectedMetricsForCorrelation[1]].label}
                     unit={METRICS[selectedMetricsForCorrelation[1]].unit}
                     label={{
-                      value: METRICS[selectedMetricsForCorrelation[1]].label + (METRICS[selectedMetricsForCorrelation[1]].unit ? ` (${METRICS[selectedMetricsForCorrelation[1]].unit})` : ''),
+                      value: formatMetricLabel(selectedMetricsForCorrelation[1]),
                       angle: -90,
                       position: 'insideLeft',
                       style: { textAnchor: 'middle' }
@@ -1355,7 +1066,7 @@ const CanopyCoverVisualizer = () => {
                   />
                   <Tooltip
                     formatter={(value: number, name: string) => [
-                      value.toFixed(2) + (name === 'x' ? METRICS[selectedMetricsForCorrelation[0]].unit : METRICS[selectedMetricsForCorrelation[1]].unit),
+                      formatMetricValue(name === 'x' ? selectedMetricsForCorrelation[0] : selectedMetricsForCorrelation[1], value),
                       name === 'x' ? METRICS[selectedMetricsForCorrelation[0]].label : METRICS[selectedMetricsForCorrelation[1]].label
                     ]}
                     labelFormatter={(label) => `Pixel ID: ${label}`}
@@ -1403,14 +1114,14 @@ const CanopyCoverVisualizer = () => {
                   <YAxis 
                     tick={{ fontSize: 12 }}
                     label={{ 
-                      value: METRICS[selectedMetric].label + (METRICS[selectedMetric].unit ? ` (${METRICS[selectedMetric].unit})` : ''),
+                      value: formatMetricLabel(selectedMetric),
                       angle: -90,
                       position: 'insideLeft',
                       style: { textAnchor: 'middle' }
                     }}
                   />
                   <Tooltip
-                    formatter={(value: number) => [value.toFixed(2) + METRICS[selectedMetric].unit, METRICS[selectedMetric].label]}
+                    formatter={(value: number) => [formatMetricValue(selectedMetric, value), METRICS[selectedMetric].label]}
                     labelFormatter={(year) => `Year: ${year}`}
                   />
                   <Legend />
@@ -1429,14 +1140,76 @@ const CanopyCoverVisualizer = () => {
           </div>
         )}
 
+        {/* Trend Significance */}
+        {visualizationMode === 'trend_analysis' && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium mb-2 text-gray-700">
+              Significance level (α) for {METRICS[selectedMetric].label}
+            </label>
+            <div className="flex gap-2">
+              {SIGNIFICANCE_LEVELS.map(level => (
+                <button
+                  key={level}
+                  onClick={() => setSignificanceByMetric({ ...significanceByMetric, [selectedMetric]: level })}
+                  className={`flex-1 text-xs px-2 py-1 rounded ${
+                    significance === level ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+                  }`}
+                >
+                  {level}
+                </button>
+              ))}
+              <input
+                type="number"
+                min={0.001}
+                max={0.5}
+                step={0.001}
+                value={significance}
+                onChange={(e) => {
+                  const level = Number(e.target.value);
+                  if (level > 0 && level < 1) setSignificanceByMetric({ ...significanceByMetric, [selectedMetric]: level });
+                }}
+                className="w-20 text-xs p-1 bg-white border border-gray-300 rounded text-gray-800"
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Theil–Sen slope per pixel; Mann–Kendall test decides significance
+            </p>
+          </div>
+        )}
+
+        {/* Change Periods */}
+        {visualizationMode === 'change_from_baseline' && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium mb-2 text-gray-700">Compare Periods</label>
+            <ChangePeriodControl label="Before" period={beforePeriod} years={years} onChange={setBeforePeriod} />
+            <ChangePeriodControl label="After" period={afterPeriod} years={years} onChange={setAfterPeriod} />
+            <div className="flex gap-2">
+              {(['absolute', 'percent'] as ChangeDisplay[]).map(display => (
+                <button
+                  key={display}
+                  onClick={() => setChangeDisplay(display)}
+                  className={`flex-1 text-xs px-2 py-1 rounded capitalize ${
+                    changeDisplay === display ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+                  }`}
+                >
+                  {display} change
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Windows are averaged per pixel; pixels missing from a period are shown grey
+            </p>
+          </div>
+        )}
+
         {/* Year Selection */}
-        {visualizationMode !== 'trend_analysis' && (
+        {visualizationMode !== 'trend_analysis' && visualizationMode !== 'change_from_baseline' && (
           <div className="mb-4">
             <label className="block text-sm font-medium mb-2 text-gray-700">
-              Year: {selectedYear[0]}
+              Year: {playbackYear ?? selectedYear[0]}
             </label>
             <Slider
-              value={selectedYear}
+              value={playbackYear !== null ? [playbackYear] : selectedYear}
               onValueChange={setSelectedYear}
               min={2013}
               max={2024}
@@ -1451,27 +1224,30 @@ const CanopyCoverVisualizer = () => {
         )}
 
         {/* Animation Controls */}
-        {/* {visualizationMode !== 'trend_analysis' && (
+        {visualizationMode !== 'trend_analysis' && visualizationMode !== 'change_from_baseline' &&
+          DATASETS[selectedDataset].years.length > 1 && (
           <div className="mb-4">
             <label className="block text-sm font-medium mb-2 text-gray-700">Timeline Animation</label>
-            <div className="flex gap-2">
-              <button
-                onClick={startAnimation}
-                disabled={isAnimating}
-                className="flex-1 bg-green-500 text-white px-3 py-2 rounded hover:bg-green-600 transition-colors disabled:bg-gray-400"
-              >
-                {isAnimating ? 'Playing...' : 'Play Timeline'}
-              </button>
-              <button
-                onClick={stopAnimation}
-                disabled={!isAnimating}
-                className="flex-1 bg-red-500 text-white px-3 py-2 rounded hover:bg-red-600 transition-colors disabled:bg-gray-400"
-              >
-                Stop
-              </button>
-            </div>
+            <TimelinePlayer
+              years={DATASETS[selectedDataset].years}
+              year={selectedYear[0]}
+              onYearChange={(year) => setSelectedYear([year])}
+              prepareFrames={prepareAnimationFrames}
+              onFrame={showAnimationFrame}
+              onPlayingChange={handleAnimationPlayingChange}
+            />
+            <TimelineExportControl
+              map={isLoaded ? map.current : null}
+              years={DATASETS[selectedDataset].years}
+              title={`${DATASETS[selectedDataset].label} – ${METRICS[selectedMetric].label}`}
+              legend={exportLegend}
+              fileName={`${selectedDataset}-${selectedMetric}-timeline`}
+              prepareFrames={prepareAnimationFrames}
+              showFrame={showAnimationFrame}
+              onFinish={finishExport}
+            />
           </div>
-        )} */}
+        )}
 
         {/* Opacity Control */}
         <div className="mb-4">
@@ -1503,38 +1279,37 @@ const CanopyCoverVisualizer = () => {
                     </span>
                   </div>
                 ))}
+                <div className="flex items-center space-x-2">
+                  <div className="w-4 h-4 rounded" style={{ backgroundColor: '#cccccc' }}></div>
+                  <span className="text-xs">No value</span>
+                </div>
               </>
             )}
             {visualizationMode === 'change_from_baseline' && (
               <>
-                {METRICS[selectedMetric].changeColorScale.map((scale, index, array) => (
-                  <div key={index} className="flex items-center space-x-2">
+                {(changeDisplay === 'percent' ? PERCENT_CHANGE_SCALE : METRICS[selectedMetric].changeColorScale).map(scale => (
+                  <div key={scale.value} className="flex items-center space-x-2">
                     <div className="w-4 h-4 rounded" style={{ backgroundColor: scale.color }}></div>
                     <span className="text-xs">
-                      {index === 0 ? 'Large Decrease' : 
-                       index === 1 ? 'Moderate Decrease' :
-                       index === 2 ? 'No Change' :
-                       index === 3 ? 'Moderate Increase' : 'Large Increase'}
-                      ({scale.value}{METRICS[selectedMetric].unit})
+                      {scale.value < 0 ? 'Decrease' : scale.value > 0 ? 'Increase' : 'No Change'}{' '}
+                      ({scale.value > 0 ? '+' : ''}{scale.value}{changeDisplay === 'percent' ? '%' : METRICS[selectedMetric].unit})
                     </span>
                   </div>
                 ))}
+                <div className="flex items-center space-x-2">
+                  <div className="w-4 h-4 rounded" style={{ backgroundColor: MISSING_CHANGE_COLOR }}></div>
+                  <span className="text-xs">Missing in a period{changeDisplay === 'percent' ? ' or before is 0' : ''}</span>
+                </div>
               </>
             )}
             {visualizationMode === 'trend_analysis' && (
               <>
-                <div className="flex items-center space-x-2">
-                  <div className="w-4 h-4 rounded" style={{ backgroundColor: '#2ca02c' }}></div>
-                  <span className="text-xs">Increasing Trend (&gt;+0.5{METRICS[selectedMetric].unit}/year)</span>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <div className="w-4 h-4 rounded" style={{ backgroundColor: '#1f77b4' }}></div>
-                  <span className="text-xs">Stable (-0.5 to +0.5{METRICS[selectedMetric].unit}/year)</span>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <div className="w-4 h-4 rounded" style={{ backgroundColor: '#d62728' }}></div>
-                  <span className="text-xs">Decreasing Trend (&lt;-0.5{METRICS[selectedMetric].unit}/year)</span>
-                </div>
+                {(Object.keys(TREND_LABELS) as TrendDirection[]).map(direction => (
+                  <div key={direction} className="flex items-center space-x-2">
+                    <div className="w-4 h-4 rounded" style={{ backgroundColor: TREND_COLORS[direction] }}></div>
+                    <span className="text-xs">{TREND_LABELS[direction]} (p &lt; {significance})</span>
+                  </div>
+                ))}
               </>
             )}
           </div>
@@ -1565,7 +1340,8 @@ const CanopyCoverVisualizer = () => {
             <button
               onClick={() => {
                 setVisualizationMode('change_from_baseline');
-                setSelectedYear([2024]);
+                setBeforePeriod({ start: 2013, end: 2013 });
+                setAfterPeriod({ start: 2024, end: 2024 });
               }}
               className="text-xs bg-orange-100 text-orange-800 px-2 py-1 rounded hover:bg-orange-200"
             >
@@ -1577,9 +1353,30 @@ const CanopyCoverVisualizer = () => {
             >
               Trend Analysis
             </button>
+            <button
+              onClick={handleClearCache}
+              className="col-span-2 text-xs bg-gray-100 text-gray-800 px-2 py-1 rounded hover:bg-gray-200"
+            >
+              Clear cached data
+            </button>
           </div>
+          {cacheStatus && <p className="text-xs text-gray-500 mt-1">{cacheStatus}</p>}
         </div>
 
+        {/* Values outside the range declared for their metric */}
+        {!!datasetStats?.rangeViolations?.length && (
+          <div className="mb-4 text-xs bg-amber-50 border border-amber-300 text-amber-800 rounded p-2">
+            <p className="font-medium mb-1">Values outside the expected range</p>
+            {datasetStats.rangeViolations.map(violation => (
+              <p key={violation.metric}>
+                • {METRICS[violation.metric].label}: {violation.count} values from{' '}
+                {formatMetricValue(violation.metric, violation.min)} to {formatMetricValue(violation.metric, violation.max)}{' '}
+                (expected {METRICS[violation.metric].range.join('–')}{METRICS[violation.metric].unit})
+              </p>
+            ))}
+          </div>
+        )}
+
         {/* Data Quality Info */}
         <div className="text-xs text-gray-500 border-t pt-2">
           <p><strong>Data Structure:</strong></p>
@@ -1588,7 +1385,8 @@ const CanopyCoverVisualizer = () => {
           <p>• Location: Mangaroa Zone 1, New Zealand</p>
           <p>• Coordinate system: WGS84 (EPSG:4326)</p>
           <p className="mt-2"><strong>Interaction:</strong></p>
-          <p>• Click pixels for detailed info</p>
+          <p>• Click pixels for detailed info and their time series</p>
+          <p>• Shift-click to add pixels to the time-series chart</p>
           <p>• Zoom in for individual pixel view</p>
           <p>• Use animation to see changes over time</p>
         </div>
@@ -1597,6 +1395,29 @@ const CanopyCoverVisualizer = () => {
       {/* Map Container */}
       <div ref={mapContainer} className="w-full h-full" />
 
+      {/* Time series of the clicked pixels */}
+      {selectedDataset === 'mangaroa' && seriesPixelIds.length > 0 && (
+        <PixelTimeSeriesPanel
+          records={canopyData as MangaroaDataPoint[]}
+          pixelIds={seriesPixelIds}
+          zoneMeans={dataStats?.yearlyAverages}
+          onRemovePixel={(pixelId) => setSeriesPixelIds(seriesPixelIds.filter(id => id !== pixelId))}
+          onClose={() => setSeriesPixelIds([])}
+        />
+      )}
+
+      {/* Zonal Statistics from the API, or over the mock pixels when it can't be reached */}
+      <ZonalStatsPanel
+        map={isLoaded ? map.current : null}
+        getZonalStats={async (zone: Zone, signal: AbortSignal) => {
+          const year = hasYears ? selectedYear[0] : undefined;
+          if (!usingMockData) return fetchZonalStats(selectedDataset, zone.geometry, { year, signal });
+          return zonalStatistics(loadedData, zone.geometry, ZONAL_FIELDS[selectedDataset] as ZonalField<DataPoint>[], year);
+        }}
+        statsKey={`${selectedDataset}:${usingMockData}:${hasYears ? selectedYear[0] : ''}`}
+        onDrawingChange={(drawing) => { drawingRef.current = drawing; }}
+      />
+
       {/* Loading Overlay */}
       {(!isLoaded || loading) && (
         <div className="absolute inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center z-20">
@@ -1604,7 +1425,11 @@ const CanopyCoverVisualizer = () => {
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white mb-4 mx-auto"></div>
             <p>{!isLoaded ? 'Loading Mapbox...' : 'Processing Canopy Cover Data...'}</p>
             <p className="text-sm text-gray-300 mt-2">
-              {loading ? 'Reading CSV file and calculating statistics...' : 'Initializing map visualization...'}
+              {!loading
+                ? 'Initializing map visualization...'
+                : seriesLoading
+                  ? 'Fetching every year of pixels from the server...'
+                  : `Fetching ${hasYears ? `${sliceKey.replace(',', ' and ')} pixels` : 'pixels'} from the server...`}
             </p>
           </div>
         </div>
@@ -1615,7 +1440,8 @@ const CanopyCoverVisualizer = () => {
         <div className="text-xs text-gray-600">
           <p className="font-medium">Mangaroa Analysis</p>
           <p>{VISUALIZATION_MODES[visualizationMode].label}</p>
-          {visualizationMode !== 'trend_analysis' && <p>Year: {selectedYear[0]}</p>}
+          {visualizationMode === 'change_from_baseline' && <p>{periodLabel(beforePeriod)} → {periodLabel(afterPeriod)}</p>}
+          {visualizationMode !== 'trend_analysis' && visualizationMode !== 'change_from_baseline' && <p>Year: {playbackYear ?? selectedYear[0]}</p>}
           {isAnimating && <p className="text-green-600">▶ Animating timeline...</p>}
           {dataStats && (
             <p className="mt-1 text-green-600">
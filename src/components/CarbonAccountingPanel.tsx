@@ -0,0 +1,174 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { AOI } from '@/lib/aoi';
+import type { CarbonAccount } from '@/lib/carbonAccounting';
+import { isAbortError } from '@/lib/datasetLoader';
+import type { PolygonalGeometry } from '@/lib/geometry';
+import { useLatest } from '@/lib/useLatest';
+
+interface CarbonAccountingPanelProps {
+  aois: AOI[];
+  defaultAoiId: string | null;
+  years: readonly number[];
+  getAccount: (
+    options: { zone?: PolygonalGeometry; baselineYear: number },
+    signal: AbortSignal
+  ) => Promise<CarbonAccount>;
+  // Changes whenever the underlying dataset changes, so the account is recomputed
+  accountKey: string;
+  onClose: () => void;
+}
+
+const formatTonnes = (tonnes: number | null) =>
+  tonnes === null ? '—' : tonnes.toLocaleString(undefined, { maximumFractionDigits: 1 });
+
+const formatChange = (tonnes: number | null) =>
+  tonnes === null ? '—' : `${tonnes > 0 ? '+' : ''}${formatTonnes(tonnes)}`;
+
+// Carbon and CO₂e totals for the whole project area or one AOI, with net annual
+// removals and the change since a chosen baseline year
+const CarbonAccountingPanel = ({ aois, defaultAoiId, years, getAccount, accountKey, onClose }: CarbonAccountingPanelProps) => {
+  const [scopeId, setScopeId] = useState(defaultAoiId ?? '');
+  const [baselineYear, setBaselineYear] = useState(years[0]);
+  const [account, setAccount] = useState<CarbonAccount | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const zone = aois.find(aoi => aoi.id === scopeId)?.geometry;
+  const getAccountRef = useLatest(getAccount);
+  const latest = account?.years[account.years.length - 1];
+
+  useEffect(() => {
+    if (!years.includes(baselineYear)) setBaselineYear(years[0]);
+  }, [years, baselineYear]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+
+    getAccountRef.current({ zone, baselineYear }, controller.signal)
+      .then(result => {
+        setAccount(result);
+        setError(null);
+      })
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('Error computing carbon account:', error);
+        setError('Could not compute carbon totals');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [accountKey, zone, baselineYear, getAccountRef]);
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 bg-white p-4 rounded-lg shadow-lg w-[40rem] max-h-[60vh] overflow-y-auto text-gray-800">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-bold">Carbon Accounting</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700">✕</button>
+      </div>
+
+      {/* Scope and baseline */}
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <label className="text-xs font-medium">
+          Area
+          <select
+            value={scopeId}
+            onChange={(e) => setScopeId(e.target.value)}
+            className="w-full mt-1 p-1 bg-white border border-gray-300 rounded font-normal"
+          >
+            <option value="">Whole project area</option>
+            {aois.map(aoi => (
+              <option key={aoi.id} value={aoi.id}>{aoi.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-medium">
+          Baseline year
+          <select
+            value={baselineYear}
+            onChange={(e) => setBaselineYear(Number(e.target.value))}
+            className="w-full mt-1 p-1 bg-white border border-gray-300 rounded font-normal"
+          >
+            {years.map(year => (
+              <option key={year} value={year}>{year}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {loading && <p className="text-xs text-gray-500 mb-2">Computing…</p>}
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+
+      {account && latest && (
+        <>
+          {/* Headline totals */}
+          <div className="grid grid-cols-3 gap-2 mb-3 text-center">
+            <div className="bg-gray-50 rounded p-2">
+              <p className="text-xs text-gray-500">Area</p>
+              <p className="text-sm font-semibold">{account.areaHa.toFixed(1)} ha</p>
+            </div>
+            <div className="bg-gray-50 rounded p-2">
+              <p className="text-xs text-gray-500">{latest.year} stock</p>
+              <p className="text-sm font-semibold">{formatTonnes(latest.co2eT)} tCO₂e</p>
+              <p className="text-xs text-gray-500">{formatTonnes(latest.carbonT)} tC</p>
+            </div>
+            <div className="bg-gray-50 rounded p-2">
+              <p className="text-xs text-gray-500">Since {account.baselineYear}</p>
+              <p className={`text-sm font-semibold ${latest.cumulativeT >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+                {formatChange(latest.cumulativeT)} tCO₂e
+              </p>
+            </div>
+          </div>
+
+          {/* Yearly chart */}
+          <div className="h-56 mb-3">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={account.years} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="year" tick={{ fontSize: 10 }} />
+                <YAxis yAxisId="stock" tick={{ fontSize: 10 }} />
+                <YAxis yAxisId="removals" orientation="right" tick={{ fontSize: 10 }} />
+                <Tooltip formatter={(value: number) => formatTonnes(value)} />
+                <Legend wrapperStyle={{ fontSize: 10 }} />
+                <Bar yAxisId="removals" dataKey="netRemovalsT" name="Net removals (tCO₂e/yr)" fill="#86efac" />
+                <Line yAxisId="stock" type="monotone" dataKey="co2eT" name="Stock (tCO₂e)" stroke="#15803d" strokeWidth={2} dot={{ r: 2 }} />
+                <Line yAxisId="stock" type="monotone" dataKey="cumulativeT" name={`Since ${account.baselineYear} (tCO₂e)`} stroke="#2563eb" strokeDasharray="4 2" dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Yearly table */}
+          <table className="text-xs w-full">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-1 font-medium">Year</th>
+                <th className="text-right p-1 font-medium">Carbon (tC)</th>
+                <th className="text-right p-1 font-medium">CO₂e (t)</th>
+                <th className="text-right p-1 font-medium">Net removals (t/yr)</th>
+                <th className="text-right p-1 font-medium">Since {account.baselineYear} (t)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {account.years.map(row => (
+                <tr key={row.year} className={`border-b ${row.year === account.baselineYear ? 'bg-blue-50' : ''}`}>
+                  <td className="p-1">{row.year}</td>
+                  <td className="p-1 text-right">{formatTonnes(row.carbonT)}</td>
+                  <td className="p-1 text-right">{formatTonnes(row.co2eT)}</td>
+                  <td className="p-1 text-right">{formatChange(row.netRemovalsT)}</td>
+                  <td className="p-1 text-right">{formatChange(row.cumulativeT)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CarbonAccountingPanel;
@@ -0,0 +1,42 @@
+"use client";
+
+import React from 'react';
+import type { ChangePeriod } from '@/lib/changeDetection';
+
+interface ChangePeriodControlProps {
+  label: string;
+  period: ChangePeriod;
+  years: readonly number[];
+  onChange: (period: ChangePeriod) => void;
+}
+
+// A single year (start = end) or a window of years averaged per pixel
+const ChangePeriodControl = ({ label, period, years, onChange }: ChangePeriodControlProps) => (
+  <div className="flex items-center gap-2 mb-2">
+    <span className="text-xs font-medium text-gray-700 w-12">{label}</span>
+    <select
+      value={period.start}
+      onChange={(e) => {
+        const start = Number(e.target.value);
+        onChange({ start, end: Math.max(start, period.end) });
+      }}
+      className="flex-1 p-1 text-xs bg-white border border-gray-300 rounded text-gray-800"
+    >
+      {years.map(year => (
+        <option key={year} value={year}>{year}</option>
+      ))}
+    </select>
+    <span className="text-xs text-gray-500">to</span>
+    <select
+      value={period.end}
+      onChange={(e) => onChange({ ...period, end: Number(e.target.value) })}
+      className="flex-1 p-1 text-xs bg-white border border-gray-300 rounded text-gray-800"
+    >
+      {years.filter(year => year >= period.start).map(year => (
+        <option key={year} value={year}>{year}</option>
+      ))}
+    </select>
+  </div>
+);
+
+export default ChangePeriodControl;
@@ -0,0 +1,501 @@
+"use client";
+
+import React, { useState, useEffect, useRef } from 'react';
+import mapboxgl from 'mapbox-gl';
+import { DATASETS, MANGAROA_COLUMNS, type DatasetKey, type MangaroaMetric } from '@/lib/datasets';
+import { COLOR_RAMPS, datasetFillColor, datasetLegend, type ColorRampKey } from '@/lib/datasetStyles';
+import { isAbortError } from '@/lib/datasetLoader';
+import { ioClassLabel } from '@/lib/ioClasses';
+import { METRICS, formatMetricValue } from '@/lib/metrics';
+import { clipFeaturesToAOI, raiseAOILayer, showAOIOnMap, type AOI } from '@/lib/aoi';
+import { useLatest } from '@/lib/useLatest';
+
+export interface CompareSide {
+  dataset: DatasetKey;
+  // null for static datasets
+  year: number | null;
+  // Mangaroa only
+  metric: MangaroaMetric;
+  ramp: ColorRampKey;
+}
+
+export interface CompareViewport {
+  center: [number, number];
+  zoom: number;
+}
+
+type CompareLayout = 'split' | 'swipe';
+
+type PixelProperties = Record<string, any>;
+
+type FetchSlice = (datasetKey: DatasetKey, year?: number, signal?: AbortSignal) => Promise<GeoJSON.FeatureCollection>;
+
+const SIDE_TITLES = ['Left', 'Right'] as const;
+
+const createSide = (dataset: DatasetKey, year: number | null = null): CompareSide => ({
+  dataset,
+  year,
+  metric: 'canopy_cover',
+  ramp: 'default'
+});
+
+// First vs selected year of a time series; otherwise the dataset against GLAD (or JRC)
+const initialSides = (dataset: DatasetKey, year: number): [CompareSide, CompareSide] => {
+  const years: readonly number[] = DATASETS[dataset].years;
+  if (years.length > 1) {
+    return [
+      createSide(dataset, years[0]),
+      createSide(dataset, years.includes(year) ? year : years[years.length - 1])
+    ];
+  }
+  return [createSide(dataset), createSide(dataset === 'glad' ? 'jrc_cover' : 'glad')];
+};
+
+const sideLabel = ({ dataset, year }: CompareSide) =>
+  `${DATASETS[dataset].label}${year !== null ? ` ${year}` : ''}`;
+
+// Values shown in the inspector for a clicked pixel
+const pixelRows = (side: CompareSide, props: PixelProperties | null): [string, string][] => {
+  if (!props) return [['Pixel', 'No data here']];
+
+  const rows: [string, string][] = [['Pixel', String(props.pixel_id)]];
+  switch (side.dataset) {
+    case 'mangaroa':
+      rows.push([METRICS[side.metric].label, formatMetricValue(side.metric, props[side.metric])]);
+      break;
+    case 'glad':
+      rows.push(
+        ['Forest Gain', props.has_forest_gain ? 'Yes' : 'No'],
+        ['Loss Year', props.forest_loss_year ? String(props.forest_loss_year) : 'No loss'],
+        ['Baseline Tree Cover', `${props.baseline_tree_cover}%`]
+      );
+      break;
+    case 'io_class':
+      rows.push(
+        ['Land Class', ioClassLabel(props.land_class)],
+        ['Temporal Change', props.has_temporal_change ? 'Yes' : 'No']
+      );
+      break;
+    case 'jrc_cover':
+    case 'jrc_type':
+      rows.push(['Forest Cover', props.is_forest ? 'Forest' : 'Non-forest']);
+      break;
+  }
+  return rows;
+};
+
+interface CompareMapProps {
+  side: CompareSide;
+  aoi: AOI | null;
+  view: CompareViewport;
+  fetchSlice: FetchSlice;
+  navigation?: boolean;
+  className: string;
+  style?: React.CSSProperties;
+  onReady: (map: mapboxgl.Map) => void;
+  onInspect: (lngLat: mapboxgl.LngLat) => void;
+  onLoadingChange: (loading: boolean) => void;
+}
+
+// One side of the comparison: its own map, slice and colour ramp
+const CompareMap = ({
+  side,
+  aoi,
+  view,
+  fetchSlice,
+  navigation = false,
+  className,
+  style,
+  onReady,
+  onInspect,
+  onLoadingChange
+}: CompareMapProps) => {
+  const mapContainer = useRef<HTMLDivElement>(null);
+  const map = useRef<mapboxgl.Map | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Tagged with the selection it was fetched for, so a stale slice is never drawn with a new style
+  const [slice, setSlice] = useState<{ key: string; data: GeoJSON.FeatureCollection } | null>(null);
+  const sliceKey = `${side.dataset}:${side.year ?? 'all'}`;
+  // The map is created once, at the viewport it was opened with
+  const initialRef = useRef({ view, navigation });
+  const onReadyRef = useLatest(onReady);
+  const onInspectRef = useLatest(onInspect);
+  const fetchSliceRef = useLatest(fetchSlice);
+  const onLoadingChangeRef = useLatest(onLoadingChange);
+
+  useEffect(() => {
+    if (map.current || !mapContainer.current) return;
+
+    try {
+      const { view: initialView, navigation: showNavigation } = initialRef.current;
+      const mapInstance = new mapboxgl.Map({
+        container: mapContainer.current,
+        style: 'mapbox://styles/mapbox/satellite-streets-v12',
+        center: initialView.center,
+        zoom: initialView.zoom
+      });
+      map.current = mapInstance;
+
+      if (showNavigation) {
+        mapInstance.addControl(new mapboxgl.NavigationControl(), 'bottom-right');
+      }
+      mapInstance.on('load', () => {
+        setIsLoaded(true);
+        onReadyRef.current(mapInstance);
+      });
+      mapInstance.on('click', (e) => onInspectRef.current(e.lngLat));
+    } catch (error) {
+      console.error('Error initializing comparison map:', error);
+    }
+
+    return () => {
+      map.current?.remove();
+      map.current = null;
+    };
+  }, [onReadyRef, onInspectRef]);
+
+  // Fetch the slice for this side's dataset and year
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    const controller = new AbortController();
+    const load = async () => {
+      onLoadingChangeRef.current(true);
+      try {
+        const data = await fetchSliceRef.current(side.dataset, side.year ?? undefined, controller.signal);
+        setSlice({ key: sliceKey, data });
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error('Error loading comparison slice:', error);
+        setSlice(null);
+      } finally {
+        if (!controller.signal.aborted) onLoadingChangeRef.current(false);
+      }
+    };
+    load();
+
+    return () => controller.abort();
+  }, [isLoaded, side.dataset, side.year, sliceKey, fetchSliceRef, onLoadingChangeRef]);
+
+  useEffect(() => {
+    if (!isLoaded || !map.current) return;
+    showAOIOnMap(map.current, aoi);
+  }, [isLoaded, aoi]);
+
+  // Draw the slice, re-colouring in place when only the metric or ramp changes
+  useEffect(() => {
+    const mapInstance = map.current;
+    if (!isLoaded || !mapInstance || slice?.key !== sliceKey) return;
+
+    const data = clipFeaturesToAOI(slice.data, aoi);
+    const fillColor = datasetFillColor(side.dataset, { metric: side.metric, ramp: side.ramp });
+    const source = mapInstance.getSource('compare-data') as mapboxgl.GeoJSONSource | undefined;
+
+    if (source) {
+      source.setData(data);
+    } else {
+      mapInstance.addSource('compare-data', { type: 'geojson', data });
+    }
+
+    if (mapInstance.getLayer('compare-layer')) {
+      mapInstance.setPaintProperty('compare-layer', 'fill-color', fillColor);
+    } else {
+      mapInstance.addLayer({
+        id: 'compare-layer',
+        type: 'fill',
+        source: 'compare-data',
+        paint: {
+          'fill-color': fillColor,
+          'fill-outline-color': '#ffffff',
+          'fill-opacity': 0.8
+        }
+      });
+    }
+    raiseAOILayer(mapInstance);
+  }, [isLoaded, slice, sliceKey, aoi, side.dataset, side.metric, side.ramp]);
+
+  return <div ref={mapContainer} className={className} style={style} />;
+};
+
+interface CompareSideControlProps {
+  title: string;
+  side: CompareSide;
+  loading: boolean;
+  onChange: (side: CompareSide) => void;
+}
+
+const CompareSideControl = ({ title, side, loading, onChange }: CompareSideControlProps) => {
+  const years: readonly number[] = DATASETS[side.dataset].years;
+  const selectClass = 'w-full p-1 text-xs bg-white border border-gray-300 rounded text-gray-800';
+
+  return (
+    <div className="bg-white p-3 rounded-lg shadow-lg w-64 text-gray-800">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-bold">{title}</h3>
+        {loading && <span className="text-xs text-gray-500">Loading...</span>}
+      </div>
+      <div className="space-y-2">
+        <select
+          value={side.dataset}
+          onChange={(e) => {
+            const dataset = e.target.value as DatasetKey;
+            const datasetYears: readonly number[] = DATASETS[dataset].years;
+            onChange({ ...side, dataset, year: datasetYears.length ? datasetYears[datasetYears.length - 1] : null });
+          }}
+          className={selectClass}
+        >
+          {Object.entries(DATASETS).map(([key, dataset]) => (
+            <option key={key} value={key}>{dataset.label}</option>
+          ))}
+        </select>
+        {side.year !== null && (
+          <select
+            value={side.year}
+            onChange={(e) => onChange({ ...side, year: Number(e.target.value) })}
+            className={selectClass}
+          >
+            {years.map(year => (
+              <option key={year} value={year}>{year}</option>
+            ))}
+          </select>
+        )}
+        {side.dataset === 'mangaroa' && (
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={side.metric}
+              onChange={(e) => onChange({ ...side, metric: e.target.value as MangaroaMetric })}
+              className={selectClass}
+            >
+              {(Object.keys(MANGAROA_COLUMNS) as MangaroaMetric[]).map(metric => (
+                <option key={metric} value={metric}>{METRICS[metric].label}</option>
+              ))}
+            </select>
+            <select
+              value={side.ramp}
+              onChange={(e) => onChange({ ...side, ramp: e.target.value as ColorRampKey })}
+              className={selectClass}
+            >
+              {Object.entries(COLOR_RAMPS).map(([key, ramp]) => (
+                <option key={key} value={key}>{ramp.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+      <div className="space-y-1 mt-2">
+        {datasetLegend(side.dataset, { metric: side.metric, ramp: side.ramp }).map((item, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <div className="w-3 h-3 rounded" style={{ backgroundColor: item.color }}></div>
+            <span className="text-xs">{item.label}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+interface CompareViewProps {
+  aoi: AOI | null;
+  view: CompareViewport;
+  // Selection in the main view, used to pick the starting sides
+  dataset: DatasetKey;
+  year: number;
+  fetchSlice: FetchSlice;
+  onClose: () => void;
+}
+
+// Two synchronised maps, side by side or under a swipe divider, with a shared pixel inspector
+const CompareView = ({ aoi, view, dataset, year, fetchSlice, onClose }: CompareViewProps) => {
+  const [sides, setSides] = useState(() => initialSides(dataset, year));
+  const [layout, setLayout] = useState<CompareLayout>('swipe');
+  const [swipePosition, setSwipePosition] = useState(50);
+  const [loading, setLoading] = useState([false, false]);
+  const [inspected, setInspected] = useState<{ lngLat: mapboxgl.LngLat; pixels: (PixelProperties | null)[] } | null>(null);
+  const [readyCount, setReadyCount] = useState(0);
+  const mapsRef = useRef<(mapboxgl.Map | null)[]>([null, null]);
+  const markersRef = useRef<mapboxgl.Marker[]>([]);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  const handleReady = (index: number) => (map: mapboxgl.Map) => {
+    mapsRef.current[index] = map;
+    markersRef.current[index] = new mapboxgl.Marker({ color: '#2563eb' });
+    setReadyCount(count => count + 1);
+  };
+
+  // Linked pan/zoom: each map follows the other, guarded against echoing back
+  useEffect(() => {
+    const [left, right] = mapsRef.current;
+    if (!left || !right) return;
+
+    let syncing = false;
+    const follow = (from: mapboxgl.Map, to: mapboxgl.Map) => () => {
+      if (syncing) return;
+      syncing = true;
+      to.jumpTo({
+        center: from.getCenter(),
+        zoom: from.getZoom(),
+        bearing: from.getBearing(),
+        pitch: from.getPitch()
+      });
+      syncing = false;
+    };
+    const followLeft = follow(left, right);
+    const followRight = follow(right, left);
+    left.on('move', followLeft);
+    right.on('move', followRight);
+
+    return () => {
+      left.off('move', followLeft);
+      right.off('move', followRight);
+    };
+  }, [readyCount]);
+
+  // The containers change size with the layout
+  useEffect(() => {
+    mapsRef.current.forEach(map => map?.resize());
+  }, [layout]);
+
+  // Look up the clicked location on both maps
+  const inspect = (lngLat: mapboxgl.LngLat) => {
+    const pixels = mapsRef.current.map(map => {
+      if (!map?.getLayer('compare-layer')) return null;
+      return map.queryRenderedFeatures(map.project(lngLat), { layers: ['compare-layer'] })[0]?.properties ?? null;
+    });
+    mapsRef.current.forEach((map, index) => {
+      if (map) markersRef.current[index]?.setLngLat(lngLat).addTo(map);
+    });
+    setInspected({ lngLat, pixels });
+  };
+
+  const closeInspector = () => {
+    markersRef.current.forEach(marker => marker.remove());
+    setInspected(null);
+  };
+
+  const updateSide = (index: number, side: CompareSide) => {
+    setSides(current => current.map((s, i) => (i === index ? side : s)) as [CompareSide, CompareSide]);
+    // Values in the inspector would no longer match the maps
+    closeInspector();
+  };
+
+  const handleSwipeMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!(e.buttons & 1) || !frameRef.current) return;
+    const rect = frameRef.current.getBoundingClientRect();
+    setSwipePosition(Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const mapClass = (index: number) => {
+    if (layout === 'swipe') return 'absolute inset-0';
+    return `absolute inset-y-0 w-1/2 ${index === 0 ? 'left-0 border-r-2 border-white' : 'right-0'}`;
+  };
+
+  return (
+    <div className="absolute inset-0 z-40 bg-gray-900">
+      <div ref={frameRef} className="absolute inset-0">
+        {sides.map((side, index) => (
+          <CompareMap
+            key={index}
+            side={side}
+            aoi={aoi}
+            view={view}
+            fetchSlice={fetchSlice}
+            navigation={index === 1}
+            className={mapClass(index)}
+            // The right map is revealed from the divider onwards
+            style={layout === 'swipe' && index === 1 ? { clipPath: `inset(0 0 0 ${swipePosition}%)` } : undefined}
+            onReady={handleReady(index)}
+            onInspect={inspect}
+            onLoadingChange={(isLoading) =>
+              setLoading(current => current.map((l, i) => (i === index ? isLoading : l)))
+            }
+          />
+        ))}
+
+        {layout === 'swipe' && (
+          <div
+            onPointerDown={(e) => e.currentTarget.setPointerCapture(e.pointerId)}
+            onPointerMove={handleSwipeMove}
+            className="absolute inset-y-0 z-10 w-4 -ml-2 flex justify-center cursor-ew-resize touch-none"
+            style={{ left: `${swipePosition}%` }}
+          >
+            <div className="w-0.5 h-full bg-white shadow" />
+            <div className="absolute top-1/2 -mt-4 w-8 h-8 rounded-full bg-white shadow-lg flex items-center justify-center text-gray-700 text-sm">
+              ⇔
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Side controls */}
+      <div className="absolute top-4 left-4 z-20">
+        <CompareSideControl
+          title={SIDE_TITLES[0]}
+          side={sides[0]}
+          loading={loading[0]}
+          onChange={(side) => updateSide(0, side)}
+        />
+      </div>
+      <div className="absolute top-4 right-4 z-20">
+        <CompareSideControl
+          title={SIDE_TITLES[1]}
+          side={sides[1]}
+          loading={loading[1]}
+          onChange={(side) => updateSide(1, side)}
+        />
+      </div>
+
+      {/* Layout toggle */}
+      <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 bg-white rounded-lg shadow-lg p-1 flex gap-1 text-sm">
+        {(['swipe', 'split'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setLayout(option)}
+            className={`px-3 py-1 rounded ${
+              layout === option ? 'bg-blue-500 text-white' : 'text-gray-800 hover:bg-gray-100'
+            }`}
+          >
+            {option === 'swipe' ? 'Swipe' : 'Side by side'}
+          </button>
+        ))}
+        <button onClick={onClose} className="px-3 py-1 rounded text-gray-800 hover:bg-gray-100">
+          Close
+        </button>
+      </div>
+
+      {/* Shared inspector */}
+      {inspected ? (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 bg-white p-3 rounded-lg shadow-lg w-[36rem] text-gray-800">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-bold">
+              {inspected.lngLat.lng.toFixed(6)}, {inspected.lngLat.lat.toFixed(6)}
+            </h3>
+            <button onClick={closeInspector} className="text-gray-400 hover:text-gray-700">✕</button>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            {sides.map((side, index) => (
+              <div key={index}>
+                <p className="text-xs font-medium text-gray-600 mb-1">{SIDE_TITLES[index]}: {sideLabel(side)}</p>
+                <table className="w-full text-xs">
+                  <tbody>
+                    {pixelRows(side, inspected.pixels[index]).map(([label, value]) => (
+                      <tr key={label}>
+                        <td className="pr-2 text-gray-600">{label}</td>
+                        <td className="text-right font-medium">{value}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 bg-white bg-opacity-95 px-3 py-2 rounded-lg shadow-lg text-xs text-gray-600">
+          Click either map to compare both sides at that pixel
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,442 @@
+"use client";
+
+import React, { useState, useEffect, useRef } from 'react';
+import { isAbortError, parseUploadInWorker } from '@/lib/datasetLoader';
+import { MANGAROA_COLUMNS, isMangaroaMetric, type CsvRow, type MangaroaMetric } from '@/lib/datasets';
+import { isGeoTIFF, type RasterData } from '@/lib/geotiff';
+import { METRICS } from '@/lib/metrics';
+import type { UploadWorkerRequest, UploadWorkerResults } from '@/lib/upload.worker';
+import {
+  customMetric,
+  guessColumnMapping,
+  knownMetric,
+  previewCSV,
+  type CSVPreview,
+  type ColumnMapping,
+  type UploadProgress,
+  type UploadedDataset
+} from '@/lib/uploadedDatasets';
+
+type ColumnRole = 'ignore' | 'x' | 'y' | 'year' | 'boundary' | 'custom' | MangaroaMetric;
+
+const DELIMITERS = [
+  { value: ',', label: 'Comma (,)' },
+  { value: '\t', label: 'Tab' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '|', label: 'Pipe (|)' }
+] as const;
+
+const MAX_LISTED_INVALID_ROWS = 20;
+
+interface DatasetUploadWizardProps {
+  onAdd: (dataset: UploadedDataset) => void;
+}
+
+// Roles implied by the guessed mapping, one per column; unrecognised columns get `fallback`
+const initialRoles = (headers: string[], fallback: ColumnRole = 'ignore'): Record<string, ColumnRole> => {
+  const guess = guessColumnMapping(headers);
+  const roles: Record<string, ColumnRole> = Object.fromEntries(headers.map(header => [header, fallback]));
+
+  if (guess.x) roles[guess.x] = 'x';
+  if (guess.y) roles[guess.y] = 'y';
+  if (guess.year) roles[guess.year] = 'year';
+  if (guess.boundary) roles[guess.boundary] = 'boundary';
+  guess.metrics?.forEach(metric => {
+    roles[metric.column] = metric.key as MangaroaMetric;
+  });
+
+  return roles;
+};
+
+// Turn per-column roles into a mapping, or explain why it is incomplete
+const buildMapping = (roles: Record<string, ColumnRole>): { mapping?: ColumnMapping; error?: string } => {
+  const columnsWith = (role: ColumnRole) => Object.keys(roles).filter(column => roles[column] === role);
+  const [x, ...extraX] = columnsWith('x');
+  const [y, ...extraY] = columnsWith('y');
+  const [year, ...extraYear] = columnsWith('year');
+  const [boundary, ...extraBoundary] = columnsWith('boundary');
+
+  if (!x || !y) return { error: 'Map one column to x and one to y' };
+  if (extraX.length || extraY.length || extraYear.length || extraBoundary.length) {
+    return { error: 'x, y, year and pixel boundary can each be mapped to only one column' };
+  }
+
+  const metrics = Object.entries(roles).flatMap(([column, role]) => {
+    if (role === 'custom') return [customMetric(column)];
+    if (isMangaroaMetric(role)) return [knownMetric(role, column)];
+    return [];
+  });
+
+  if (!metrics.length) return { error: 'Map at least one metric column' };
+  if (new Set(metrics.map(metric => metric.key)).size < metrics.length) {
+    return { error: 'Each metric can be mapped to only one column' };
+  }
+
+  return { mapping: { x, y, year: year ?? null, boundary: boundary ?? null, metrics } };
+};
+
+const DatasetUploadWizard = ({ onAdd }: DatasetUploadWizardProps) => {
+  const [dragging, setDragging] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [csvText, setCsvText] = useState<string | null>(null);
+  const [raster, setRaster] = useState<{ data: RasterData; rows: CsvRow[] } | null>(null);
+  const [rasterYear, setRasterYear] = useState('');
+  const [preview, setPreview] = useState<CSVPreview | null>(null);
+  const [roles, setRoles] = useState<Record<string, ColumnRole>>({});
+  const [label, setLabel] = useState('');
+  const [result, setResult] = useState<UploadedDataset | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Parsing runs in a worker; `progress` is set while it runs and the controller cancels it
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+  const parseAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => parseAbortRef.current?.abort(), []);
+
+  // Run one parse in the worker, cancelling any parse still running
+  const runParse = async <R extends UploadWorkerRequest>(request: R): Promise<UploadWorkerResults[R['type']]> => {
+    parseAbortRef.current?.abort();
+    const controller = new AbortController();
+    parseAbortRef.current = controller;
+
+    setProgress({ phase: 'read', percent: 0 });
+    try {
+      return await parseUploadInWorker(request, { signal: controller.signal, onProgress: setProgress });
+    } finally {
+      if (parseAbortRef.current === controller) {
+        parseAbortRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const cancelParse = () => parseAbortRef.current?.abort();
+
+  const reset = () => {
+    cancelParse();
+    setFileName('');
+    setCsvText(null);
+    setRaster(null);
+    setRasterYear('');
+    setPreview(null);
+    setRoles({});
+    setLabel('');
+    setResult(null);
+    setError(null);
+  };
+
+  // GeoTIFF pixels become rows with x, y and one column per band, then go through the same mapping
+  const handleRasterFile = async (file: File) => {
+    const { data, rows } = await runParse({ type: 'geotiff', content: await file.arrayBuffer() });
+
+    if (!rows.length) {
+      setError(`${file.name} has no pixels with data`);
+      return;
+    }
+
+    const headers = ['x', 'y', ...data.bandNames];
+    setFileName(file.name);
+    setCsvText(null);
+    setRaster({ data, rows });
+    setRasterYear('');
+    setPreview({ delimiter: '', headers, rows: rows.slice(0, 10) });
+    setRoles(initialRoles(headers, 'custom'));
+    setLabel(file.name.replace(/\.[^.]+$/, ''));
+    setResult(null);
+    setError(null);
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      if (isGeoTIFF(file.name)) {
+        await handleRasterFile(file);
+        return;
+      }
+
+      const text = await file.text();
+      const sniffed = previewCSV(text);
+
+      if (!sniffed.headers.length) {
+        setError(`${file.name} has no header row`);
+        return;
+      }
+
+      setFileName(file.name);
+      setCsvText(text);
+      setRaster(null);
+      setPreview(sniffed);
+      setRoles(initialRoles(sniffed.headers));
+      setLabel(file.name.replace(/\.[^.]+$/, ''));
+      setResult(null);
+      setError(null);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error reading uploaded file:', error);
+      setError(`Could not read ${file.name}${error instanceof Error ? `: ${error.message}` : ''}`);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleFile(file);
+  };
+
+  const handleDelimiterChange = (delimiter: string) => {
+    if (!csvText) return;
+    const sniffed = previewCSV(csvText, delimiter);
+    setPreview(sniffed);
+    setRoles(initialRoles(sniffed.headers));
+  };
+
+  const handleValidate = async () => {
+    if (!preview) return;
+
+    const { mapping, error } = buildMapping(roles);
+    if (!mapping) {
+      setError(error ?? null);
+      return;
+    }
+
+    const options = {
+      mapping,
+      key: `upload_${Date.now()}` as const,
+      label: label.trim() || fileName,
+      fileName
+    };
+
+    let request: UploadWorkerRequest;
+    if (raster) {
+      // A GeoTIFF is one date; the year, if any, applies to every pixel
+      const year = rasterYear.trim() ? Number(rasterYear) : undefined;
+      if (year !== undefined && !Number.isInteger(year)) {
+        setError(`"${rasterYear}" is not a year`);
+        return;
+      }
+
+      const rows = year === undefined ? raster.rows : raster.rows.map(row => ({ ...row, year }));
+      request = { type: 'rows', rows, options: { ...options, mapping: { ...mapping, year: year === undefined ? null : 'year' } } };
+    } else if (csvText) {
+      request = { type: 'csv', csvText, options: { ...options, delimiter: preview.delimiter } };
+    } else {
+      return;
+    }
+
+    try {
+      const dataset = await runParse(request);
+      setError(dataset.records.length ? null : 'No valid rows with this mapping');
+      setResult(dataset);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error validating uploaded rows:', error);
+      setError(`Could not validate ${fileName}${error instanceof Error ? `: ${error.message}` : ''}`);
+    }
+  };
+
+  const progressBar = progress && (
+    <div className="mt-2 text-xs text-gray-600">
+      <div className="flex justify-between items-center mb-1">
+        <span>{progress.phase === 'read' ? 'Reading file' : 'Validating rows'}… {progress.percent}%</span>
+        <button onClick={cancelParse} className="text-red-600 hover:text-red-800">Cancel</button>
+      </div>
+      <div className="w-full h-2 bg-gray-200 rounded overflow-hidden">
+        <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress.percent}%` }}></div>
+      </div>
+    </div>
+  );
+
+  const handleAdd = () => {
+    if (!result?.records.length) return;
+    onAdd({ ...result, label: label.trim() || result.label });
+    reset();
+  };
+
+  return (
+    <>
+      {/* Drop zone */}
+      <label
+        onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={`block w-full p-3 border-2 border-dashed rounded text-center text-xs cursor-pointer ${
+          dragging ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-500 hover:border-gray-400'
+        }`}
+      >
+        Drop a CSV or GeoTIFF here or click to choose a file
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv,.tif,.tiff,image/tiff"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+      {!preview && progressBar}
+      {error && !preview && <p className="text-xs text-red-600 mt-1">{error}</p>}
+
+      {/* Mapping wizard */}
+      {preview && (
+        <div className="fixed inset-0 z-40 bg-gray-900 bg-opacity-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-full overflow-y-auto p-4 text-gray-800">
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="text-lg font-bold">Import {fileName}</h3>
+              <button onClick={reset} className="text-sm text-gray-500 hover:text-gray-800">Cancel</button>
+            </div>
+
+            {!result ? (
+              <>
+                <div className="flex gap-4 mb-3">
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium mb-1 text-gray-700">Dataset name</label>
+                    <input
+                      value={label}
+                      onChange={(e) => setLabel(e.target.value)}
+                      className="w-full p-2 border border-gray-300 rounded text-sm"
+                    />
+                  </div>
+                  {raster ? (
+                    <div>
+                      <label className="block text-sm font-medium mb-1 text-gray-700">Year (optional)</label>
+                      <input
+                        value={rasterYear}
+                        onChange={(e) => setRasterYear(e.target.value)}
+                        placeholder="e.g. 2024"
+                        className="w-28 p-2 border border-gray-300 rounded text-sm"
+                      />
+                    </div>
+                  ) : (
+                    <div>
+                      <label className="block text-sm font-medium mb-1 text-gray-700">Delimiter</label>
+                      <select
+                        value={preview.delimiter}
+                        onChange={(e) => handleDelimiterChange(e.target.value)}
+                        className="p-2 bg-white border border-gray-300 rounded text-sm"
+                      >
+                        {DELIMITERS.map(({ value, label }) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+
+                {raster && (
+                  <p className="text-xs text-gray-600 mb-2">
+                    EPSG:{raster.data.epsg} · {raster.data.width} × {raster.data.height} pixels ·
+                    nodata {raster.data.noData ?? 'not set'} · {raster.rows.length} pixels with data ·
+                    bands: {raster.data.bandNames.join(', ')}
+                  </p>
+                )}
+
+                <p className="text-xs text-gray-500 mb-2">
+                  Choose what each column holds. x/y are pixel centre longitude/latitude; a pixel boundary column holds GeoJSON polygons; metric columns must be numeric.
+                </p>
+
+                <div className="overflow-x-auto border rounded mb-3">
+                  <table className="text-xs w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        {preview.headers.map(header => (
+                          <th key={header} className="p-2 text-left align-top font-medium">
+                            <div className="mb-1 whitespace-nowrap">{header}</div>
+                            <select
+                              value={roles[header] ?? 'ignore'}
+                              onChange={(e) => setRoles({ ...roles, [header]: e.target.value as ColumnRole })}
+                              className="p-1 bg-white border border-gray-300 rounded font-normal"
+                            >
+                              <option value="ignore">Ignore</option>
+                              <option value="x">x (longitude)</option>
+                              <option value="y">y (latitude)</option>
+                              <option value="year">Year</option>
+                              <option value="boundary">Pixel boundary (GeoJSON)</option>
+                              <optgroup label="Kanop metric">
+                                {(Object.keys(MANGAROA_COLUMNS) as MangaroaMetric[]).map(metric => (
+                                  <option key={metric} value={metric}>{METRICS[metric].label}</option>
+                                ))}
+                              </optgroup>
+                              <option value="custom">Other metric</option>
+                            </select>
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.rows.map((row, i) => (
+                        <tr key={i} className="border-t">
+                          {preview.headers.map(header => (
+                            <td key={header} className="p-2 whitespace-nowrap text-gray-600 max-w-48 truncate">
+                              {String(row[header] ?? '')}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+                <button
+                  onClick={handleValidate}
+                  disabled={!!progress}
+                  className="bg-blue-500 text-white px-4 py-2 rounded text-sm hover:bg-blue-600 disabled:opacity-50"
+                >
+                  Validate rows
+                </button>
+                {progressBar}
+              </>
+            ) : (
+              <>
+                <div className="text-sm mb-3 space-y-1">
+                  <p><strong>{result.records.length}</strong> valid rows, {new Set(result.records.map(d => d.pixel_id)).size} pixels</p>
+                  <p>Years: {result.years.length ? `${result.years[0]}–${result.years[result.years.length - 1]}` : 'none (static layer)'}</p>
+                  <p>Metrics: {result.metrics.map(metric => metric.label).join(', ')}</p>
+                  <p>Estimated resolution: {result.resolution}m</p>
+                </div>
+
+                {result.invalidRows.length > 0 && (
+                  <div className="mb-3 p-2 bg-red-50 border border-red-200 rounded">
+                    <p className="text-sm font-medium text-red-700 mb-1">
+                      {result.invalidRows.length} rows could not be used and were left out
+                    </p>
+                    <ul className="text-xs text-red-700 space-y-0.5 max-h-48 overflow-y-auto">
+                      {result.invalidRows.slice(0, MAX_LISTED_INVALID_ROWS).map(row => (
+                        <li key={row.location}>{row.location}: {row.reason}</li>
+                      ))}
+                    </ul>
+                    {result.invalidRows.length > MAX_LISTED_INVALID_ROWS && (
+                      <p className="text-xs text-red-600 mt-1">
+                        …and {result.invalidRows.length - MAX_LISTED_INVALID_ROWS} more (see the browser console)
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => { setResult(null); setError(null); }}
+                    className="bg-gray-100 text-gray-800 px-4 py-2 rounded text-sm hover:bg-gray-200"
+                  >
+                    Back to mapping
+                  </button>
+                  <button
+                    onClick={handleAdd}
+                    disabled={!result.records.length}
+                    className="bg-green-600 text-white px-4 py-2 rounded text-sm hover:bg-green-700 disabled:opacity-50"
+                  >
+                    Add dataset
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default DatasetUploadWizard;
@@ -0,0 +1,244 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import type mapboxgl from 'mapbox-gl';
+import type { AOI } from '@/lib/aoi';
+import { fetchForestAgreement } from '@/lib/datasetApi';
+import { isAbortError } from '@/lib/datasetLoader';
+import { DATASETS } from '@/lib/datasets';
+import {
+  AGREEMENT_CELL_SIZES,
+  AGREEMENT_COLORS,
+  AGREEMENT_LABELS,
+  DEFAULT_AGREEMENT_OPTIONS,
+  FOREST_SIGNALS,
+  showAgreementOnMap,
+  type AgreementStatus,
+  type ForestAgreement
+} from '@/lib/forestAgreement';
+
+interface ForestAgreementPanelProps {
+  map: mapboxgl.Map | null;
+  aois: AOI[];
+  defaultAoiId: string | null;
+  onClose: () => void;
+}
+
+// Years any time-series signal covers
+const YEARS = Array.from(new Set([...DATASETS.mangaroa.years, ...DATASETS.io_class.years])).sort((a, b) => a - b);
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+
+// Where the five "is this forest?" signals agree, drawn as an agreement map with
+// pairwise confusion matrices, overall accuracy and kappa
+const ForestAgreementPanel = ({ map, aois, defaultAoiId, onClose }: ForestAgreementPanelProps) => {
+  const [scopeId, setScopeId] = useState(defaultAoiId ?? '');
+  const [year, setYear] = useState<number>(DEFAULT_AGREEMENT_OPTIONS.year);
+  const [gladThreshold, setGladThreshold] = useState<number>(DEFAULT_AGREEMENT_OPTIONS.gladThreshold);
+  const [cellSize, setCellSize] = useState<number>(DEFAULT_AGREEMENT_OPTIONS.cellSize);
+  const [agreement, setAgreement] = useState<ForestAgreement | null>(null);
+  const [selectedPair, setSelectedPair] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const zone = aois.find(aoi => aoi.id === scopeId)?.geometry;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+
+    fetchForestAgreement({ geometry: zone, year, gladThreshold, cellSize, signal: controller.signal })
+      .then(result => {
+        setAgreement(result);
+        setError(null);
+      })
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('Error computing forest agreement:', error);
+        setError('Could not compare the forest datasets');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [zone, year, gladThreshold, cellSize]);
+
+  // The parent clears the agreement map when the panel closes
+  useEffect(() => {
+    if (!map) return;
+    showAgreementOnMap(map, agreement?.cells ?? null);
+  }, [map, agreement]);
+
+  const totalCells = agreement ? Object.values(agreement.statusCounts).reduce((sum, count) => sum + count, 0) : 0;
+  const pair = agreement?.pairs[selectedPair];
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 bg-white p-4 rounded-lg shadow-lg w-[40rem] max-h-[60vh] overflow-y-auto text-gray-800">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-bold">Forest Agreement</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700">✕</button>
+      </div>
+
+      {/* Scope and thresholds */}
+      <div className="grid grid-cols-4 gap-2 mb-3">
+        <label className="text-xs font-medium">
+          Area
+          <select
+            value={scopeId}
+            onChange={(e) => setScopeId(e.target.value)}
+            className="w-full mt-1 p-1 bg-white border border-gray-300 rounded font-normal"
+          >
+            <option value="">Whole project area</option>
+            {aois.map(aoi => (
+              <option key={aoi.id} value={aoi.id}>{aoi.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-medium">
+          Year
+          <select
+            value={year}
+            onChange={(e) => setYear(Number(e.target.value))}
+            className="w-full mt-1 p-1 bg-white border border-gray-300 rounded font-normal"
+          >
+            {YEARS.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-medium">
+          GLAD forest ≥ (%)
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={5}
+            value={gladThreshold}
+            onChange={(e) => setGladThreshold(Math.min(100, Math.max(0, Number(e.target.value) || 0)))}
+            className="w-full mt-1 p-1 bg-white border border-gray-300 rounded font-normal"
+          />
+        </label>
+        <label className="text-xs font-medium">
+          Common grid
+          <select
+            value={cellSize}
+            onChange={(e) => setCellSize(Number(e.target.value))}
+            className="w-full mt-1 p-1 bg-white border border-gray-300 rounded font-normal"
+          >
+            {AGREEMENT_CELL_SIZES.map(size => (
+              <option key={size.cellSize} value={size.cellSize}>{size.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {loading && <p className="text-xs text-gray-500 mb-2">Computing…</p>}
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+
+      {agreement && (
+        <>
+          {/* Agreement map legend and counts */}
+          <div className="grid grid-cols-3 gap-2 mb-3 text-center">
+            {(Object.keys(AGREEMENT_LABELS) as AgreementStatus[]).map(status => (
+              <div key={status} className="bg-gray-50 rounded p-2">
+                <p className="flex items-center justify-center gap-1 text-xs text-gray-500">
+                  <span className="w-3 h-3 rounded inline-block" style={{ backgroundColor: AGREEMENT_COLORS[status] }}></span>
+                  {AGREEMENT_LABELS[status]}
+                </p>
+                <p className="text-sm font-semibold">{agreement.statusCounts[status]} cells</p>
+                <p className="text-xs text-gray-500">
+                  {formatPercent(totalCells ? agreement.statusCounts[status] / totalCells : null)}
+                </p>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mb-3">
+            Cells covered by at least two datasets. Each dataset votes by the majority of its pixels in the cell.
+          </p>
+
+          {/* Per-signal summary */}
+          <table className="text-xs w-full mb-3">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-1 font-medium">Signal</th>
+                <th className="text-right p-1 font-medium">Cells</th>
+                <th className="text-right p-1 font-medium">Forest</th>
+              </tr>
+            </thead>
+            <tbody>
+              {agreement.signals.map(signal => (
+                <tr key={signal.dataset} className="border-b">
+                  <td className="p-1">
+                    {FOREST_SIGNALS[signal.dataset].label}
+                    {signal.dataset === 'glad' && ` ≥ ${agreement.gladThreshold}%`}
+                  </td>
+                  <td className="p-1 text-right">{signal.cells}</td>
+                  <td className="p-1 text-right">{formatPercent(signal.cells ? signal.forestCells / signal.cells : null)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Pairwise agreement */}
+          <table className="text-xs w-full mb-3">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-1 font-medium">Pair</th>
+                <th className="text-right p-1 font-medium">Shared cells</th>
+                <th className="text-right p-1 font-medium">Accuracy</th>
+                <th className="text-right p-1 font-medium">Kappa</th>
+              </tr>
+            </thead>
+            <tbody>
+              {agreement.pairs.map((row, index) => (
+                <tr
+                  key={`${row.a}-${row.b}`}
+                  onClick={() => setSelectedPair(index)}
+                  className={`border-b cursor-pointer ${index === selectedPair ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                >
+                  <td className="p-1">{FOREST_SIGNALS[row.a].label} × {FOREST_SIGNALS[row.b].label}</td>
+                  <td className="p-1 text-right">{row.cells}</td>
+                  <td className="p-1 text-right">{formatPercent(row.accuracy)}</td>
+                  <td className="p-1 text-right">{row.kappa === null ? '—' : row.kappa.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Confusion matrix for the selected pair */}
+          {pair && (
+            <div>
+              <p className="text-xs font-medium mb-1">
+                Confusion matrix: {FOREST_SIGNALS[pair.a].label} (rows) × {FOREST_SIGNALS[pair.b].label} (columns)
+              </p>
+              <table className="text-xs border">
+                <thead>
+                  <tr className="border-b bg-gray-50">
+                    <th className="p-1"></th>
+                    <th className="p-1 font-medium">Forest</th>
+                    <th className="p-1 font-medium">Non-forest</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b">
+                    <th className="p-1 font-medium bg-gray-50 text-left">Forest</th>
+                    <td className="p-1 text-right">{pair.matrix.bothForest}</td>
+                    <td className="p-1 text-right">{pair.matrix.onlyA}</td>
+                  </tr>
+                  <tr>
+                    <th className="p-1 font-medium bg-gray-50 text-left">Non-forest</th>
+                    <td className="p-1 text-right">{pair.matrix.onlyB}</td>
+                    <td className="p-1 text-right">{pair.matrix.bothNonForest}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ForestAgreementPanel;
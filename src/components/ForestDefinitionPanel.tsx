@@ -0,0 +1,226 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import type mapboxgl from 'mapbox-gl';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { AOI } from '@/lib/aoi';
+import { fetchForestDefinition } from '@/lib/datasetApi';
+import { isAbortError } from '@/lib/datasetLoader';
+import { DATASETS } from '@/lib/datasets';
+import {
+  DEFAULT_FOREST_DEFINITION,
+  FOREST_DEFINITION_PRESETS,
+  FOREST_STATUS_COLORS,
+  FOREST_STATUS_LABELS,
+  showForestOnMap,
+  type ForestDatasetKey,
+  type ForestDefinition,
+  type ForestDefinitionPreset,
+  type ForestDefinitionResult,
+  type ForestStatus
+} from '@/lib/forestDefinition';
+
+interface ForestDefinitionPanelProps {
+  map: mapboxgl.Map | null;
+  dataset: ForestDatasetKey;
+  aois: AOI[];
+  defaultAoiId: string | null;
+  // Year drawn on the map
+  year: number;
+  onClose: () => void;
+}
+
+const DEFINITION_FIELDS: { key: keyof ForestDefinition; label: string; step: number }[] = [
+  { key: 'minCanopyCover', label: 'Canopy cover ≥ (%)', step: 5 },
+  { key: 'minTreeHeight', label: 'Tree height ≥ (m)', step: 1 },
+  { key: 'minArea', label: 'Contiguous area ≥ (ha)', step: 0.1 }
+];
+
+const formatHectares = (hectares: number) => hectares.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const formatShare = (part: number, total: number) => (total ? `${((part / total) * 100).toFixed(1)}%` : '—');
+
+// A forest definition (canopy cover, tree height, contiguous area) applied to the
+// active dataset, drawn as a forest/non-forest layer with forest area per year
+const ForestDefinitionPanel = ({ map, dataset, aois, defaultAoiId, year, onClose }: ForestDefinitionPanelProps) => {
+  const [scopeId, setScopeId] = useState(defaultAoiId ?? '');
+  const [preset, setPreset] = useState<ForestDefinitionPreset | 'custom'>('nz_ets');
+  const [definition, setDefinition] = useState<ForestDefinition>(DEFAULT_FOREST_DEFINITION);
+  const [result, setResult] = useState<ForestDefinitionResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const zone = aois.find(aoi => aoi.id === scopeId)?.geometry;
+  const hasYears = DATASETS[dataset].years.length > 0;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+
+    fetchForestDefinition(dataset, definition, { geometry: zone, year, signal: controller.signal })
+      .then(forest => {
+        setResult(forest);
+        setError(null);
+      })
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('Error applying forest definition:', error);
+        setError('Could not apply the forest definition');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [dataset, zone, definition, year]);
+
+  // The parent clears the forest layer when the panel closes
+  useEffect(() => {
+    if (!map) return;
+    showForestOnMap(map, result?.cells ?? null);
+  }, [map, result]);
+
+  const selectPreset = (key: ForestDefinitionPreset | 'custom') => {
+    setPreset(key);
+    if (key !== 'custom') setDefinition(FOREST_DEFINITION_PRESETS[key].definition);
+  };
+
+  const updateDefinition = (key: keyof ForestDefinition, value: string) => {
+    setPreset('custom');
+    setDefinition(current => ({ ...current, [key]: Math.max(0, Number(value) || 0) }));
+  };
+
+  const mapped = result?.years.find(row => row.year === result.year);
+  const statusHa: Record<ForestStatus, number> = {
+    forest: mapped?.forestHa ?? 0,
+    too_small: mapped?.tooSmallHa ?? 0,
+    non_forest: mapped ? mapped.totalHa - mapped.forestHa - mapped.tooSmallHa : 0
+  };
+  const unchecked = result
+    ? [!result.criteria.canopyCover && 'canopy cover', !result.criteria.treeHeight && 'tree height'].filter(Boolean)
+    : [];
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 bg-white p-4 rounded-lg shadow-lg w-[40rem] max-h-[60vh] overflow-y-auto text-gray-800">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-bold">Forest Definition — {DATASETS[dataset].label}</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700">✕</button>
+      </div>
+
+      {/* Scope and definition */}
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <label className="text-xs font-medium">
+          Area
+          <select
+            value={scopeId}
+            onChange={(e) => setScopeId(e.target.value)}
+            className="w-full mt-1 p-1 bg-white border border-gray-300 rounded font-normal"
+          >
+            <option value="">Whole project area</option>
+            {aois.map(aoi => (
+              <option key={aoi.id} value={aoi.id}>{aoi.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-medium">
+          Definition
+          <select
+            value={preset}
+            onChange={(e) => selectPreset(e.target.value as ForestDefinitionPreset | 'custom')}
+            className="w-full mt-1 p-1 bg-white border border-gray-300 rounded font-normal"
+          >
+            {(Object.keys(FOREST_DEFINITION_PRESETS) as ForestDefinitionPreset[]).map(key => (
+              <option key={key} value={key}>{FOREST_DEFINITION_PRESETS[key].label}</option>
+            ))}
+            <option value="custom">Custom</option>
+          </select>
+        </label>
+      </div>
+      <div className="grid grid-cols-3 gap-2 mb-3">
+        {DEFINITION_FIELDS.map(field => (
+          <label key={field.key} className="text-xs font-medium">
+            {field.label}
+            <input
+              type="number"
+              min={0}
+              step={field.step}
+              value={definition[field.key]}
+              onChange={(e) => updateDefinition(field.key, e.target.value)}
+              className="w-full mt-1 p-1 bg-white border border-gray-300 rounded font-normal"
+            />
+          </label>
+        ))}
+      </div>
+
+      {loading && <p className="text-xs text-gray-500 mb-2">Computing…</p>}
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+
+      {result && (
+        <>
+          {unchecked.length > 0 && (
+            <p className="text-xs text-amber-700 mb-2">
+              {DATASETS[dataset].label} has no {unchecked.join(' or ')}, so that criterion is not checked.
+            </p>
+          )}
+
+          {/* Map legend and the mapped year's areas */}
+          <div className="grid grid-cols-3 gap-2 mb-3 text-center">
+            {(Object.keys(FOREST_STATUS_LABELS) as ForestStatus[]).map(status => (
+              <div key={status} className="bg-gray-50 rounded p-2">
+                <p className="flex items-center justify-center gap-1 text-xs text-gray-500">
+                  <span className="w-3 h-3 rounded inline-block border" style={{ backgroundColor: FOREST_STATUS_COLORS[status] }}></span>
+                  {FOREST_STATUS_LABELS[status]}
+                </p>
+                <p className="text-sm font-semibold">{formatHectares(statusHa[status])} ha</p>
+                <p className="text-xs text-gray-500">{formatShare(statusHa[status], mapped?.totalHa ?? 0)}</p>
+              </div>
+            ))}
+          </div>
+          {result.year !== null && <p className="text-xs text-gray-500 mb-3">Map shows {result.year}.</p>}
+
+          {/* Forest area per year */}
+          {hasYears && (
+            <div className="h-48 mb-3">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={result.years} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="year" tick={{ fontSize: 10 }} />
+                  <YAxis tick={{ fontSize: 10 }} />
+                  <Tooltip formatter={(value: number) => `${formatHectares(value)} ha`} />
+                  <Legend wrapperStyle={{ fontSize: 10 }} />
+                  <Bar dataKey="forestHa" name={FOREST_STATUS_LABELS.forest} stackId="forest" fill={FOREST_STATUS_COLORS.forest} />
+                  <Bar dataKey="tooSmallHa" name={FOREST_STATUS_LABELS.too_small} stackId="forest" fill={FOREST_STATUS_COLORS.too_small} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          <table className="text-xs w-full">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-1 font-medium">Year</th>
+                <th className="text-right p-1 font-medium">Forest (ha)</th>
+                <th className="text-right p-1 font-medium">Share</th>
+                <th className="text-right p-1 font-medium">Patch too small (ha)</th>
+                <th className="text-right p-1 font-medium">Total (ha)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.years.map(row => (
+                <tr key={row.year ?? 'all'} className={`border-b ${row.year === result.year ? 'bg-blue-50' : ''}`}>
+                  <td className="p-1">{row.year ?? '—'}</td>
+                  <td className="p-1 text-right">{formatHectares(row.forestHa)}</td>
+                  <td className="p-1 text-right">{formatShare(row.forestHa, row.totalHa)}</td>
+                  <td className="p-1 text-right">{formatHectares(row.tooSmallHa)}</td>
+                  <td className="p-1 text-right">{formatHectares(row.totalHa)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ForestDefinitionPanel;
@@ -0,0 +1,97 @@
+"use client";
+
+import React, { useState, useMemo } from 'react';
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { Slider } from '@/components/ui/slider';
+import { GLAD_LOSS_YEARS, annualLoss, type LossYearView } from '@/lib/gladLoss';
+
+interface GLADLossYearControlProps {
+  // GLAD pixels currently on the map
+  features: GeoJSON.Feature[];
+  view: LossYearView;
+  onChange: (view: LossYearView) => void;
+}
+
+const formatHectares = (hectares: number) => hectares.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+// Loss-year range filter and annual loss chart; clicking a bar highlights that
+// year's pixels, and a project start year splits loss into before and after
+const GLADLossYearControl = ({ features, view, onChange }: GLADLossYearControlProps) => {
+  const [projectStart, setProjectStart] = useState<number | null>(null);
+  const losses = useMemo(() => annualLoss(features), [features]);
+
+  const [from, to] = view.range;
+  const inRange = losses.filter(loss => loss.year >= from && loss.year <= to);
+  const totalHa = inRange.reduce((sum, loss) => sum + loss.hectares, 0);
+  const beforeHa = projectStart === null ? 0 : inRange.filter(loss => loss.year < projectStart).reduce((sum, loss) => sum + loss.hectares, 0);
+
+  const toggleHighlight = (year: number) => onChange({ ...view, highlight: view.highlight === year ? null : year });
+
+  return (
+    <div>
+      <label className="block text-sm font-medium mb-2 text-gray-700">Loss years: {from}–{to}</label>
+      <Slider
+        value={view.range}
+        onValueChange={(range) => onChange({ ...view, range: [range[0], range[1]] })}
+        min={GLAD_LOSS_YEARS[0]}
+        max={GLAD_LOSS_YEARS[GLAD_LOSS_YEARS.length - 1]}
+        step={1}
+        minStepsBetweenThumbs={0}
+        className="w-full"
+      />
+      <div className="flex justify-between text-xs text-gray-500 mt-1 mb-3">
+        <span>{GLAD_LOSS_YEARS[0]}</span>
+        <span>{GLAD_LOSS_YEARS[GLAD_LOSS_YEARS.length - 1]}</span>
+      </div>
+
+      {/* Annual loss */}
+      <p className="text-xs font-medium text-gray-700 mb-1">Annual loss (ha)</p>
+      <div className="h-40">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={losses} margin={{ top: 5, right: 5, left: -20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="year" tick={{ fontSize: 9 }} />
+            <YAxis tick={{ fontSize: 9 }} allowDecimals />
+            <Tooltip formatter={(value: number) => `${formatHectares(value)} ha`} />
+            {projectStart !== null && <ReferenceLine x={projectStart} stroke="#15803d" strokeDasharray="4 2" />}
+            <Bar dataKey="hectares" name="Loss" onClick={(loss: { year: number }) => toggleHighlight(loss.year)} cursor="pointer">
+              {losses.map(loss => (
+                <Cell
+                  key={loss.year}
+                  fill={loss.year === view.highlight ? '#2563eb' : loss.year >= from && loss.year <= to ? '#f03b20' : '#d4d4d4'}
+                />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        {totalHa
+          ? `${formatHectares(totalHa)} ha lost in ${from}–${to}. Click a bar to highlight its pixels.`
+          : `No loss recorded in ${from}–${to}.`}
+      </p>
+
+      {/* Before / after project start */}
+      <label className="block text-xs font-medium text-gray-700 mt-2">
+        Project start
+        <select
+          value={projectStart ?? ''}
+          onChange={(e) => setProjectStart(e.target.value ? Number(e.target.value) : null)}
+          className="w-full mt-1 p-1 bg-white border border-gray-300 rounded font-normal text-gray-800"
+        >
+          <option value="">Not set</option>
+          {GLAD_LOSS_YEARS.map(year => (
+            <option key={year} value={year}>{year}</option>
+          ))}
+        </select>
+      </label>
+      {projectStart !== null && (
+        <p className="text-xs text-gray-500 mt-1">
+          {formatHectares(beforeHa)} ha before {projectStart}, {formatHectares(totalHa - beforeHa)} ha from {projectStart} on
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default GLADLossYearControl;
@@ -0,0 +1,147 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import type { GLADDataPoint } from '@/lib/datasets';
+import {
+  GLAD_MASK_KEYS,
+  countMasks,
+  gladMaskLabel,
+  type GladMaskKey,
+  type GladThresholds,
+  type MaskQuery
+} from '@/lib/gladMasks';
+
+interface GLADMaskExplorerProps {
+  // GLAD pixels currently on the map
+  features: GeoJSON.Feature[];
+  query: MaskQuery;
+  thresholds: GladThresholds;
+  onQueryChange: (query: MaskQuery) => void;
+  onThresholdsChange: (thresholds: GladThresholds) => void;
+  onClose: () => void;
+}
+
+type TermState = 'off' | 'is' | 'not';
+
+const formatShare = (count: number, total: number) => (total ? `${((count / total) * 100).toFixed(1)}%` : '—');
+
+const clampPercent = (value: string) => Math.min(100, Math.max(0, Number(value) || 0));
+
+// Pick GLAD masks, combine them with AND/OR/NOT and show only the matching pixels,
+// with pixel counts and shares for every mask
+const GLADMaskExplorer = ({ features, query, thresholds, onQueryChange, onThresholdsChange, onClose }: GLADMaskExplorerProps) => {
+  const counts = useMemo(
+    () => countMasks(features.map(feature => feature.properties as GLADDataPoint), query, thresholds),
+    [features, query, thresholds]
+  );
+
+  const termState = (mask: GladMaskKey): TermState => {
+    const term = query.terms.find(t => t.mask === mask);
+    return !term ? 'off' : term.negate ? 'not' : 'is';
+  };
+
+  const setTerm = (mask: GladMaskKey, state: TermState) => {
+    const terms = query.terms.filter(t => t.mask !== mask);
+    onQueryChange({ ...query, terms: state === 'off' ? terms : [...terms, { mask, negate: state === 'not' }] });
+  };
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 bg-white p-4 rounded-lg shadow-lg w-[36rem] max-h-[60vh] overflow-y-auto text-gray-800">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-bold">GLAD Mask Explorer</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700">✕</button>
+      </div>
+
+      {/* Combination and thresholds */}
+      <div className="grid grid-cols-3 gap-2 mb-3">
+        <label className="text-xs font-medium">
+          Combine with
+          <select
+            value={query.operator}
+            onChange={(e) => onQueryChange({ ...query, operator: e.target.value as MaskQuery['operator'] })}
+            className="w-full mt-1 p-1 bg-white border border-gray-300 rounded font-normal"
+          >
+            <option value="and">AND (all masks)</option>
+            <option value="or">OR (any mask)</option>
+          </select>
+        </label>
+        <label className="text-xs font-medium">
+          Forest ≥ (%)
+          <input
+            type="number"
+            min={0}
+            max={thresholds.high}
+            step={5}
+            value={thresholds.forest}
+            onChange={(e) => onThresholdsChange({ ...thresholds, forest: Math.min(clampPercent(e.target.value), thresholds.high) })}
+            className="w-full mt-1 p-1 bg-white border border-gray-300 rounded font-normal"
+          />
+        </label>
+        <label className="text-xs font-medium">
+          High cover ≥ (%)
+          <input
+            type="number"
+            min={thresholds.forest}
+            max={100}
+            step={5}
+            value={thresholds.high}
+            onChange={(e) => onThresholdsChange({ ...thresholds, high: Math.max(clampPercent(e.target.value), thresholds.forest) })}
+            className="w-full mt-1 p-1 bg-white border border-gray-300 rounded font-normal"
+          />
+        </label>
+      </div>
+
+      {/* Combined result */}
+      <div className="bg-gray-50 rounded p-2 mb-3 text-center">
+        {query.terms.length ? (
+          <>
+            <p className="text-sm font-semibold">
+              {counts.matched} of {counts.total} pixels ({formatShare(counts.matched, counts.total)})
+            </p>
+            <p className="text-xs text-gray-500">
+              {query.terms
+                .map(term => `${term.negate ? 'NOT ' : ''}${gladMaskLabel(term.mask, thresholds)}`)
+                .join(query.operator === 'and' ? ' AND ' : ' OR ')}
+            </p>
+          </>
+        ) : (
+          <p className="text-xs text-gray-500">Pick one or more masks to filter the map.</p>
+        )}
+      </div>
+
+      {/* Every mask */}
+      <table className="text-xs w-full">
+        <thead>
+          <tr className="border-b">
+            <th className="text-left p-1 font-medium">Mask</th>
+            <th className="text-left p-1 font-medium">Use</th>
+            <th className="text-right p-1 font-medium">Pixels</th>
+            <th className="text-right p-1 font-medium">Share</th>
+          </tr>
+        </thead>
+        <tbody>
+          {GLAD_MASK_KEYS.map(mask => (
+            <tr key={mask} className={`border-b ${termState(mask) !== 'off' ? 'bg-blue-50' : ''}`}>
+              <td className="p-1">{gladMaskLabel(mask, thresholds)}</td>
+              <td className="p-1">
+                <select
+                  value={termState(mask)}
+                  onChange={(e) => setTerm(mask, e.target.value as TermState)}
+                  className="p-0.5 bg-white border border-gray-300 rounded"
+                >
+                  <option value="off">—</option>
+                  <option value="is">Include</option>
+                  <option value="not">NOT</option>
+                </select>
+              </td>
+              <td className="p-1 text-right">{counts.masks[mask]}</td>
+              <td className="p-1 text-right">{formatShare(counts.masks[mask], counts.total)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default GLADMaskExplorer;
@@ -0,0 +1,237 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Legend, Sankey, Tooltip, ResponsiveContainer, Rectangle } from 'recharts';
+import type { AOI } from '@/lib/aoi';
+import { fetchLandCoverTransitions } from '@/lib/datasetApi';
+import { isAbortError } from '@/lib/datasetLoader';
+import { DATASETS } from '@/lib/datasets';
+import { ioClassColor, ioClassLabel } from '@/lib/ioClasses';
+import type { TransitionAnalysis, TransitionFilter } from '@/lib/ioTransitions';
+
+interface LandCoverTransitionPanelProps {
+  aois: AOI[];
+  defaultAoiId: string | null;
+  // Transition currently highlighted on the map
+  filter: TransitionFilter | null;
+  onFilter: (filter: TransitionFilter | null) => void;
+  onClose: () => void;
+}
+
+type TransitionUnit = 'pixels' | 'hectares';
+
+const YEARS = DATASETS.io_class.years;
+
+const formatValue = (value: number, unit: TransitionUnit) =>
+  unit === 'pixels' ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+// Sankey node coloured by its IO-9 class
+const ClassNode = ({ x, y, width, height, payload }: {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  payload: TransitionAnalysis['flows']['nodes'][number];
+}) => <Rectangle x={x} y={y} width={width} height={height} fill={ioClassColor(payload.code)} stroke="#555" strokeWidth={0.5} />;
+
+// IO-9 class areas per year, a from/to class matrix between two years and a Sankey
+// of class flows across every year; clicking a matrix cell shows those pixels on the map
+const LandCoverTransitionPanel = ({ aois, defaultAoiId, filter, onFilter, onClose }: LandCoverTransitionPanelProps) => {
+  const [scopeId, setScopeId] = useState(defaultAoiId ?? '');
+  const [fromYear, setFromYear] = useState<number>(YEARS[0]);
+  const [toYear, setToYear] = useState<number>(YEARS[YEARS.length - 1]);
+  const [unit, setUnit] = useState<TransitionUnit>('pixels');
+  const [analysis, setAnalysis] = useState<TransitionAnalysis | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const zone = aois.find(aoi => aoi.id === scopeId)?.geometry;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+
+    fetchLandCoverTransitions({ geometry: zone, fromYear, toYear, signal: controller.signal })
+      .then(result => {
+        setAnalysis(result);
+        setError(null);
+      })
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('Error computing land-cover transitions:', error);
+        setError('Could not compute land-cover transitions');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [zone, fromYear, toYear]);
+
+  const matrix = analysis?.matrix;
+  const cellValue = (from: number, to: number) => {
+    const cell = matrix?.cells.find(c => c.from === from && c.to === to);
+    return cell ? cell[unit] : 0;
+  };
+  // One row per year with a column per class, for the stacked bar chart
+  const areaRows = analysis?.classAreas.map(areas => ({ year: areas.year, ...areas[unit] })) ?? [];
+  const areaClasses = Array.from(new Set(analysis?.classAreas.flatMap(areas => Object.keys(areas.pixels).map(Number)))).sort((a, b) => a - b);
+  const noDataYears = analysis?.classAreas.filter(areas => areas.noData.pixels > 0) ?? [];
+
+  const isSelected = (from: number, to: number) =>
+    filter?.fromYear === fromYear && filter.toYear === toYear && filter.from === from && filter.to === to;
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 bg-white p-4 rounded-lg shadow-lg w-[40rem] max-h-[60vh] overflow-y-auto text-gray-800">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-bold">Land-Cover Transitions</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700">✕</button>
+      </div>
+
+      {/* Scope, years and unit */}
+      <div className="grid grid-cols-4 gap-2 mb-3">
+        <label className="text-xs font-medium">
+          Area
+          <select
+            value={scopeId}
+            onChange={(e) => setScopeId(e.target.value)}
+            className="w-full mt-1 p-1 bg-white border border-gray-300 rounded font-normal"
+          >
+            <option value="">Whole project area</option>
+            {aois.map(aoi => (
+              <option key={aoi.id} value={aoi.id}>{aoi.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-medium">
+          From
+          <select
+            value={fromYear}
+            onChange={(e) => setFromYear(Number(e.target.value))}
+            className="w-full mt-1 p-1 bg-white border border-gray-300 rounded font-normal"
+          >
+            {YEARS.map(year => (
+              <option key={year} value={year}>{year}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-medium">
+          To
+          <select
+            value={toYear}
+            onChange={(e) => setToYear(Number(e.target.value))}
+            className="w-full mt-1 p-1 bg-white border border-gray-300 rounded font-normal"
+          >
+            {YEARS.map(year => (
+              <option key={year} value={year}>{year}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-medium">
+          Units
+          <select
+            value={unit}
+            onChange={(e) => setUnit(e.target.value as TransitionUnit)}
+            className="w-full mt-1 p-1 bg-white border border-gray-300 rounded font-normal"
+          >
+            <option value="pixels">Pixels</option>
+            <option value="hectares">Hectares</option>
+          </select>
+        </label>
+      </div>
+
+      {loading && <p className="text-xs text-gray-500 mb-2">Computing…</p>}
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+
+      {analysis && matrix && (
+        <>
+          {/* Class areas per year */}
+          <p className="text-xs font-medium mb-1">Class {unit} per year</p>
+          <div className="h-48 mb-3">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={areaRows} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="year" tick={{ fontSize: 10 }} />
+                <YAxis tick={{ fontSize: 10 }} />
+                <Tooltip formatter={(value: number) => formatValue(value, unit)} />
+                <Legend wrapperStyle={{ fontSize: 10 }} />
+                {areaClasses.map(code => (
+                  <Bar key={code} dataKey={String(code)} name={ioClassLabel(code)} stackId="classes" fill={ioClassColor(code)} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          {noDataYears.length > 0 && (
+            <p className="text-xs text-gray-500 -mt-2 mb-3">
+              No data, not charted: {noDataYears.map(areas => `${formatValue(areas.noData[unit], unit)} ${unit} in ${areas.year}`).join(', ')}
+            </p>
+          )}
+
+          {/* From/to matrix */}
+          <p className="text-xs font-medium mb-1">
+            {matrix.fromYear} (rows) → {matrix.toYear} (columns), {formatValue(matrix[unit], unit)} {unit} in total
+          </p>
+          <div className="overflow-x-auto mb-1">
+            <table className="text-xs border">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="p-1"></th>
+                  {matrix.classes.map(to => (
+                    <th key={to} className="p-1 font-medium">{ioClassLabel(to)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {matrix.classes.map(from => (
+                  <tr key={from} className="border-b">
+                    <th className="p-1 font-medium bg-gray-50 text-left">{ioClassLabel(from)}</th>
+                    {matrix.classes.map(to => {
+                      const value = cellValue(from, to);
+                      return (
+                        <td
+                          key={to}
+                          onClick={() => value && onFilter(isSelected(from, to) ? null : { fromYear, toYear, from, to })}
+                          className={`p-1 text-right ${value ? 'cursor-pointer hover:bg-blue-100' : 'text-gray-300'} ${
+                            isSelected(from, to) ? 'bg-blue-200' : from === to ? 'bg-gray-100' : ''
+                          }`}
+                        >
+                          {formatValue(value, unit)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500 mb-3">
+            Unchanged pixels are on the shaded diagonal. Click a cell to show those pixels on the map.
+            {matrix.noData.pixels > 0 && (
+              <> {formatValue(matrix.noData[unit], unit)} {unit} with no data in {matrix.fromYear} or {matrix.toYear} are left out.</>
+            )}
+          </p>
+
+          {/* Flows across every year */}
+          {analysis.flows.links.length > 0 && (
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <Sankey
+                  data={analysis.flows}
+                  dataKey={unit}
+                  node={ClassNode}
+                  nodePadding={12}
+                  link={{ stroke: '#94a3b8', strokeOpacity: 0.4 }}
+                  margin={{ top: 5, right: 10, left: 10, bottom: 5 }}
+                >
+                  <Tooltip formatter={(value: number) => `${formatValue(value, unit)} ${unit}`} />
+                </Sankey>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LandCoverTransitionPanel;
@@ -0,0 +1,90 @@
+"use client";
+
+import React from 'react';
+import { Slider } from '@/components/ui/slider';
+import type { LegendItem } from '@/lib/datasetStyles';
+import { moveMapLayer, updateMapLayer, type MapLayer } from '@/lib/mapLayers';
+
+interface LayerManagerProps {
+  layers: MapLayer[];
+  // Dataset the rest of the sidebar is editing
+  activeKey: string;
+  label: (key: string) => string;
+  legend: (key: string) => LegendItem[];
+  onChange: (layers: MapLayer[]) => void;
+}
+
+// Visibility, opacity, draw order and legend for every dataset, top layer first
+const LayerManager = ({ layers, activeKey, label, legend, onChange }: LayerManagerProps) => {
+  const buttonClass = 'px-1.5 rounded text-gray-700 hover:bg-gray-200 disabled:text-gray-300';
+
+  return (
+    <div className="space-y-2">
+      {layers.map((layer, index) => (
+        <div key={layer.key} className={`border rounded p-2 ${layer.key === activeKey ? 'border-blue-400' : 'border-gray-200'}`}>
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={layer.visible}
+              onChange={(e) => onChange(updateMapLayer(layers, layer.key, { visible: e.target.checked }))}
+            />
+            <span className="flex-1 text-xs font-medium text-gray-800 truncate">
+              {label(layer.key)}
+              {layer.key === activeKey && <span className="ml-1 text-blue-600">(active)</span>}
+            </span>
+            <button
+              onClick={() => onChange(moveMapLayer(layers, layer.key, -1))}
+              disabled={index === 0}
+              className={buttonClass}
+              title="Draw above"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => onChange(moveMapLayer(layers, layer.key, 1))}
+              disabled={index === layers.length - 1}
+              className={buttonClass}
+              title="Draw below"
+            >
+              ↓
+            </button>
+          </div>
+
+          {layer.visible && (
+            <div className="mt-2 pl-5">
+              <div className="flex items-center gap-2 mb-2">
+                <Slider
+                  value={[layer.opacity]}
+                  onValueChange={([opacity]) => onChange(updateMapLayer(layers, layer.key, { opacity }))}
+                  max={100}
+                  min={10}
+                  step={5}
+                  className="flex-1"
+                />
+                <span className="text-xs text-gray-600 w-8 text-right">{layer.opacity}%</span>
+              </div>
+              <label className="flex items-center gap-1 text-xs text-gray-700 mb-1">
+                <input
+                  type="checkbox"
+                  checked={layer.outline}
+                  onChange={(e) => onChange(updateMapLayer(layers, layer.key, { outline: e.target.checked }))}
+                />
+                Outlines only
+              </label>
+              <div className="space-y-0.5">
+                {legend(layer.key).map((item, i) => (
+                  <div key={i} className="flex items-center space-x-2">
+                    <div className="w-3 h-3 rounded" style={{ backgroundColor: item.color }}></div>
+                    <span className="text-xs text-gray-700">{item.label}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LayerManager;
@@ -1,426 +1,239 @@
 "use client";
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { Slider } from '@/components/ui/slider';
 import mapboxgl from 'mapbox-gl';
 import 'mapbox-gl/dist/mapbox-gl.css';
+import { DATASETS, type DatasetKey, type GLADDataPoint } from '@/lib/datasets';
+import { fetchCarbonAccount, fetchDatasetPixels, fetchZonalStats } from '@/lib/datasetApi';
+import { clearDatasetCache } from '@/lib/datasetCache';
+import { nearestYear } from '@/lib/datasetQueries';
+import { isAbortError } from '@/lib/datasetLoader';
+import { METRICS, formatMetricValue } from '@/lib/metrics';
+import {
+  escapeHTML,
+  isUploadedDatasetKey,
+  uploadedFeatureCollection,
+  type UploadedDataset,
+  type UploadedDatasetKey
+} from '@/lib/uploadedDatasets';
+import {
+  UPLOADED_TREND_FILL,
+  datasetFillColor,
+  datasetLegend,
+  uploadedFillColor,
+  uploadedLegend,
+  uploadedTrendLegend,
+  type LegendItem
+} from '@/lib/datasetStyles';
+import { DEFAULT_SIGNIFICANCE, TREND_LABELS, type TrendDirection } from '@/lib/trends';
+import {
+  createMapLayer,
+  drawMapLayers,
+  layerSourceId,
+  visibleLayerIds,
+  type LayerContent,
+  type MapLayer
+} from '@/lib/mapLayers';
+import { clipFeaturesToAOI, raiseAOILayer, showAOIOnMap, type AOI } from '@/lib/aoi';
+import { zonalStatistics } from '@/lib/zonalStats';
+import { UPLOADED_CARBON, carbonAccount, hasCarbonDensities, uploadHasCarbon } from '@/lib/carbonAccounting';
+import { raiseAgreementLayer, showAgreementOnMap } from '@/lib/forestAgreement';
+import { hasForestFields, raiseForestLayer, showForestOnMap } from '@/lib/forestDefinition';
+import {
+  DEFAULT_GLAD_THRESHOLDS,
+  isEmptyMaskQuery,
+  matchesMaskQuery,
+  type MaskQuery
+} from '@/lib/gladMasks';
+import { DEFAULT_LOSS_YEAR_VIEW, inLossYearRange, type LossYearView } from '@/lib/gladLoss';
+import { ioClassLabel } from '@/lib/ioClasses';
+import { matchesTransition, type TransitionFilter } from '@/lib/ioTransitions';
+import type { PolygonalGeometry } from '@/lib/geometry';
+import { raiseZoneLayers, type Zone } from '@/lib/zones';
+import { useLatest } from '@/lib/useLatest';
+import AOIControl from './AOIControl';
+import CarbonAccountingPanel from './CarbonAccountingPanel';
+import CompareView, { type CompareViewport } from './CompareView';
+import DatasetUploadWizard from './DatasetUploadWizard';
+import ForestAgreementPanel from './ForestAgreementPanel';
+import ForestDefinitionPanel from './ForestDefinitionPanel';
+import GLADLossYearControl from './GLADLossYearControl';
+import GLADMaskExplorer from './GLADMaskExplorer';
+import LandCoverTransitionPanel from './LandCoverTransitionPanel';
+import LayerManager from './LayerManager';
+import TimelineExportControl from './TimelineExportControl';
+import TimelinePlayer from './TimelinePlayer';
+import ZonalStatsPanel from './ZonalStatsPanel';
 
-// Dataset configuration
-const DATASETS = {
-  mangaroa: {
-    label: 'Mangaroa Canopy Cover',
-    description: 'Time-series canopy cover data (2013-2024)',
-    file: '/data/mangaroa_sampling_zone_1_kanop_screening_25_m.csv',
-    type: 'time_series',
-    years: [2013, 2014, 2015, 2016, 2017, 2018, 2019, 2020, 2021, 2022, 2023, 2024]
-  },
-  glad: {
-    label: 'GLAD Forest Cover Loss/Gain',
-    description: 'Global forest change detection',
-    file: '/data/glad_forest_cover_loss_gain.csv',
-    type: 'forest_change',
-    years: []
-  },
-  io_class: {
-    label: 'IO-9 Land Use Classification',
-    description: 'Time-series land use classification (2017-2023)',
-    file: '/data/io-9-class-10m.csv',
-    type: 'time_series',
-    years: [2017, 2018, 2019, 2020, 2021, 2022, 2023]
-  },
-  jrc_cover: {
-    label: 'JRC Forest Cover 2020',
-    description: 'European Commission forest cover',
-    file: '/data/jrc_forest_cover_2020.csv',
-    type: 'binary',
-    years: []
-  },
-  jrc_type: {
-    label: 'JRC Forest Type 2020',
-    description: 'European Commission forest type',
-    file: '/data/jrc_forest_type_2020.csv',
-    type: 'binary',
-    years: []
-  }
-} as const;
-
-type DatasetKey = keyof typeof DATASETS;
-
-// Base data point interface
-interface BaseDataPoint {
-  id: string;
-  pixel_id: number;
-  x: number;
-  y: number;
-  coordinates: [number, number];
-  dataset: DatasetKey;
-}
-
-// Dataset-specific interfaces
-interface MangaroaDataPoint extends BaseDataPoint {
-  year: number;
-  canopy_cover: number;
-  tree_height: number;
-  living_biomass: number;
-  carbon_stock: number;
-  diversity_index: number;
-}
-
-interface GLADDataPoint extends BaseDataPoint {
-  datamask: number;
-  gain: number;
-  lossyear: number;
-  treecover2000: number;
-  has_data: boolean;
-  has_forest_gain: boolean;
-  forest_loss_year: number | null;
-  baseline_tree_cover: number;
-}
-
-interface IOClassDataPoint extends BaseDataPoint {
-  year: number;
-  land_class: number;
-  class_2017: number;
-  class_2018: number;
-  class_2019: number;
-  class_2020: number;
-  class_2021: number;
-  class_2022: number;
-  class_2023: number;
-  has_data: boolean;
-  dominant_class: number;
-  has_temporal_change: boolean;
-}
-
-interface JRCDataPoint extends BaseDataPoint {
-  forest_cover_2020?: number;
-  forest_type_2020?: number;
-  has_data: boolean;
-  is_forest: boolean;
-}
-
-type DataPoint = MangaroaDataPoint | GLADDataPoint | IOClassDataPoint | JRCDataPoint;
-
-// Data processing functions
-const processMangaroaData = async (): Promise<MangaroaDataPoint[]> => {
-  try {
-    console.log('Loading Mangaroa dataset...');
-    const response = await fetch('/data/mangaroa_sampling_zone_1_kanop_screening_25_m.csv');
-    const csvText = await response.text();
-    
-    const Papa = await import('papaparse');
-    const parsed = Papa.parse<Record<string, any>>(csvText, {
-      header: true,
-      dynamicTyping: true,
-      skipEmptyLines: true
-    });
+const MultiDatasetVisualizer = () => {
+  const mapContainer = useRef(null);
+  const map = useRef<mapboxgl.Map | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [selectedDataset, setSelectedDataset] = useState<DatasetKey | UploadedDatasetKey>('mangaroa');
+  const [selectedYear, setSelectedYear] = useState([2024]);
+  const [visualizationMode, setVisualizationMode] = useState<'current_year' | 'change_detection' | 'temporal_analysis'>('current_year');
+  // Every dataset as its own map layer; the active one starts out visible
+  const [layers, setLayers] = useState<MapLayer[]>(() =>
+    Object.keys(DATASETS).map(key => createMapLayer(key, key === 'mangaroa'))
+  );
+  // Slices of the other visible built-in layers, at the timeline year where they have it
+  const [overlaySlices, setOverlaySlices] = useState(new Map<string, GeoJSON.FeatureCollection>());
+  const [slice, setSlice] = useState<GeoJSON.FeatureCollection | null>(null);
+  const [loading, setLoading] = useState(true);
+  const loadAbortRef = useRef<AbortController | null>(null);
+  const [cacheStatus, setCacheStatus] = useState<string | null>(null);
+  // Slices already fetched this session, keyed by dataset and year
+  const sliceCacheRef = useRef(new Map<string, GeoJSON.FeatureCollection>());
+  // Pre-computed GeoJSON per year for the timeline player, and the year it is showing
+  const framesRef = useRef(new Map<number, GeoJSON.FeatureCollection>());
+  const [playbackYear, setPlaybackYear] = useState<number | null>(null);
+  const [uploads, setUploads] = useState<UploadedDataset[]>([]);
+  const [uploadedMetric, setUploadedMetric] = useState('');
+  const [aois, setAois] = useState<AOI[]>([]);
+  const [selectedAoiId, setSelectedAoiId] = useState<string | null>(null);
+  const aoi = aois.find(a => a.id === selectedAoiId) ?? null;
+  const drawingRef = useRef(false);
+  const [showCarbon, setShowCarbon] = useState(false);
+  const [showAgreement, setShowAgreement] = useState(false);
+  const [showForest, setShowForest] = useState(false);
+  const [showTransitions, setShowTransitions] = useState(false);
+  // IO-9 pixels that went from one class to another, picked from the transition matrix
+  const [transitionFilter, setTransitionFilter] = useState<TransitionFilter | null>(null);
+  const [showMasks, setShowMasks] = useState(false);
+  const [maskQuery, setMaskQuery] = useState<MaskQuery>({ operator: 'and', terms: [] });
+  const [gladThresholds, setGladThresholds] = useState(DEFAULT_GLAD_THRESHOLDS);
+  // GLAD coloured by loss year; null keeps the gain/loss/no change view
+  const [gladLossView, setGladLossView] = useState<LossYearView | null>(null);
+  // Viewport the comparison maps open at; null while compare mode is closed
+  const [compareViewport, setCompareViewport] = useState<CompareViewport | null>(null);
+
+  // Uploaded datasets are held client-side; built-in ones are fetched slice by slice
+  const upload = isUploadedDatasetKey(selectedDataset) ? uploads.find(d => d.key === selectedDataset) : undefined;
+  const activeDataset = upload ?? DATASETS[selectedDataset as DatasetKey];
+  // Hidden in the layer manager, so the timeline has nothing to show
+  const activeLayerHidden = layers.find(layer => layer.key === selectedDataset)?.visible === false;
+  const activeYears: readonly number[] = activeDataset.years;
+  const recordCount = upload ? upload.records.length : slice?.features.length ?? 0;
+
+  // Built-in datasets are summarised by the API; uploads never leave the browser
+  const getZonalStats = async (zone: Zone, signal: AbortSignal) => {
+    const year = activeYears.length ? selectedYear[0] : undefined;
+    if (!upload) return fetchZonalStats(selectedDataset as DatasetKey, zone.geometry, { year, signal });
+
+    const fields = upload.metrics.map(metric => ({
+      key: metric.key,
+      label: metric.label,
+      unit: metric.unit,
+      value: (record: (typeof upload.records)[number]) => record.values[metric.key]
+    }));
+    return zonalStatistics(upload.records, zone.geometry, fields, year);
+  };
 
-    const processedData = parsed.data.map((row: Record<string, any>, index) => {
-      const cleanRow: Record<string, any> = {};
-      Object.keys(row).forEach(key => {
-        const cleanKey = key.trim();
-        cleanRow[cleanKey] = row[key];
-      });
+  const activeLossView = selectedDataset === 'glad' ? gladLossView ?? undefined : undefined;
 
-      return {
-        id: `${cleanRow.x}_${cleanRow.y}_${cleanRow.year}`,
-        pixel_id: index,
-        x: parseFloat(cleanRow.x),
-        y: parseFloat(cleanRow.y),
-        year: parseInt(cleanRow.year),
-        canopy_cover: parseFloat(cleanRow.canopy_cover) || 0,
-        coordinates: [parseFloat(cleanRow.x), parseFloat(cleanRow.y)] as [number, number],
-        tree_height: parseFloat(cleanRow.tree_height) || 0,
-        living_biomass: parseFloat(cleanRow.living_biomass) || 0,
-        carbon_stock: parseFloat(cleanRow.living_biomass_carbon_stock) || 0,
-        diversity_index: parseFloat(cleanRow.raos_q_diversity_index) || 0,
-        dataset: 'mangaroa' as const
-      };
-    }).filter(row => 
-      !isNaN(row.x) && !isNaN(row.y) && !isNaN(row.year) && row.year >= 2013 && row.year <= 2024
-    );
-
-    // Create unique pixel IDs
-    const pixelMap = new Map();
-    let pixelCounter = 0;
-    processedData.forEach(row => {
-      const coordKey = `${row.x.toFixed(6)}_${row.y.toFixed(6)}`;
-      if (!pixelMap.has(coordKey)) {
-        pixelMap.set(coordKey, pixelCounter++);
-      }
-      row.pixel_id = pixelMap.get(coordKey);
-    });
+  const hasCarbon = upload ? uploadHasCarbon(upload) : hasCarbonDensities(selectedDataset);
 
-    console.log('Processed Mangaroa data:', processedData.length);
-    return processedData;
-  } catch (error) {
-    console.error('Error processing Mangaroa data:', error);
-    return [];
-  }
-};
+  const getCarbonAccount = async (
+    { zone, baselineYear }: { zone?: PolygonalGeometry; baselineYear: number },
+    signal: AbortSignal
+  ) => {
+    if (!upload) return fetchCarbonAccount(selectedDataset as DatasetKey, { geometry: zone, baselineYear, signal });
+    return carbonAccount(upload.records, UPLOADED_CARBON, { zone, baselineYear });
+  };
 
-const processGLADData = async (): Promise<GLADDataPoint[]> => {
-  try {
-    console.log('Loading GLAD dataset...');
-    const response = await fetch('/data/glad_forest_cover_loss_gain.csv');
-    const csvText = await response.text();
-    
-    const Papa = await import('papaparse');
-    const parsed = Papa.parse<Record<string, any>>(csvText, {
-      header: true,
-      dynamicTyping: true,
-      skipEmptyLines: true
-    });
+  const datasetLabel = (key: string) =>
+    isUploadedDatasetKey(key) ? uploads.find(d => d.key === key)?.label ?? key : DATASETS[key as DatasetKey].label;
 
-    const processedData = parsed.data.map((row: Record<string, any>, index) => ({
-      id: `glad_${row.x}_${row.y}`,
-      pixel_id: index,
-      x: parseFloat(row.x),
-      y: parseFloat(row.y),
-      coordinates: [parseFloat(row.x), parseFloat(row.y)] as [number, number],
-      datamask: parseInt(row.datamask),
-      gain: parseInt(row.gain),
-      lossyear: parseInt(row.lossyear),
-      treecover2000: parseInt(row.treecover2000),
-      has_data: parseInt(row.datamask) === 1,
-      has_forest_gain: parseInt(row.gain) === 1,
-      forest_loss_year: parseInt(row.lossyear) > 0 ? 2000 + parseInt(row.lossyear) : null,
-      baseline_tree_cover: parseInt(row.treecover2000),
-      dataset: 'glad' as const
-    })).filter(row => 
-      !isNaN(row.x) && !isNaN(row.y) && row.has_data
-    );
-
-    console.log('Processed GLAD data:', processedData.length);
-    return processedData;
-  } catch (error) {
-    console.error('Error processing GLAD data:', error);
-    return [];
-  }
-};
+  const handleImportAOIs = (imported: AOI[]) => {
+    setAois(current => [...current, ...imported]);
+    setSelectedAoiId(imported[0].id);
+  };
 
-// Create binary masks for GLAD data analysis
-const createGLADBinaryMasks = (gladData: GLADDataPoint[]) => {
-  return gladData.map(point => {
-    // Create various binary masks
-    const masks = {
-      // Basic binary indicators
-      hasData: point.has_data,
-      hasForestGain: point.has_forest_gain,
-      hasForestLoss: point.forest_loss_year !== null,
-      
-      // Tree cover binary masks
-      hasAnyTreeCover: point.baseline_tree_cover > 0,
-      hasLowTreeCover: point.baseline_tree_cover > 0 && point.baseline_tree_cover < 30,
-      hasMediumTreeCover: point.baseline_tree_cover >= 30 && point.baseline_tree_cover < 70,
-      hasHighTreeCover: point.baseline_tree_cover >= 70,
-      
-      // Composite change mask
-      hasAnyChange: point.has_forest_gain || point.forest_loss_year !== null,
-      
-      // Forest status binary
-      isForested: point.baseline_tree_cover >= 30, // Standard forest definition
-      
-      // Data quality mask
-      isValidForestPixel: point.has_data && point.baseline_tree_cover > 0,
-    };
-    
-    return {
-      ...point,
-      masks
-    };
-  });
-};
+  const toggleAgreement = () => {
+    if (showAgreement && map.current) showAgreementOnMap(map.current, null);
+    setShowAgreement(!showAgreement);
+  };
 
-const processIOClassData = async (): Promise<IOClassDataPoint[]> => {
-  try {
-    console.log('Loading IO-9-class dataset...');
-    const response = await fetch('/data/io-9-class-10m.csv');
-    const csvText = await response.text();
-    
-    const Papa = await import('papaparse');
-    const parsed = Papa.parse<Record<string, any>>(csvText, {
-      header: true,
-      dynamicTyping: true,
-      skipEmptyLines: true
-    });
+  const toggleForest = () => {
+    if (showForest && map.current) showForestOnMap(map.current, null);
+    setShowForest(!showForest);
+  };
 
-    const baseData = parsed.data.map((row: Record<string, any>, index) => ({
-      pixel_id: index,
-      x: parseFloat(row.x),
-      y: parseFloat(row.y),
-      coordinates: [parseFloat(row.x), parseFloat(row.y)] as [number, number],
-      class_2017: parseInt(row.class_2017),
-      class_2018: parseInt(row.class_2018),
-      class_2019: parseInt(row.class_2019),
-      class_2020: parseInt(row.class_2020),
-      class_2021: parseInt(row.class_2021),
-      class_2022: parseInt(row.class_2022),
-      class_2023: parseInt(row.class_2023),
-      has_data: parseInt(row.class_2017) !== 255,
-      dominant_class: parseInt(row.class_2017),
-    })).filter(row => 
-      !isNaN(row.x) && !isNaN(row.y) && row.has_data
-    );
-
-    // Convert to time series format - create one record per pixel per year
-    const timeSeriesData: IOClassDataPoint[] = [];
-    const years = [2017, 2018, 2019, 2020, 2021, 2022, 2023];
-    
-    baseData.forEach(pixel => {
-      // Check if pixel has temporal changes
-      const classValues = years.map(year => pixel[`class_${year}` as keyof typeof pixel] as number);
-      const uniqueClasses = new Set(classValues);
-      const hasTemporalChange = uniqueClasses.size > 1;
-      
-      years.forEach(year => {
-        const landClass = pixel[`class_${year}` as keyof typeof pixel] as number;
-        
-        timeSeriesData.push({
-          id: `io_${pixel.x}_${pixel.y}_${year}`,
-          pixel_id: pixel.pixel_id,
-          x: pixel.x,
-          y: pixel.y,
-          coordinates: pixel.coordinates,
-          year: year,
-          land_class: landClass,
-          class_2017: pixel.class_2017,
-          class_2018: pixel.class_2018,
-          class_2019: pixel.class_2019,
-          class_2020: pixel.class_2020,
-          class_2021: pixel.class_2021,
-          class_2022: pixel.class_2022,
-          class_2023: pixel.class_2023,
-          has_data: pixel.has_data,
-          dominant_class: pixel.dominant_class,
-          has_temporal_change: hasTemporalChange,
-          dataset: 'io_class' as const
-        });
-      });
-    });
+  const toggleTransitions = () => {
+    if (showTransitions) setTransitionFilter(null);
+    setShowTransitions(!showTransitions);
+  };
 
-    console.log('Processed IO-9-class time series data:', timeSeriesData.length);
-    console.log('Unique pixels:', baseData.length);
-    console.log('Years covered:', years);
-    return timeSeriesData;
-  } catch (error) {
-    console.error('Error processing IO-9-class data:', error);
-    return [];
-  }
-};
+  const openCompare = () => {
+    if (!map.current) return;
+    const { lng, lat } = map.current.getCenter();
+    setCompareViewport({ center: [lng, lat], zoom: map.current.getZoom() });
+  };
 
-const processJRCCoverData = async (): Promise<JRCDataPoint[]> => {
-  try {
-    console.log('Loading JRC Forest Cover dataset...');
-    const response = await fetch('/data/jrc_forest_cover_2020.csv');
-    const csvText = await response.text();
-    
-    const Papa = await import('papaparse');
-    const parsed = Papa.parse<Record<string, any>>(csvText, {
-      header: true,
-      dynamicTyping: true,
-      skipEmptyLines: true
-    });
+  // Switching datasets swaps the active layer; other layers keep their visibility
+  const selectDataset = (key: DatasetKey | UploadedDatasetKey) => {
+    setLayers(current => current.map(layer => {
+      if (layer.key === key) return { ...layer, visible: true };
+      if (layer.key === selectedDataset) return { ...layer, visible: false };
+      return layer;
+    }));
+    setSelectedDataset(key);
+    // The forest layer is derived from the active dataset, so it can't outlive it
+    if (showForest && map.current) showForestOnMap(map.current, null);
+    setShowForest(false);
+    // The agreement compares built-in datasets only, so it closes when an upload is selected
+    if (isUploadedDatasetKey(key) && showAgreement) toggleAgreement();
+  };
 
-    const processedData = parsed.data.map((row: Record<string, any>, index) => ({
-      id: `jrc_cover_${row.x}_${row.y}`,
-      pixel_id: index,
-      x: parseFloat(row.x),
-      y: parseFloat(row.y),
-      coordinates: [parseFloat(row.x), parseFloat(row.y)] as [number, number],
-      forest_cover_2020: parseInt(row.forest_cover_2020),
-      has_data: parseInt(row.forest_cover_2020) !== 255,
-      is_forest: parseInt(row.forest_cover_2020) === 1,
-      dataset: 'jrc_cover' as const
-    })).filter(row => 
-      !isNaN(row.x) && !isNaN(row.y) && row.has_data
-    );
-
-    console.log('Processed JRC Forest Cover data:', processedData.length);
-    return processedData;
-  } catch (error) {
-    console.error('Error processing JRC Forest Cover data:', error);
-    return [];
-  }
-};
+  const handleAddUpload = (dataset: UploadedDataset) => {
+    setUploads(current => [...current, dataset]);
+    setLayers(current => [createMapLayer(dataset.key), ...current]);
+    selectDataset(dataset.key);
+  };
 
-const processJRCTypeData = async (): Promise<JRCDataPoint[]> => {
-  try {
-    console.log('Loading JRC Forest Type dataset...');
-    const response = await fetch('/data/jrc_forest_type_2020.csv');
-    const csvText = await response.text();
-    
-    const Papa = await import('papaparse');
-    const parsed = Papa.parse<Record<string, any>>(csvText, {
-      header: true,
-      dynamicTyping: true,
-      skipEmptyLines: true
-    });
+  // Drop every cached route response, from IndexedDB and this session; the next load fetches them again
+  const handleClearCache = async () => {
+    sliceCacheRef.current.clear();
+    try {
+      await clearDatasetCache();
+      setCacheStatus('Cached data cleared');
+    } catch (error) {
+      console.error('Error clearing dataset cache:', error);
+      setCacheStatus('Could not clear cached data');
+    }
+  };
 
-    const processedData = parsed.data.map((row: Record<string, any>, index) => ({
-      id: `jrc_type_${row.x}_${row.y}`,
-      pixel_id: index,
-      x: parseFloat(row.x),
-      y: parseFloat(row.y),
-      coordinates: [parseFloat(row.x), parseFloat(row.y)] as [number, number],
-      forest_type_2020: parseInt(row.forest_type_2020),
-      has_data: parseInt(row.forest_type_2020) !== 255,
-      is_forest: parseInt(row.forest_type_2020) === 1,
-      dataset: 'jrc_type' as const
-    })).filter(row => 
-      !isNaN(row.x) && !isNaN(row.y) && row.has_data
-    );
-
-    console.log('Processed JRC Forest Type data:', processedData.length);
-    return processedData;
-  } catch (error) {
-    console.error('Error processing JRC Forest Type data:', error);
-    return [];
-  }
-};
+  // Fetch only the pixels being rendered: one year of a time-series dataset, or the whole static layer
+  const fetchSlice = useCallback(async (datasetKey: DatasetKey, year?: number, signal?: AbortSignal) => {
+    const cacheKey = `${datasetKey}:${year ?? 'all'}`;
+    const cached = sliceCacheRef.current.get(cacheKey);
+    if (cached) return cached;
 
-const MultiDatasetVisualizer = () => {
-  const mapContainer = useRef(null);
-  const map = useRef<mapboxgl.Map | null>(null);
-  const [isLoaded, setIsLoaded] = useState(false);
-  const [selectedDataset, setSelectedDataset] = useState<DatasetKey>('mangaroa');
-  const [selectedYear, setSelectedYear] = useState([2024]);
-  const [visualizationMode, setVisualizationMode] = useState<'current_year' | 'change_detection' | 'temporal_analysis'>('current_year');
-  const [opacity, setOpacity] = useState([80]);
-  const [data, setData] = useState<DataPoint[]>([]);
-  const [loading, setLoading] = useState(true);
+    const fetched = await fetchDatasetPixels(datasetKey, { year, signal });
+    sliceCacheRef.current.set(cacheKey, fetched);
+    return fetched;
+  }, []);
+
+  const loadSlice = useCallback(async (datasetKey: DatasetKey, year?: number) => {
+    // Cancel any request still in flight for a previous selection
+    loadAbortRef.current?.abort();
+    const controller = new AbortController();
+    loadAbortRef.current = controller;
 
-  // Load dataset based on selection
-  const loadDataset = async (datasetKey: DatasetKey) => {
     setLoading(true);
     try {
-      let loadedData: DataPoint[] = [];
-      
-      switch (datasetKey) {
-        case 'mangaroa':
-          loadedData = await processMangaroaData();
-          break;
-        case 'glad':
-          loadedData = await processGLADData();
-          break;
-        case 'io_class':
-          loadedData = await processIOClassData();
-          break;
-        case 'jrc_cover':
-          loadedData = await processJRCCoverData();
-          break;
-        case 'jrc_type':
-          loadedData = await processJRCTypeData();
-          break;
-      }
-
-      setData(loadedData);
+      setSlice(await fetchSlice(datasetKey, year, controller.signal));
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error loading dataset:', error);
+      setSlice(null);
     } finally {
-      setLoading(false);
+      if (loadAbortRef.current === controller) {
+        setLoading(false);
+      }
     }
-  };
+  }, [fetchSlice]);
 
   // Initialize map
   useEffect(() => {
@@ -433,7 +246,9 @@ const MultiDatasetVisualizer = () => {
         container: mapContainer.current,
         style: 'mapbox://styles/mapbox/satellite-streets-v12',
         center: [175.086901, -41.148613],
-        zoom: 15
+        zoom: 15,
+        // Lets timeline exports read frames back from the canvas
+        preserveDrawingBuffer: true
       });
 
       map.current = mapInstance;
@@ -444,10 +259,9 @@ const MultiDatasetVisualizer = () => {
         unit: 'metric'
       }), 'bottom-left');
 
-      mapInstance.on('load', async () => {
+      mapInstance.on('load', () => {
         console.log('Map loaded successfully');
         setIsLoaded(true);
-        await loadDataset('mangaroa');
       });
 
     } catch (error) {
@@ -455,6 +269,7 @@ const MultiDatasetVisualizer = () => {
     }
 
     return () => {
+      loadAbortRef.current?.abort();
       if (map.current) {
         map.current.remove();
         map.current = null;
@@ -462,275 +277,307 @@ const MultiDatasetVisualizer = () => {
     };
   }, []);
 
-  // Load new dataset when selection changes
+  // Reset controls when the dataset changes
   useEffect(() => {
     if (isLoaded) {
-      loadDataset(selectedDataset);
-      
       // Reset visualization mode when changing datasets
-      if (selectedDataset === 'io_class') {
+      if (selectedDataset === 'io_class' || upload) {
         setVisualizationMode('current_year');
       }
+
+      if (upload) {
+        setUploadedMetric(upload.metrics[0].key);
+      }
       
       // Reset year to appropriate default for time series datasets
-      if (DATASETS[selectedDataset].type === 'time_series') {
-        const years = DATASETS[selectedDataset].years;
-        setSelectedYear([years[years.length - 1]]);
+      if (activeYears.length > 0) {
+        setSelectedYear([activeYears[activeYears.length - 1]]);
       }
     }
-  }, [selectedDataset, isLoaded]);
+  }, [selectedDataset, isLoaded, upload, activeYears]);
+
+  // Fetch the slice for the current selection
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    if (isUploadedDatasetKey(selectedDataset)) {
+      loadAbortRef.current?.abort();
+      setLoading(false);
+    } else if (!activeYears.length) {
+      loadSlice(selectedDataset);
+    } else if (activeYears.includes(selectedYear[0])) {
+      loadSlice(selectedDataset, selectedYear[0]);
+    }
+    // Otherwise the year is left over from the previous dataset and is about to be reset
+  }, [selectedDataset, selectedYear, isLoaded, activeYears, loadSlice]);
 
   // Create GeoJSON for visualization
-  const createVisualizationGeoJSON = () => {
-    let visualData = data;
-    
-    // Filter by year for time-series data
-    if (DATASETS[selectedDataset].type === 'time_series') {
-      if (selectedDataset === 'mangaroa') {
-        const mangaroaData = data as MangaroaDataPoint[];
-        visualData = mangaroaData.filter(d => d.year === selectedYear[0]);
-      } else if (selectedDataset === 'io_class') {
-        const ioData = data as IOClassDataPoint[];
-        
-        if (visualizationMode === 'change_detection') {
-          // Show pixels that changed over time
-          visualData = ioData.filter(d => d.year === selectedYear[0] && d.has_temporal_change);
-        } else if (visualizationMode === 'temporal_analysis') {
-          // Show all years for analysis (could be modified for specific use cases)
-          visualData = ioData.filter(d => d.year === selectedYear[0]);
-        } else {
-          // Current year view
-          visualData = ioData.filter(d => d.year === selectedYear[0]);
-        }
-      }
+  const createVisualizationGeoJSON = useCallback((
+    source: GeoJSON.FeatureCollection | null = slice,
+    year = selectedYear[0]
+  ): GeoJSON.FeatureCollection => {
+    if (upload) {
+      return uploadedFeatureCollection(upload, {
+        year,
+        baselineYear: visualizationMode === 'change_detection' ? upload.years[0] : undefined,
+        trendMetric: visualizationMode === 'temporal_analysis' ? uploadedMetric : undefined
+      });
     }
 
-    const geoJSON: GeoJSON.FeatureCollection = {
-      type: 'FeatureCollection',
-      features: visualData.map(point => {
-        const size = 0.00025;
-        const [lng, lat] = point.coordinates;
-        const square = [
-          [lng - size/2, lat - size/2],
-          [lng + size/2, lat - size/2],
-          [lng + size/2, lat + size/2],
-          [lng - size/2, lat + size/2],
-          [lng - size/2, lat - size/2]
-        ];
-
-        let properties: any = {
-          pixel_id: point.pixel_id,
-          dataset: point.dataset
-        };
-
-        // Add dataset-specific properties
-        switch (point.dataset) {
-          case 'mangaroa':
-            const mangaroaPoint = point as MangaroaDataPoint;
-            properties = {
-              ...properties,
-              year: mangaroaPoint.year,
-              canopy_cover: mangaroaPoint.canopy_cover,
-              tree_height: mangaroaPoint.tree_height,
-              living_biomass: mangaroaPoint.living_biomass,
-              carbon_stock: mangaroaPoint.carbon_stock
-            };
-            break;
-          case 'glad':
-            const gladPoint = point as GLADDataPoint;
-            properties = {
-              ...properties,
-              has_forest_gain: gladPoint.has_forest_gain,
-              forest_loss_year: gladPoint.forest_loss_year,
-              baseline_tree_cover: gladPoint.baseline_tree_cover
-            };
-            break;
-          case 'io_class':
-            const ioPoint = point as IOClassDataPoint;
-            properties = {
-              ...properties,
-              year: ioPoint.year,
-              land_class: ioPoint.land_class,
-              dominant_class: ioPoint.dominant_class,
-              class_2017: ioPoint.class_2017,
-              class_2023: ioPoint.class_2023,
-              has_temporal_change: ioPoint.has_temporal_change
-            };
-            break;
-          case 'jrc_cover':
-          case 'jrc_type':
-            const jrcPoint = point as JRCDataPoint;
-            properties = {
-              ...properties,
-              is_forest: jrcPoint.is_forest
-            };
-            break;
-        }
+    if (!source) return { type: 'FeatureCollection', features: [] };
 
-        return {
-          type: 'Feature',
-          properties,
-          geometry: {
-            type: 'Polygon',
-            coordinates: [square]
-          }
-        } as GeoJSON.Feature;
-      })
-    };
+    // Show only GLAD pixels inside the mask explorer's combination and the loss-year range
+    const maskFilter = showMasks && !isEmptyMaskQuery(maskQuery);
+    if (selectedDataset === 'glad' && (maskFilter || gladLossView)) {
+      return {
+        ...source,
+        features: source.features.filter(feature =>
+          (!maskFilter || matchesMaskQuery(feature.properties as GLADDataPoint, maskQuery, gladThresholds)) &&
+          (!gladLossView || inLossYearRange(feature.properties, gladLossView.range))
+        )
+      };
+    }
+
+    // Show only pixels that made the chosen class transition
+    if (selectedDataset === 'io_class' && transitionFilter) {
+      return {
+        ...source,
+        features: source.features.filter(feature => matchesTransition(feature.properties, transitionFilter))
+      };
+    }
+
+    // Show only pixels that changed over time
+    if (selectedDataset === 'io_class' && visualizationMode === 'change_detection') {
+      return {
+        ...source,
+        features: source.features.filter(feature => feature.properties?.has_temporal_change)
+      };
+    }
+
+    return source;
+  }, [upload, slice, selectedYear, selectedDataset, visualizationMode, uploadedMetric, showMasks, maskQuery, gladThresholds, gladLossView, transitionFilter]);
 
-    return geoJSON;
+  // Animation controls: every year's slice is fetched and clipped up front, then
+  // each tick only swaps the source data
+  const prepareAnimationFrames = async () => {
+    const frames = new Map<number, GeoJSON.FeatureCollection>();
+    for (const year of activeYears) {
+      const yearSlice = upload ? null : await fetchSlice(selectedDataset as DatasetKey, year);
+      frames.set(year, clipFeaturesToAOI(createVisualizationGeoJSON(yearSlice, year), aoi));
+    }
+    framesRef.current = frames;
   };
 
-  // Update map visualization
-  useEffect(() => {
-    if (!isLoaded || !data.length || !map.current || loading) return;
+  const showAnimationFrame = (year: number) => {
+    const frame = framesRef.current.get(year);
+    const source = map.current?.getSource(layerSourceId(selectedDataset)) as mapboxgl.GeoJSONSource | undefined;
+    if (!frame || !source) return;
+    source.setData(frame);
+    setPlaybackYear(year);
+  };
 
-    const geoJSON = createVisualizationGeoJSON();
+  // Back to the selected year after recording a timeline export
+  const finishExport = () => {
+    showAnimationFrame(selectedYear[0]);
+    setPlaybackYear(null);
+  };
 
-    // Remove existing layers
-    ['dataset-layer'].forEach(layerId => {
-      if (map.current?.getLayer(layerId)) {
-        map.current?.removeLayer(layerId);
-      }
-    });
-    
-    if (map.current.getSource('dataset-data')) {
-      map.current.removeSource('dataset-data');
+  // Draw the selected AOI and zoom to it
+  useEffect(() => {
+    if (!isLoaded || !map.current) return;
+
+    showAOIOnMap(map.current, aoi);
+    if (aoi) {
+      map.current.fitBounds(aoi.bbox as mapboxgl.LngLatBoundsLike, { padding: 40 });
     }
+  }, [isLoaded, aoi]);
 
-    // Add new source
-    map.current.addSource('dataset-data', {
-      type: 'geojson',
-      data: geoJSON
+  // Fetch the other visible built-in layers
+  const overlayKey = layers
+    .filter(layer => layer.visible && layer.key !== selectedDataset && !isUploadedDatasetKey(layer.key))
+    .map(layer => layer.key)
+    .join(',');
+
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    // Keyed by the joined list so that toggling other layer settings doesn't refetch
+    const overlayKeys = (overlayKey ? overlayKey.split(',') : []) as DatasetKey[];
+    const controller = new AbortController();
+    const loadOverlays = async () => {
+      try {
+        const entries = await Promise.all(overlayKeys.map(async key => {
+          const years: readonly number[] = DATASETS[key].years;
+          const year = years.length ? nearestYear(years, selectedYear[0]) : undefined;
+          return [key, await fetchSlice(key, year, controller.signal)] as const;
+        }));
+        setOverlaySlices(new Map(entries));
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error('Error loading overlay layers:', error);
+      }
+    };
+    loadOverlays();
+
+    return () => controller.abort();
+  }, [overlayKey, selectedYear, isLoaded, fetchSlice]);
+
+  // Data and colours for each visible layer; the active one follows the sidebar's mode and metric
+  const layerContent = useMemo(() => {
+    const content = new Map<string, LayerContent>();
+
+    layers.filter(layer => layer.visible).forEach(({ key }) => {
+      if (key === selectedDataset) {
+        if (!recordCount) return;
+        content.set(key, {
+          data: clipFeaturesToAOI(createVisualizationGeoJSON(), aoi),
+          color: upload
+            ? visualizationMode === 'temporal_analysis'
+              ? UPLOADED_TREND_FILL
+              : uploadedFillColor(upload, uploadedMetric, visualizationMode === 'change_detection')
+            : datasetFillColor(selectedDataset as DatasetKey, {
+                temporalChange: visualizationMode === 'change_detection',
+                lossYears: activeLossView
+              })
+        });
+      } else if (isUploadedDatasetKey(key)) {
+        const dataset = uploads.find(d => d.key === key);
+        if (!dataset) return;
+        const year = dataset.years.length ? nearestYear(dataset.years, selectedYear[0]) : undefined;
+        content.set(key, {
+          data: clipFeaturesToAOI(uploadedFeatureCollection(dataset, { year }), aoi),
+          color: uploadedFillColor(dataset, dataset.metrics[0].key)
+        });
+      } else {
+        const data = overlaySlices.get(key);
+        if (data) content.set(key, { data: clipFeaturesToAOI(data, aoi), color: datasetFillColor(key as DatasetKey) });
+      }
     });
 
-    // Color expressions based on dataset type
-    let fillColor: mapboxgl.Expression;
-    
-    switch (selectedDataset) {
+    return content;
+  }, [layers, selectedDataset, recordCount, createVisualizationGeoJSON, aoi, upload, uploadedMetric, visualizationMode, activeLossView, uploads, selectedYear, overlaySlices]);
+
+  // Popup for the topmost visible pixel under the cursor
+  const handleClick = (e: mapboxgl.MapMouseEvent) => {
+    // Clicks place vertices while a zone is being drawn
+    if (drawingRef.current || !map.current) return;
+    const layerIds = visibleLayerIds(map.current, layers);
+    if (!layerIds.length) return;
+    const props = map.current.queryRenderedFeatures(e.point, { layers: layerIds })[0]?.properties;
+    if (!props) return;
+
+    let popupContent = `
+      <div style="padding: 12px; min-width: 250px; font-family: Arial, sans-serif;">
+        <h3 style="font-weight: bold; margin-bottom: 8px; color: #2563eb;">Pixel ${props.pixel_id}</h3>
+        <p style="margin: 2px 0;"><strong>Dataset:</strong> ${escapeHTML(datasetLabel(props.dataset))}</p>
+        <p style="margin: 2px 0;"><strong>Coordinates:</strong> ${e.lngLat.lng.toFixed(6)}, ${e.lngLat.lat.toFixed(6)}</p>
+    `;
+
+    switch (props.dataset) {
       case 'mangaroa':
-        fillColor = [
-          'interpolate',
-          ['linear'],
-          ['get', 'canopy_cover'],
-          0, '#ffffcc',
-          25, '#a1dab4',
-          50, '#41b6c4',
-          75, '#2c7fb8',
-          100, '#253494'
-        ] as mapboxgl.Expression;
+        popupContent += `
+          <p style="margin: 2px 0;"><strong>Year:</strong> ${props.year}</p>
+          <p style="margin: 2px 0;"><strong>${METRICS.canopy_cover.label}:</strong> ${formatMetricValue('canopy_cover', props.canopy_cover)}</p>
+          <p style="margin: 2px 0;"><strong>${METRICS.tree_height.label}:</strong> ${formatMetricValue('tree_height', props.tree_height)}</p>
+        `;
         break;
       case 'glad':
-        fillColor = [
-          'case',
-          ['get', 'has_forest_gain'], '#4575b4',
-          ['!=', ['get', 'forest_loss_year'], null], '#d73027',
-          '#ffffbf'
-        ] as mapboxgl.Expression;
+        popupContent += `
+          <p style="margin: 2px 0;"><strong>Forest Gain:</strong> ${props.has_forest_gain ? 'Yes' : 'No'}</p>
+          <p style="margin: 2px 0;"><strong>Loss Year:</strong> ${props.forest_loss_year || 'No loss'}</p>
+          <p style="margin: 2px 0;"><strong>Baseline Tree Cover:</strong> ${props.baseline_tree_cover}%</p>
+        `;
         break;
       case 'io_class':
-        if (visualizationMode === 'change_detection') {
-          fillColor = [
-            'case',
-            ['get', 'has_temporal_change'], '#ff6b35', // Orange for changed pixels
-            '#cccccc'  // Gray for stable pixels
-          ] as mapboxgl.Expression;
-        } else {
-          fillColor = [
-            'case',
-            ['==', ['get', 'land_class'], 11], '#2ca02c',    // Forest/vegetation - Green
-            ['==', ['get', 'land_class'], 5], '#8B4513',     // Class 5 - Brown
-            ['==', ['get', 'land_class'], 0], '#87CEEB',     // Water/other - Light blue
-            ['>=', ['get', 'land_class'], 20], '#d62728',    // Other classes - Red
-            '#1f77b4'  // Default - Blue
-          ] as mapboxgl.Expression;
-        }
+        popupContent += `
+          <p style="margin: 2px 0;"><strong>Year:</strong> ${props.year}</p>
+          <p style="margin: 2px 0;"><strong>Current Land Class:</strong> ${ioClassLabel(props.land_class)}</p>
+          <p style="margin: 2px 0;"><strong>Temporal Change:</strong> ${props.has_temporal_change ? 'Yes' : 'No'}</p>
+          <p style="margin: 2px 0;"><strong>2017 Class:</strong> ${ioClassLabel(props.class_2017)}</p>
+          <p style="margin: 2px 0;"><strong>2023 Class:</strong> ${ioClassLabel(props.class_2023)}</p>
+        `;
         break;
       case 'jrc_cover':
       case 'jrc_type':
-        fillColor = [
-          'case',
-          ['get', 'is_forest'], '#2ca02c',
-          '#fee5d9'
-        ] as mapboxgl.Expression;
+        popupContent += `
+          <p style="margin: 2px 0;"><strong>Forest Cover:</strong> ${props.is_forest ? 'Forest' : 'Non-forest'}</p>
+        `;
         break;
-      default:
-        fillColor = ['literal', '#22c55e'] as mapboxgl.Expression;
-    }
-
-    // Add fill layer
-    map.current.addLayer({
-      id: 'dataset-layer',
-      type: 'fill',
-      source: 'dataset-data',
-      paint: {
-        'fill-color': fillColor,
-        'fill-outline-color': '#ffffff',
-        'fill-opacity': opacity[0] / 100
-      }
-    });
-
-    // Add click handler
-    const handleClick = (e: mapboxgl.MapMouseEvent & { features?: mapboxgl.MapboxGeoJSONFeature[] }) => {
-      if (!e.features?.[0]?.properties) return;
-      const props = e.features[0].properties;
-      
-      let popupContent = `
-        <div style="padding: 12px; min-width: 250px; font-family: Arial, sans-serif;">
-          <h3 style="font-weight: bold; margin-bottom: 8px; color: #2563eb;">Pixel ${props.pixel_id}</h3>
-          <p style="margin: 2px 0;"><strong>Dataset:</strong> ${DATASETS[props.dataset as DatasetKey].label}</p>
-          <p style="margin: 2px 0;"><strong>Coordinates:</strong> ${e.lngLat.lng.toFixed(6)}, ${e.lngLat.lat.toFixed(6)}</p>
-      `;
-      
-      switch (props.dataset) {
-        case 'mangaroa':
-          popupContent += `
-            <p style="margin: 2px 0;"><strong>Year:</strong> ${props.year}</p>
-            <p style="margin: 2px 0;"><strong>Canopy Cover:</strong> ${(props.canopy_cover || 0).toFixed(2)}%</p>
-            <p style="margin: 2px 0;"><strong>Tree Height:</strong> ${(props.tree_height || 0).toFixed(2)}m</p>
-          `;
-          break;
-        case 'glad':
-          popupContent += `
-            <p style="margin: 2px 0;"><strong>Forest Gain:</strong> ${props.has_forest_gain ? 'Yes' : 'No'}</p>
-            <p style="margin: 2px 0;"><strong>Loss Year:</strong> ${props.forest_loss_year || 'No loss'}</p>
-            <p style="margin: 2px 0;"><strong>Baseline Tree Cover:</strong> ${props.baseline_tree_cover}%</p>
-          `;
-          break;
-        case 'io_class':
+      default: {
+        const uploaded = uploads.find(d => d.key === props.dataset);
+        if (!uploaded) break;
+        if (props.year !== undefined && props.year !== null) {
+          popupContent += `<p style="margin: 2px 0;"><strong>Year:</strong> ${props.year}</p>`;
+        }
+        uploaded.metrics.forEach(metric => {
+          const change = props[`${metric.key}_change`];
           popupContent += `
-            <p style="margin: 2px 0;"><strong>Year:</strong> ${props.year}</p>
-            <p style="margin: 2px 0;"><strong>Current Land Class:</strong> ${props.land_class === 11 ? 'Forest/Vegetation' : props.land_class === 5 ? 'Class 5' : `Class ${props.land_class}`}</p>
-            <p style="margin: 2px 0;"><strong>Temporal Change:</strong> ${props.has_temporal_change ? 'Yes' : 'No'}</p>
-            <p style="margin: 2px 0;"><strong>2017 Class:</strong> ${props.class_2017}</p>
-            <p style="margin: 2px 0;"><strong>2023 Class:</strong> ${props.class_2023}</p>
+            <p style="margin: 2px 0;"><strong>${escapeHTML(metric.label)}:</strong> ${Number(props[metric.key]).toFixed(2)}${escapeHTML(metric.unit)}${
+              change !== undefined ? ` (${change >= 0 ? '+' : ''}${Number(change).toFixed(2)} since ${uploaded.years[0]})` : ''
+            }</p>
           `;
-          break;
-        case 'jrc_cover':
-        case 'jrc_type':
+        });
+        if (props.trend_direction !== undefined) {
+          const metric = uploaded.metrics.find(m => m.key === uploadedMetric);
           popupContent += `
-            <p style="margin: 2px 0;"><strong>Forest Cover:</strong> ${props.is_forest ? 'Forest' : 'Non-forest'}</p>
+            <p style="margin: 2px 0;"><strong>Trend:</strong> ${TREND_LABELS[props.trend_direction as TrendDirection]} (${Number(props.trend_slope) >= 0 ? '+' : ''}${Number(props.trend_slope).toFixed(2)}${escapeHTML(metric?.unit ?? '')} ${escapeHTML(metric?.label ?? '')}/yr, p = ${Number(props.trend_p_value).toFixed(3)})</p>
           `;
-          break;
+        }
       }
-      
-      popupContent += '</div>';
-      
-      new mapboxgl.Popup()
-        .setLngLat(e.lngLat)
-        .setHTML(popupContent)
-        .addTo(map.current as mapboxgl.Map);
-    };
+    }
 
-    map.current.off('click', 'dataset-layer' as any);
-    map.current.on('click', 'dataset-layer' as any, handleClick);
+    popupContent += '</div>';
 
-  }, [selectedDataset, selectedYear, visualizationMode, opacity, isLoaded, data, loading]);
+    new mapboxgl.Popup()
+      .setLngLat(e.lngLat)
+      .setHTML(popupContent)
+      .addTo(map.current);
+  };
+
+  // Update map visualization
+  useEffect(() => {
+    if (!isLoaded || !map.current || loading) return;
+
+    // Only pixels inside the selected AOI are drawn
+    drawMapLayers(map.current, layers, layerContent);
+    raiseAgreementLayer(map.current);
+    raiseForestLayer(map.current);
+    raiseAOILayer(map.current);
+    raiseZoneLayers(map.current);
+  }, [isLoaded, loading, layers, layerContent]);
+
+  // One click listener for the map's lifetime, calling the latest popup handler
+  const handleClickRef = useLatest(handleClick);
+  useEffect(() => {
+    const mapInstance = map.current;
+    if (!isLoaded || !mapInstance) return;
+
+    const listener = (e: mapboxgl.MapMouseEvent) => handleClickRef.current(e);
+    mapInstance.on('click', listener);
+    return () => {
+      mapInstance.off('click', listener);
+    };
+  }, [isLoaded, handleClickRef]);
+
+  // Legend entries for the active dataset, also burned into exported timelines
+  const legendItems = ((): LegendItem[] => {
+    const change = visualizationMode === 'change_detection';
+    if (upload && visualizationMode === 'temporal_analysis') return uploadedTrendLegend(upload, uploadedMetric);
+    if (upload) return uploadedLegend(upload, uploadedMetric, change);
+    return datasetLegend(selectedDataset as DatasetKey, { temporalChange: change, lossYears: activeLossView });
+  })();
+
+  const layerLegend = (key: string): LegendItem[] => {
+    if (key === selectedDataset) return legendItems;
+    if (!isUploadedDatasetKey(key)) return datasetLegend(key as DatasetKey);
+    const dataset = uploads.find(d => d.key === key);
+    return dataset ? uploadedLegend(dataset, dataset.metrics[0].key) : [];
+  };
 
   return (
     <div className="w-full h-screen relative">
-      {/* Control Panel */}
-      <div className="absolute top-4 left-4 z-10 bg-white p-4 rounded-lg shadow-lg min-w-96 max-h-[calc(100vh-2rem)] overflow-y-auto">
+      {/* Control Panel (kept above the loading overlay so a pending load can be replaced) */}
+      <div className="absolute top-4 left-4 z-30 bg-white p-4 rounded-lg shadow-lg min-w-96 max-h-[calc(100vh-2rem)] overflow-y-auto">
         <h2 className="text-lg font-bold mb-4 text-gray-800">Multi-Dataset Forest Analysis</h2>
         
         {/* Dataset Selection */}
@@ -738,7 +585,7 @@ const MultiDatasetVisualizer = () => {
           <label className="block text-sm font-medium mb-2 text-gray-700">Dataset</label>
           <select 
             value={selectedDataset}
-            onChange={(e) => setSelectedDataset(e.target.value as DatasetKey)}
+            onChange={(e) => selectDataset(e.target.value as DatasetKey | UploadedDatasetKey)}
             className="w-full p-2 bg-white border border-gray-300 rounded text-gray-800"
           >
             {Object.entries(DATASETS).map(([key, dataset]) => (
@@ -746,14 +593,179 @@ const MultiDatasetVisualizer = () => {
                 {dataset.label}
               </option>
             ))}
+            {uploads.length > 0 && (
+              <optgroup label="Uploaded this session">
+                {uploads.map(dataset => (
+                  <option key={dataset.key} value={dataset.key}>
+                    {dataset.label}
+                  </option>
+                ))}
+              </optgroup>
+            )}
           </select>
           <p className="text-xs text-gray-500 mt-1">
-            {DATASETS[selectedDataset].description}
+            {activeDataset.description}
           </p>
         </div>
 
-        {/* Visualization Mode (for IO-9 dataset) */}
+        {/* Area of Interest */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium mb-2 text-gray-700">Area of Interest</label>
+          <AOIControl
+            aois={aois}
+            selectedId={selectedAoiId}
+            onImport={handleImportAOIs}
+            onSelect={setSelectedAoiId}
+          />
+        </div>
+
+        {/* Carbon Accounting */}
+        {(hasCarbon || upload) && (
+          <div className="mb-4">
+            <button
+              onClick={() => setShowCarbon(!showCarbon)}
+              disabled={!hasCarbon}
+              className={`w-full text-sm px-3 py-2 rounded disabled:text-gray-400 ${
+                showCarbon ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+              }`}
+            >
+              {showCarbon ? 'Hide' : 'Show'} carbon accounting
+            </button>
+            {!hasCarbon && (
+              <p className="text-xs text-gray-500 mt-1">Needs a year column and a column mapped to Carbon Stock.</p>
+            )}
+          </div>
+        )}
+
+        {/* GLAD Display */}
+        {selectedDataset === 'glad' && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium mb-2 text-gray-700">GLAD Display</label>
+            <select
+              value={gladLossView ? 'loss_year' : 'change'}
+              onChange={(e) => setGladLossView(e.target.value === 'loss_year' ? DEFAULT_LOSS_YEAR_VIEW : null)}
+              className="w-full p-2 bg-white border border-gray-300 rounded text-gray-800 mb-2"
+            >
+              <option value="change">Gain / Loss / No Change</option>
+              <option value="loss_year">Loss Year</option>
+            </select>
+            {gladLossView && (
+              <GLADLossYearControl
+                features={slice ? clipFeaturesToAOI(slice, aoi).features : []}
+                view={gladLossView}
+                onChange={setGladLossView}
+              />
+            )}
+          </div>
+        )}
+
+        {/* GLAD Masks */}
+        {selectedDataset === 'glad' && (
+          <div className="mb-4">
+            <button
+              onClick={() => setShowMasks(!showMasks)}
+              className={`w-full text-sm px-3 py-2 rounded ${
+                showMasks ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+              }`}
+            >
+              {showMasks ? 'Hide' : 'Show'} mask explorer
+            </button>
+          </div>
+        )}
+
+        {/* Land-Cover Transitions */}
         {selectedDataset === 'io_class' && (
+          <div className="mb-4">
+            <button
+              onClick={toggleTransitions}
+              className={`w-full text-sm px-3 py-2 rounded ${
+                showTransitions ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+              }`}
+            >
+              {showTransitions ? 'Hide' : 'Show'} land-cover transitions
+            </button>
+            {transitionFilter && (
+              <div className="flex items-center justify-between mt-2 px-2 py-1 bg-blue-50 rounded text-xs text-gray-800">
+                <span>
+                  Showing {ioClassLabel(transitionFilter.from)} {transitionFilter.fromYear} → {ioClassLabel(transitionFilter.to)} {transitionFilter.toYear}
+                </span>
+                <button onClick={() => setTransitionFilter(null)} className="text-gray-400 hover:text-gray-700">✕</button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Forest Definition */}
+        {(hasForestFields(selectedDataset) || upload) && (
+          <div className="mb-4">
+            <button
+              onClick={toggleForest}
+              disabled={!isLoaded || !!upload}
+              className={`w-full text-sm px-3 py-2 rounded disabled:text-gray-400 ${
+                showForest ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+              }`}
+            >
+              {showForest ? 'Hide' : 'Show'} forest definition
+            </button>
+            {upload && (
+              <p className="text-xs text-gray-500 mt-1">Only available for built-in datasets with canopy cover or tree height.</p>
+            )}
+          </div>
+        )}
+
+        {/* Forest Agreement */}
+        <div className="mb-4">
+          <button
+            onClick={toggleAgreement}
+            disabled={!isLoaded || !!upload}
+            className={`w-full text-sm px-3 py-2 rounded disabled:text-gray-400 ${
+              showAgreement ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+            }`}
+          >
+            {showAgreement ? 'Hide' : 'Show'} forest agreement
+          </button>
+          {upload && (
+            <p className="text-xs text-gray-500 mt-1">Compares the built-in datasets; select one of them to open it.</p>
+          )}
+        </div>
+
+        {/* Compare */}
+        <div className="mb-4">
+          <button
+            onClick={openCompare}
+            disabled={!isLoaded}
+            className="w-full text-sm px-3 py-2 rounded bg-gray-100 text-gray-800 hover:bg-gray-200 disabled:text-gray-400"
+          >
+            Compare years or datasets
+          </button>
+        </div>
+
+        {/* Upload */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium mb-2 text-gray-700">Upload Dataset</label>
+          <DatasetUploadWizard onAdd={handleAddUpload} />
+        </div>
+
+        {/* Metric Selection (for uploaded data) */}
+        {upload && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium mb-2 text-gray-700">Metric</label>
+            <select
+              value={uploadedMetric}
+              onChange={(e) => setUploadedMetric(e.target.value)}
+              className="w-full p-2 bg-white border border-gray-300 rounded text-gray-800"
+            >
+              {upload.metrics.map(metric => (
+                <option key={metric.key} value={metric.key}>
+                  {metric.label}{metric.unit ? ` (${metric.unit})` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Visualization Mode (for IO-9 and uploaded time-series data) */}
+        {(selectedDataset === 'io_class' || (upload && upload.years.length > 1)) && (
           <div className="mb-4">
             <label className="block text-sm font-medium mb-2 text-gray-700">Visualization Mode</label>
             <select
@@ -766,159 +778,195 @@ const MultiDatasetVisualizer = () => {
               <option value="temporal_analysis">Temporal Analysis</option>
             </select>
             <p className="text-xs text-gray-500 mt-1">
-              {visualizationMode === 'current_year' && 'Show land use classification for selected year'}
-              {visualizationMode === 'change_detection' && 'Highlight pixels that changed over time (2017-2023)'}
-              {visualizationMode === 'temporal_analysis' && 'Show temporal patterns and trends'}
+              {upload ? (
+                visualizationMode === 'change_detection'
+                  ? `Change in the selected metric since ${upload.years[0]}`
+                  : visualizationMode === 'temporal_analysis'
+                    ? `Trend of the selected metric per pixel over ${upload.years[0]}–${upload.years[upload.years.length - 1]} (Theil–Sen, Mann–Kendall p < ${DEFAULT_SIGNIFICANCE})`
+                    : 'Show the selected metric for the selected year'
+              ) : (
+                <>
+                  {visualizationMode === 'current_year' && 'Show land use classification for selected year'}
+                  {visualizationMode === 'change_detection' && 'Highlight pixels that changed over time (2017-2023)'}
+                  {visualizationMode === 'temporal_analysis' && 'Show temporal patterns and trends'}
+                </>
+              )}
             </p>
           </div>
         )}
 
         {/* Year Selection (for time-series data) */}
-        {DATASETS[selectedDataset].type === 'time_series' && (
+        {activeYears.length > 0 && (
           <div className="mb-4">
             <label className="block text-sm font-medium mb-2 text-gray-700">
-              Year: {selectedYear[0]}
+              Year: {playbackYear ?? selectedYear[0]}
             </label>
             <Slider
-              value={selectedYear}
+              value={playbackYear !== null ? [playbackYear] : selectedYear}
               onValueChange={setSelectedYear}
-              min={DATASETS[selectedDataset].years[0]}
-              max={DATASETS[selectedDataset].years[DATASETS[selectedDataset].years.length - 1]}
+              min={activeYears[0]}
+              max={activeYears[activeYears.length - 1]}
               step={1}
               className="w-full"
             />
             <div className="flex justify-between text-xs text-gray-500 mt-1">
-              <span>{DATASETS[selectedDataset].years[0]}</span>
-              <span>{DATASETS[selectedDataset].years[DATASETS[selectedDataset].years.length - 1]}</span>
+              <span>{activeYears[0]}</span>
+              <span>{activeYears[activeYears.length - 1]}</span>
             </div>
-            {selectedDataset === 'io_class' && (
+            {(selectedDataset === 'io_class' || upload) && (
               <div className="text-xs text-gray-600 mt-2">
-                Available years: {DATASETS[selectedDataset].years.join(', ')}
+                Available years: {activeYears.join(', ')}
               </div>
             )}
           </div>
         )}
 
-        {/* Opacity Control */}
+        {/* Animation Controls */}
+        {activeYears.length > 1 && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium mb-2 text-gray-700">Timeline Animation</label>
+            <TimelinePlayer
+              years={activeYears}
+              year={selectedYear[0]}
+              onYearChange={(year) => setSelectedYear([year])}
+              prepareFrames={prepareAnimationFrames}
+              onFrame={showAnimationFrame}
+              onPlayingChange={(playing) => { if (!playing) setPlaybackYear(null); }}
+              disabled={activeLayerHidden}
+            />
+            {activeLayerHidden && (
+              <p className="text-xs text-amber-700 mt-1">
+                {activeDataset.label} is hidden in the layer manager; show it to play or export the timeline.
+              </p>
+            )}
+            <TimelineExportControl
+              map={isLoaded && !activeLayerHidden ? map.current : null}
+              years={activeYears}
+              title={upload ? `${upload.label} – ${upload.metrics.find(m => m.key === uploadedMetric)?.label ?? ''}` : activeDataset.label}
+              legend={legendItems}
+              fileName={`${upload ? 'upload' : selectedDataset}-timeline`}
+              prepareFrames={prepareAnimationFrames}
+              showFrame={showAnimationFrame}
+              onFinish={finishExport}
+            />
+          </div>
+        )}
+
+        {/* Layers */}
         <div className="mb-4">
-          <label className="block text-sm font-medium mb-2 text-gray-700">
-            Opacity: {opacity[0]}%
-          </label>
-          <Slider
-            value={opacity}
-            onValueChange={setOpacity}
-            max={100}
-            min={10}
-            step={5}
-            className="w-full"
+          <label className="block text-sm font-medium mb-2 text-gray-700">Layers</label>
+          <LayerManager
+            layers={layers}
+            activeKey={selectedDataset}
+            label={datasetLabel}
+            legend={layerLegend}
+            onChange={setLayers}
           />
         </div>
 
-        {/* Legend */}
+        {/* Cache Control */}
         <div className="mb-4">
-          <label className="block text-sm font-medium mb-2 text-gray-700">Legend</label>
-          <div className="space-y-1">
-            {selectedDataset === 'mangaroa' && (
-              <>
-                <div className="flex items-center space-x-2">
-                  <div className="w-4 h-4 rounded" style={{ backgroundColor: '#ffffcc' }}></div>
-                  <span className="text-xs">Low Canopy Cover (0-25%)</span>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <div className="w-4 h-4 rounded" style={{ backgroundColor: '#41b6c4' }}></div>
-                  <span className="text-xs">Medium Canopy Cover (25-75%)</span>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <div className="w-4 h-4 rounded" style={{ backgroundColor: '#253494' }}></div>
-                  <span className="text-xs">High Canopy Cover (&gt;75%)</span>
-                </div>
-              </>
-            )}
-            {selectedDataset === 'glad' && (
-              <>
-                <div className="flex items-center space-x-2">
-                  <div className="w-4 h-4 rounded" style={{ backgroundColor: '#4575b4' }}></div>
-                  <span className="text-xs">Forest Gain</span>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <div className="w-4 h-4 rounded" style={{ backgroundColor: '#d73027' }}></div>
-                  <span className="text-xs">Forest Loss</span>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <div className="w-4 h-4 rounded" style={{ backgroundColor: '#ffffbf' }}></div>
-                  <span className="text-xs">No Change</span>
-                </div>
-              </>
-            )}
-            {selectedDataset === 'io_class' && (
-              <>
-                {visualizationMode === 'change_detection' ? (
-                  <>
-                    <div className="flex items-center space-x-2">
-                      <div className="w-4 h-4 rounded" style={{ backgroundColor: '#ff6b35' }}></div>
-                      <span className="text-xs">Pixels with Temporal Change</span>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <div className="w-4 h-4 rounded" style={{ backgroundColor: '#cccccc' }}></div>
-                      <span className="text-xs">Stable Pixels (filtered out)</span>
-                    </div>
-                  </>
-                ) : (
-                  <>
-                    <div className="flex items-center space-x-2">
-                      <div className="w-4 h-4 rounded" style={{ backgroundColor: '#2ca02c' }}></div>
-                      <span className="text-xs">Forest/Vegetation (Class 11)</span>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <div className="w-4 h-4 rounded" style={{ backgroundColor: '#8B4513' }}></div>
-                      <span className="text-xs">Class 5</span>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <div className="w-4 h-4 rounded" style={{ backgroundColor: '#87CEEB' }}></div>
-                      <span className="text-xs">Water/Other (Class 0)</span>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <div className="w-4 h-4 rounded" style={{ backgroundColor: '#d62728' }}></div>
-                      <span className="text-xs">Other Classes (≥20)</span>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <div className="w-4 h-4 rounded" style={{ backgroundColor: '#1f77b4' }}></div>
-                      <span className="text-xs">Other/Unknown</span>
-                    </div>
-                  </>
-                )}
-              </>
-            )}
-            {(selectedDataset === 'jrc_cover' || selectedDataset === 'jrc_type') && (
-              <>
-                <div className="flex items-center space-x-2">
-                  <div className="w-4 h-4 rounded" style={{ backgroundColor: '#2ca02c' }}></div>
-                  <span className="text-xs">Forest</span>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <div className="w-4 h-4 rounded" style={{ backgroundColor: '#fee5d9' }}></div>
-                  <span className="text-xs">Non-forest</span>
-                </div>
-              </>
-            )}
-          </div>
+          <button
+            onClick={handleClearCache}
+            className="w-full text-xs bg-gray-100 text-gray-800 px-2 py-1 rounded hover:bg-gray-200"
+          >
+            Clear cached data
+          </button>
+          {cacheStatus && <p className="text-xs text-gray-500 mt-1">{cacheStatus}</p>}
         </div>
 
         {/* Dataset Info */}
         <div className="text-xs text-gray-500 border-t pt-2">
           <p><strong>Current Dataset:</strong></p>
-          <p>• {DATASETS[selectedDataset].label}</p>
-          <p>• Type: {DATASETS[selectedDataset].type}</p>
-          <p>• Records: {data.length}</p>
+          <p>• {activeDataset.label}</p>
+          <p>• Type: {activeDataset.type}</p>
+          <p>• Resolution: {activeDataset.resolution}m × {activeDataset.resolution}m pixels</p>
+          <p>• Records: {recordCount}</p>
+          {upload && upload.invalidRows.length > 0 && (
+            <p className="text-red-600">• Invalid rows left out: {upload.invalidRows.length}</p>
+          )}
           <p className="mt-2"><strong>Interaction:</strong></p>
           <p>• Click pixels for detailed info</p>
-          <p>• Use opacity slider to adjust visibility</p>
+          <p>• Draw shapes to compare zonal statistics</p>
+          <p>• Stack, reorder and fade datasets under Layers</p>
         </div>
       </div>
 
       {/* Map Container */}
       <div ref={mapContainer} className="w-full h-full" />
 
+      {/* Zonal Statistics */}
+      <ZonalStatsPanel
+        map={isLoaded ? map.current : null}
+        getZonalStats={getZonalStats}
+        statsKey={`${selectedDataset}:${upload?.records.length ?? 0}:${activeYears.length ? selectedYear[0] : ''}`}
+        onDrawingChange={(drawing) => { drawingRef.current = drawing; }}
+      />
+
+      {showCarbon && hasCarbon && (
+        <CarbonAccountingPanel
+          aois={aois}
+          defaultAoiId={selectedAoiId}
+          years={activeYears}
+          getAccount={getCarbonAccount}
+          accountKey={`${selectedDataset}:${upload?.records.length ?? 0}`}
+          onClose={() => setShowCarbon(false)}
+        />
+      )}
+
+      {showAgreement && (
+        <ForestAgreementPanel
+          map={isLoaded ? map.current : null}
+          aois={aois}
+          defaultAoiId={selectedAoiId}
+          onClose={toggleAgreement}
+        />
+      )}
+
+      {showForest && hasForestFields(selectedDataset) && (
+        <ForestDefinitionPanel
+          map={isLoaded ? map.current : null}
+          dataset={selectedDataset}
+          aois={aois}
+          defaultAoiId={selectedAoiId}
+          year={selectedYear[0]}
+          onClose={toggleForest}
+        />
+      )}
+
+      {showMasks && selectedDataset === 'glad' && (
+        <GLADMaskExplorer
+          features={slice ? clipFeaturesToAOI(slice, aoi).features : []}
+          query={maskQuery}
+          thresholds={gladThresholds}
+          onQueryChange={setMaskQuery}
+          onThresholdsChange={setGladThresholds}
+          onClose={() => setShowMasks(false)}
+        />
+      )}
+
+      {showTransitions && selectedDataset === 'io_class' && (
+        <LandCoverTransitionPanel
+          aois={aois}
+          defaultAoiId={selectedAoiId}
+          filter={transitionFilter}
+          onFilter={setTransitionFilter}
+          onClose={toggleTransitions}
+        />
+      )}
+
+      {compareViewport && (
+        <CompareView
+          aoi={aoi}
+          view={compareViewport}
+          // Uploads stay in the main view; compare starts from the default dataset instead
+          dataset={upload ? 'mangaroa' : selectedDataset as DatasetKey}
+          year={selectedYear[0]}
+          fetchSlice={fetchSlice}
+          onClose={() => setCompareViewport(null)}
+        />
+      )}
+
       {/* Loading Overlay */}
       {(!isLoaded || loading) && (
         <div className="absolute inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center z-20">
@@ -926,7 +974,7 @@ const MultiDatasetVisualizer = () => {
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white mb-4 mx-auto"></div>
             <p>{!isLoaded ? 'Loading Mapbox...' : 'Processing Dataset...'}</p>
             <p className="text-sm text-gray-300 mt-2">
-              {loading ? `Loading ${DATASETS[selectedDataset].label}...` : 'Initializing map visualization...'}
+              {loading ? `Loading ${activeDataset.label}...` : 'Initializing map visualization...'}
             </p>
           </div>
         </div>
@@ -936,8 +984,8 @@ const MultiDatasetVisualizer = () => {
       <div className="absolute bottom-4 right-4 bg-white bg-opacity-95 p-3 rounded-lg shadow-lg">
         <div className="text-xs text-gray-600">
           <p className="font-medium">Multi-Dataset Forest Analysis</p>
-          <p>Dataset: {DATASETS[selectedDataset].label}</p>
-          {DATASETS[selectedDataset].type === 'time_series' && <p>Year: {selectedYear[0]}</p>}
+          <p>Dataset: {activeDataset.label}</p>
+          {activeYears.length > 0 && <p>Year: {playbackYear ?? selectedYear[0]}</p>}
           {selectedDataset === 'io_class' && (
             <>
               <p>Mode: {visualizationMode === 'current_year' ? 'Classification' : 
@@ -947,9 +995,9 @@ const MultiDatasetVisualizer = () => {
               )}
             </>
           )}
-          {data.length > 0 && (
+          {recordCount > 0 && (
             <p className="mt-1 text-green-600">
-              ✓ {data.length} records loaded
+              ✓ {recordCount} records loaded
             </p>
           )}
         </div>
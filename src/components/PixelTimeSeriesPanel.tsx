@@ -0,0 +1,102 @@
+"use client";
+
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { MANGAROA_COLUMNS, type MangaroaDataPoint, type MangaroaMetric } from '@/lib/datasets';
+import { pixelTimeSeries, type DataStats } from '@/lib/datasetQueries';
+import { METRICS, formatMetricValue } from '@/lib/metrics';
+
+// Shift-click keeps adding pixels up to this many, dropping the oldest
+export const MAX_COMPARED_PIXELS = 6;
+
+const PIXEL_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c', '#0891b2'];
+
+interface PixelTimeSeriesPanelProps {
+  records: MangaroaDataPoint[];
+  pixelIds: number[];
+  // Per-year means of the zone (the AOI when one is selected), drawn as a reference
+  zoneMeans: DataStats['yearlyAverages'];
+  onRemovePixel: (pixelId: number) => void;
+  onClose: () => void;
+}
+
+// Every Kanop metric for the clicked pixels across all years
+const PixelTimeSeriesPanel = ({ records, pixelIds, zoneMeans, onRemovePixel, onClose }: PixelTimeSeriesPanelProps) => {
+  const series = pixelIds.map(pixelId => ({ pixelId, points: pixelTimeSeries(records, pixelId) }));
+  const years = Array.from(new Set(records.map(d => d.year))).sort((a, b) => a - b);
+
+  const chartData = (metric: MangaroaMetric) =>
+    years.map(year => ({
+      year,
+      mean: zoneMeans?.[metric]?.find(point => point.year === year)?.value,
+      ...Object.fromEntries(series.map(({ pixelId, points }) => [
+        `pixel_${pixelId}`,
+        points.find(point => point.year === year)?.[metric]
+      ]))
+    }));
+
+  return (
+    <div className="absolute top-4 right-[34rem] z-10 bg-white p-4 rounded-lg shadow-lg w-96 max-h-[calc(100vh-8rem)] overflow-y-auto text-gray-800">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-bold">Pixel Time Series</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700">✕</button>
+      </div>
+
+      {/* Compared pixels */}
+      <div className="flex flex-wrap gap-1 mb-1">
+        {pixelIds.map((pixelId, index) => (
+          <span
+            key={pixelId}
+            className="flex items-center gap-1 text-xs px-2 py-0.5 rounded text-white"
+            style={{ backgroundColor: PIXEL_COLORS[index % PIXEL_COLORS.length] }}
+          >
+            Pixel {pixelId}
+            <button onClick={() => onRemovePixel(pixelId)} className="opacity-75 hover:opacity-100">✕</button>
+          </span>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Shift-click pixels to compare (up to {MAX_COMPARED_PIXELS}). Dashed line: zone mean.
+      </p>
+
+      {(Object.keys(MANGAROA_COLUMNS) as MangaroaMetric[]).map(metric => (
+        <div key={metric} className="mb-3">
+          <p className="text-xs font-medium mb-1">
+            {METRICS[metric].label}{METRICS[metric].unit ? ` (${METRICS[metric].unit})` : ''}
+          </p>
+          <div className="h-28">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData(metric)} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="year" tick={{ fontSize: 9 }} />
+                <YAxis tick={{ fontSize: 9 }} width={36} />
+                <Tooltip formatter={(value: number) => formatMetricValue(metric, value)} />
+                <Line
+                  type="monotone"
+                  dataKey="mean"
+                  name="Zone mean"
+                  stroke="#6b7280"
+                  strokeDasharray="4 2"
+                  dot={false}
+                />
+                {pixelIds.map((pixelId, index) => (
+                  <Line
+                    key={pixelId}
+                    type="monotone"
+                    dataKey={`pixel_${pixelId}`}
+                    name={`Pixel ${pixelId}`}
+                    stroke={PIXEL_COLORS[index % PIXEL_COLORS.length]}
+                    strokeWidth={2}
+                    dot={{ r: 2 }}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PixelTimeSeriesPanel;
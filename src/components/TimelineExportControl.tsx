@@ -0,0 +1,114 @@
+"use client";
+
+import React, { useState } from 'react';
+import type mapboxgl from 'mapbox-gl';
+import {
+  EXPORT_RESOLUTIONS,
+  downloadBlob,
+  exportTimeline,
+  supportsWebM,
+  type ExportFormat
+} from '@/lib/timelineExport';
+import type { LegendItem } from '@/lib/datasetStyles';
+
+interface TimelineExportControlProps {
+  map: mapboxgl.Map | null;
+  years: readonly number[];
+  title: string;
+  legend: LegendItem[];
+  fileName: string;
+  // Same frame hooks as the timeline player
+  prepareFrames: () => Promise<void>;
+  showFrame: (year: number) => void;
+  // Put the map back on the selected year once recording ends
+  onFinish: () => void;
+}
+
+// Record the timeline as an animated GIF or WebM, entirely in the browser
+const TimelineExportControl = ({
+  map,
+  years,
+  title,
+  legend,
+  fileName,
+  prepareFrames,
+  showFrame,
+  onFinish
+}: TimelineExportControlProps) => {
+  const [format, setFormat] = useState<ExportFormat>('gif');
+  const [resolutionIndex, setResolutionIndex] = useState(0);
+  const [frameDurationMs, setFrameDurationMs] = useState(800);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    if (!map) return;
+    const { width, height } = EXPORT_RESOLUTIONS[resolutionIndex];
+
+    setError(null);
+    setProgress('Preparing frames...');
+    try {
+      await prepareFrames();
+      const blob = await exportTimeline(
+        map,
+        years,
+        showFrame,
+        { format, width, height, frameDurationMs, title, legend },
+        (done, total) => setProgress(`Recording frame ${done} of ${total}...`)
+      );
+      downloadBlob(blob, `${fileName}.${format}`);
+    } catch (error) {
+      console.error('Error exporting timeline:', error);
+      setError('Could not export the timeline');
+    } finally {
+      onFinish();
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="mt-2 border-t pt-2">
+      <div className="grid grid-cols-3 gap-2 mb-2">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+          className="p-1 text-xs bg-white border border-gray-300 rounded text-gray-800"
+        >
+          <option value="gif">GIF</option>
+          <option value="webm" disabled={!supportsWebM()}>WebM</option>
+        </select>
+        <select
+          value={resolutionIndex}
+          onChange={(e) => setResolutionIndex(Number(e.target.value))}
+          className="p-1 text-xs bg-white border border-gray-300 rounded text-gray-800"
+        >
+          {EXPORT_RESOLUTIONS.map((resolution, index) => (
+            <option key={resolution.label} value={index}>{resolution.label}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-xs text-gray-700">
+          <input
+            type="number"
+            min={100}
+            max={10000}
+            step={100}
+            value={frameDurationMs}
+            onChange={(e) => setFrameDurationMs(Math.max(100, Number(e.target.value) || 100))}
+            className="w-full p-1 bg-white border border-gray-300 rounded text-gray-800"
+          />
+          ms
+        </label>
+      </div>
+      <button
+        onClick={handleExport}
+        disabled={!map || progress !== null}
+        className="w-full text-xs bg-gray-100 text-gray-800 px-2 py-1 rounded hover:bg-gray-200 disabled:text-gray-400"
+      >
+        {progress ?? `Export ${years.length}-year clip`}
+      </button>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default TimelineExportControl;
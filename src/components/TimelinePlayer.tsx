@@ -0,0 +1,157 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useLatest } from '@/lib/useLatest';
+
+const FRAME_DURATION_MS = 1000;
+const SPEEDS = [0.5, 1, 2, 4] as const;
+
+interface TimelinePlayerProps {
+  years: readonly number[];
+  // Year shown while paused
+  year: number;
+  // Step buttons, and the year playback stops on
+  onYearChange: (year: number) => void;
+  // Build every frame before playback starts, so ticks only swap data
+  prepareFrames: () => Promise<void>;
+  // Show a pre-computed frame during playback
+  onFrame: (year: number) => void;
+  onPlayingChange?: (playing: boolean) => void;
+  // Nothing to animate, e.g. the dataset's layer is hidden
+  disabled?: boolean;
+}
+
+// Play/pause, step, loop and speed controls for a time-series dataset
+const TimelinePlayer = ({
+  years: yearsProp,
+  year,
+  onYearChange,
+  prepareFrames,
+  onFrame,
+  onPlayingChange,
+  disabled = false
+}: TimelinePlayerProps) => {
+  const [playing, setPlaying] = useState(false);
+  const [preparing, setPreparing] = useState(false);
+  const [loop, setLoop] = useState(false);
+  const [speed, setSpeed] = useState<(typeof SPEEDS)[number]>(1);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const onYearChangeRef = useLatest(onYearChange);
+  const onFrameRef = useLatest(onFrame);
+  const onPlayingChangeRef = useLatest(onPlayingChange);
+
+  // Callers may pass a new array each render; only a change in the years themselves
+  // (i.e. another dataset) should reset playback
+  const yearsKey = yearsProp.join(',');
+  const years = useMemo(() => (yearsKey ? yearsKey.split(',').map(Number) : []), [yearsKey]);
+
+  const currentIndex = Math.max(0, years.indexOf(year));
+
+  useEffect(() => {
+    onPlayingChangeRef.current?.(playing);
+  }, [playing, onPlayingChangeRef]);
+
+  // Stop when the dataset (and so its years) changes
+  useEffect(() => {
+    setPlaying(false);
+  }, [years]);
+
+  // Stop on the frame being shown when there is nothing left to animate
+  useEffect(() => {
+    if (!disabled || !playing) return;
+    setPlaying(false);
+    onYearChangeRef.current(years[frameIndex]);
+  }, [disabled, playing, years, frameIndex, onYearChangeRef]);
+
+  useEffect(() => {
+    if (!playing) return;
+    onFrameRef.current(years[frameIndex]);
+
+    const timer = setTimeout(() => {
+      if (frameIndex < years.length - 1) {
+        setFrameIndex(frameIndex + 1);
+      } else if (loop) {
+        setFrameIndex(0);
+      } else {
+        setPlaying(false);
+        onYearChangeRef.current(years[frameIndex]);
+      }
+    }, FRAME_DURATION_MS / speed);
+
+    return () => clearTimeout(timer);
+  }, [playing, frameIndex, loop, speed, years, onFrameRef, onYearChangeRef]);
+
+  const play = async () => {
+    setPreparing(true);
+    try {
+      await prepareFrames();
+      setError(null);
+      // Start over when paused on the last year
+      setFrameIndex(currentIndex < years.length - 1 ? currentIndex : 0);
+      setPlaying(true);
+    } catch (error) {
+      console.error('Error preparing animation frames:', error);
+      setError('Could not prepare the animation');
+    } finally {
+      setPreparing(false);
+    }
+  };
+
+  const pause = () => {
+    setPlaying(false);
+    onYearChange(years[frameIndex]);
+  };
+
+  const step = (offset: number) => {
+    const from = playing ? frameIndex : currentIndex;
+    const next = loop
+      ? (from + offset + years.length) % years.length
+      : Math.min(years.length - 1, Math.max(0, from + offset));
+    setPlaying(false);
+    onYearChange(years[next]);
+  };
+
+  const buttonClass = 'px-3 py-2 rounded bg-gray-100 text-gray-800 hover:bg-gray-200 disabled:text-gray-400';
+
+  return (
+    <div>
+      <div className="flex gap-2 mb-2">
+        <button onClick={() => step(-1)} disabled={disabled || preparing} className={buttonClass} title="Previous year">⏮</button>
+        <button
+          onClick={playing ? pause : play}
+          disabled={disabled || preparing || years.length < 2}
+          className={`flex-1 px-3 py-2 rounded text-white transition-colors disabled:bg-gray-400 ${
+            playing ? 'bg-red-500 hover:bg-red-600' : 'bg-green-500 hover:bg-green-600'
+          }`}
+        >
+          {preparing ? 'Preparing frames...' : playing ? `Pause (${years[frameIndex]})` : 'Play Timeline'}
+        </button>
+        <button onClick={() => step(1)} disabled={disabled || preparing} className={buttonClass} title="Next year">⏭</button>
+      </div>
+      <div className="flex items-center justify-between text-xs text-gray-700">
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={loop} onChange={(e) => setLoop(e.target.checked)} />
+          Loop
+        </label>
+        <div className="flex items-center gap-1">
+          <span>Speed</span>
+          {SPEEDS.map(option => (
+            <button
+              key={option}
+              onClick={() => setSpeed(option)}
+              className={`px-2 py-0.5 rounded ${
+                speed === option ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+              }`}
+            >
+              {option}×
+            </button>
+          ))}
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default TimelinePlayer;
@@ -0,0 +1,332 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import type mapboxgl from 'mapbox-gl';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { isAbortError } from '@/lib/datasetLoader';
+import { circlePolygon, distance, rectanglePolygon } from '@/lib/geometry';
+import { useLatest } from '@/lib/useLatest';
+import type { ZonalResult } from '@/lib/zonalStats';
+import {
+  createZone,
+  loadSessionZones,
+  saveSessionZones,
+  showZonesOnMap,
+  zoneColor,
+  type Zone,
+  type ZoneShape
+} from '@/lib/zones';
+
+interface ZonalStatsPanelProps {
+  map: mapboxgl.Map | null;
+  // Statistics for one zone in the active dataset and year
+  getZonalStats: (zone: Zone, signal: AbortSignal) => Promise<ZonalResult>;
+  // Changes whenever the dataset or year changes, so every zone is recomputed
+  statsKey: string;
+  onDrawingChange?: (drawing: boolean) => void;
+}
+
+const SHAPE_HINTS: Record<ZoneShape, string> = {
+  polygon: 'Click to add vertices, double-click to finish',
+  rectangle: 'Click two opposite corners',
+  circle: 'Click the centre, then a point on the edge'
+};
+
+// Missing values arrive as NaN, or as null once they have been through JSON
+const formatValue = (value: number | null | undefined, unit = '') =>
+  typeof value !== 'number' || Number.isNaN(value) ? '—' : `${value.toFixed(2)}${unit}`;
+
+const ZonalStatsPanel = ({ map, getZonalStats, statsKey, onDrawingChange }: ZonalStatsPanelProps) => {
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [restored, setRestored] = useState(false);
+  const [drawMode, setDrawMode] = useState<ZoneShape | null>(null);
+  const [draft, setDraft] = useState<GeoJSON.Geometry | null>(null);
+  const [results, setResults] = useState<Record<string, ZonalResult>>({});
+  const [computing, setComputing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hiddenIds, setHiddenIds] = useState<string[]>([]);
+  const [seriesField, setSeriesField] = useState('');
+  const getZonalStatsRef = useLatest(getZonalStats);
+  const onDrawingChangeRef = useLatest(onDrawingChange);
+
+  // Restore zones drawn earlier in this session
+  useEffect(() => {
+    setZones(loadSessionZones());
+    setRestored(true);
+  }, []);
+
+  useEffect(() => {
+    if (restored) saveSessionZones(zones);
+  }, [zones, restored]);
+
+  useEffect(() => {
+    if (map) showZonesOnMap(map, zones, draft);
+  }, [map, zones, draft]);
+
+  useEffect(() => {
+    onDrawingChangeRef.current?.(drawMode !== null);
+  }, [drawMode, onDrawingChangeRef]);
+
+  // Drawing interaction for the active shape tool
+  useEffect(() => {
+    if (!map || !drawMode) return;
+
+    const points: [number, number][] = [];
+    const canvas = map.getCanvas();
+    canvas.style.cursor = 'crosshair';
+    map.doubleClickZoom.disable();
+
+    const finish = (geometry: GeoJSON.Polygon) => {
+      setZones(current => [...current, createZone(drawMode, geometry, current)]);
+      setDrawMode(null);
+    };
+
+    const shapeTo = (cursor: [number, number]): GeoJSON.Geometry | null => {
+      if (!points.length) return null;
+      switch (drawMode) {
+        case 'polygon':
+          return { type: 'LineString', coordinates: [...points, cursor, points[0]] };
+        case 'rectangle':
+          return rectanglePolygon(points[0], cursor);
+        case 'circle':
+          return circlePolygon(points[0], distance(points[0], cursor));
+      }
+    };
+
+    const handleClick = (e: mapboxgl.MapMouseEvent) => {
+      const point: [number, number] = [e.lngLat.lng, e.lngLat.lat];
+      const last = points[points.length - 1];
+      if (last && last[0] === point[0] && last[1] === point[1]) return;
+      points.push(point);
+
+      if (drawMode === 'rectangle' && points.length === 2) finish(rectanglePolygon(points[0], points[1]));
+      if (drawMode === 'circle' && points.length === 2) finish(circlePolygon(points[0], distance(points[0], points[1])));
+    };
+
+    const handleDoubleClick = () => {
+      if (drawMode === 'polygon' && points.length >= 3) {
+        finish({ type: 'Polygon', coordinates: [[...points, points[0]]] });
+      }
+    };
+
+    const handleMouseMove = (e: mapboxgl.MapMouseEvent) => {
+      setDraft(shapeTo([e.lngLat.lng, e.lngLat.lat]));
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setDrawMode(null);
+    };
+
+    map.on('click', handleClick);
+    map.on('dblclick', handleDoubleClick);
+    map.on('mousemove', handleMouseMove);
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      map.off('click', handleClick);
+      map.off('dblclick', handleDoubleClick);
+      map.off('mousemove', handleMouseMove);
+      window.removeEventListener('keydown', handleKeyDown);
+      canvas.style.cursor = '';
+      map.doubleClickZoom.enable();
+      setDraft(null);
+    };
+  }, [map, drawMode]);
+
+  // Recompute every zone when the zones, dataset or year change. `statsKey` marks
+  // those changes; the latest getZonalStats is read through a ref.
+  useEffect(() => {
+    if (!zones.length) {
+      setResults({});
+      return;
+    }
+
+    const controller = new AbortController();
+    setComputing(true);
+
+    Promise.all(zones.map(async zone => [zone.id, await getZonalStatsRef.current(zone, controller.signal)] as const))
+      .then(entries => {
+        setResults(Object.fromEntries(entries));
+        setError(null);
+      })
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('Error computing zonal statistics:', error);
+        setError('Could not compute zonal statistics');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setComputing(false);
+      });
+
+    return () => controller.abort();
+  }, [zones, statsKey, getZonalStatsRef]);
+
+  const compared = zones.filter(zone => !hiddenIds.includes(zone.id) && results[zone.id]);
+  const fields = compared.length ? results[compared[0].id].fields : [];
+  const activeSeriesField = fields.some(field => field.key === seriesField) ? seriesField : fields[0]?.key;
+  const hasSeries = compared.some(zone => results[zone.id].series?.length) && activeSeriesField;
+
+  // One row per year with a column per compared zone
+  const seriesData = hasSeries
+    ? Array.from(new Set(compared.flatMap(zone => results[zone.id].series?.map(point => point.year) ?? [])))
+        .sort((a, b) => a - b)
+        .map(year => ({
+          year,
+          ...Object.fromEntries(compared.map(zone => [
+            zone.id,
+            results[zone.id].series?.find(point => point.year === year)?.values[activeSeriesField]
+          ]))
+        }))
+    : [];
+
+  const toggleCompared = (id: string) => {
+    setHiddenIds(current => (current.includes(id) ? current.filter(hidden => hidden !== id) : [...current, id]));
+  };
+
+  const removeZone = (id: string) => {
+    setZones(current => current.filter(zone => zone.id !== id));
+  };
+
+  return (
+    <div className="absolute top-4 right-14 z-10 bg-white p-4 rounded-lg shadow-lg w-[30rem] max-h-[calc(100vh-8rem)] overflow-y-auto text-gray-800">
+      <h3 className="text-sm font-bold mb-2">Zonal Statistics</h3>
+
+      {/* Draw Tools */}
+      <div className="flex gap-2 mb-2">
+        {(Object.keys(SHAPE_HINTS) as ZoneShape[]).map(shape => (
+          <button
+            key={shape}
+            onClick={() => setDrawMode(drawMode === shape ? null : shape)}
+            disabled={!map}
+            className={`flex-1 text-xs px-2 py-1 rounded capitalize ${
+              drawMode === shape ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+            }`}
+          >
+            {shape}
+          </button>
+        ))}
+      </div>
+      {drawMode && (
+        <p className="text-xs text-blue-700 mb-2">{SHAPE_HINTS[drawMode]} (Esc to cancel)</p>
+      )}
+
+      {/* Zones */}
+      {zones.length === 0 ? (
+        <p className="text-xs text-gray-500">Draw a shape to see statistics for the pixels inside it.</p>
+      ) : (
+        <div className="space-y-1 mb-3">
+          {zones.map(zone => (
+            <div key={zone.id} className="flex items-center gap-2 text-xs">
+              <input
+                type="checkbox"
+                checked={!hiddenIds.includes(zone.id)}
+                onChange={() => toggleCompared(zone.id)}
+              />
+              <div className="w-3 h-3 rounded" style={{ backgroundColor: zoneColor(zones, zone.id) }}></div>
+              <span className="flex-1">{zone.name}</span>
+              <span className="text-gray-500">{zone.areaHa.toFixed(2)} ha</span>
+              <button onClick={() => removeZone(zone.id)} className="text-gray-400 hover:text-red-600">✕</button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {computing && <p className="text-xs text-gray-500 mb-2">Computing…</p>}
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+
+      {/* Side-by-side comparison */}
+      {compared.length > 0 && (
+        <div className="overflow-x-auto mb-3">
+          <table className="text-xs w-full">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-1 font-medium">Area-weighted</th>
+                {compared.map(zone => (
+                  <th key={zone.id} className="text-right p-1 font-medium" style={{ color: zoneColor(zones, zone.id) }}>
+                    {zone.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b">
+                <td className="p-1">Pixels</td>
+                {compared.map(zone => (
+                  <td key={zone.id} className="p-1 text-right">{results[zone.id].pixelCount}</td>
+                ))}
+              </tr>
+              <tr className="border-b">
+                <td className="p-1">Hectares</td>
+                {compared.map(zone => (
+                  <td key={zone.id} className="p-1 text-right">{results[zone.id].hectares.toFixed(2)}</td>
+                ))}
+              </tr>
+              {fields.map(field => (
+                <tr key={field.key} className="border-b align-top">
+                  <td className="p-1">{field.label}{field.unit ? ` (${field.unit})` : ''}</td>
+                  {compared.map(zone => {
+                    const summary = results[zone.id].metrics[field.key];
+                    return (
+                      <td key={zone.id} className="p-1 text-right">
+                        <div className="font-medium">{formatValue(summary?.mean)}</div>
+                        {summary && (
+                          <div className="text-gray-500">
+                            med {formatValue(summary.median)} · σ {formatValue(summary.std)}
+                            <br />
+                            {formatValue(summary.min)}–{formatValue(summary.max)}
+                          </div>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Per-year series */}
+      {hasSeries && seriesData.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <label className="text-xs font-medium">Yearly mean</label>
+            <select
+              value={activeSeriesField}
+              onChange={(e) => setSeriesField(e.target.value)}
+              className="text-xs p-1 bg-white border border-gray-300 rounded"
+            >
+              {fields.map(field => (
+                <option key={field.key} value={field.key}>{field.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={seriesData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="year" tick={{ fontSize: 10 }} />
+                <YAxis tick={{ fontSize: 10 }} />
+                <Tooltip formatter={(value: number) => value.toFixed(2)} />
+                <Legend wrapperStyle={{ fontSize: 10 }} />
+                {compared.map(zone => (
+                  <Line
+                    key={zone.id}
+                    type="monotone"
+                    dataKey={zone.id}
+                    name={zone.name}
+                    stroke={zoneColor(zones, zone.id)}
+                    strokeWidth={2}
+                    dot={{ r: 2 }}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ZonalStatsPanel;
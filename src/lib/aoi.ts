@@ -0,0 +1,126 @@
+import { kml } from '@tmcw/togeojson';
+import shp from 'shpjs';
+import type mapboxgl from 'mapbox-gl';
+import {
+  SQUARE_METRES_PER_HECTARE,
+  geometryArea,
+  geometryBBox,
+  isPolygonal,
+  pointInGeometry,
+  polygonCentre,
+  type BBox,
+  type PolygonalGeometry
+} from './geometry';
+
+// An area of interest: a named project boundary every dataset can be clipped to
+export interface AOI {
+  id: string;
+  name: string;
+  geometry: PolygonalGeometry;
+  bbox: BBox;
+  areaHa: number;
+}
+
+export const AOI_SOURCE_ID = 'aoi-boundary';
+export const AOI_LAYER_ID = 'aoi-outline';
+
+const NAME_PROPERTIES = ['name', 'Name', 'NAME', 'title', 'label'];
+
+const featureName = (feature: GeoJSON.Feature, fallback: string): string => {
+  const key = NAME_PROPERTIES.find(property => feature.properties?.[property]);
+  return key ? String(feature.properties![key]) : fallback;
+};
+
+const readFeatures = async (file: File): Promise<GeoJSON.Feature[]> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  switch (extension) {
+    case 'geojson':
+    case 'json': {
+      const json = JSON.parse(await file.text());
+      if (json.type === 'FeatureCollection') return json.features;
+      if (json.type === 'Feature') return [json];
+      return [{ type: 'Feature', properties: {}, geometry: json }];
+    }
+    case 'kml': {
+      const document = new DOMParser().parseFromString(await file.text(), 'text/xml');
+      return kml(document).features as GeoJSON.Feature[];
+    }
+    case 'zip': {
+      // shpjs reprojects to longitude/latitude using the .prj inside the archive
+      const collections = await shp(await file.arrayBuffer());
+      return (Array.isArray(collections) ? collections : [collections]).flatMap(collection => collection.features);
+    }
+    default:
+      throw new Error(`Unsupported boundary file ${file.name}; use GeoJSON, KML or a zipped Shapefile`);
+  }
+};
+
+// Every polygon in a boundary file becomes one AOI, named from its properties
+export const readAOIFile = async (file: File): Promise<AOI[]> => {
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  const polygons = (await readFeatures(file)).filter(feature => isPolygonal(feature.geometry));
+
+  if (!polygons.length) {
+    throw new Error(`No polygon boundaries found in ${file.name}`);
+  }
+
+  return polygons.map((feature, index) => {
+    const geometry = feature.geometry as PolygonalGeometry;
+    return {
+      id: `${baseName}_${Date.now()}_${index}`,
+      name: featureName(feature, polygons.length > 1 ? `${baseName} ${index + 1}` : baseName),
+      geometry,
+      bbox: geometryBBox(geometry),
+      areaHa: geometryArea(geometry) / SQUARE_METRES_PER_HECTARE
+    };
+  });
+};
+
+const inAOI = (point: [number, number], aoi: AOI): boolean => {
+  const [minX, minY, maxX, maxY] = aoi.bbox;
+  const [x, y] = point;
+  return x >= minX && x <= maxX && y >= minY && y <= maxY && pointInGeometry(point, aoi.geometry);
+};
+
+// Records whose pixel centre falls inside the AOI
+export const clipToAOI = <T extends { x: number; y: number }>(records: T[], aoi: AOI | null): T[] =>
+  aoi ? records.filter(record => inAOI([record.x, record.y], aoi)) : records;
+
+// Pixel features whose footprint centre falls inside the AOI
+export const clipFeaturesToAOI = (collection: GeoJSON.FeatureCollection, aoi: AOI | null): GeoJSON.FeatureCollection =>
+  aoi
+    ? {
+        ...collection,
+        features: collection.features.filter(feature =>
+          feature.geometry.type === 'Polygon' && inAOI(polygonCentre(feature.geometry), aoi)
+        )
+      }
+    : collection;
+
+// Draw the AOI outline above the dataset layers, or remove it when none is selected
+export const showAOIOnMap = (map: mapboxgl.Map, aoi: AOI | null) => {
+  if (map.getLayer(AOI_LAYER_ID)) map.removeLayer(AOI_LAYER_ID);
+  if (map.getSource(AOI_SOURCE_ID)) map.removeSource(AOI_SOURCE_ID);
+  if (!aoi) return;
+
+  map.addSource(AOI_SOURCE_ID, {
+    type: 'geojson',
+    data: { type: 'Feature', properties: { name: aoi.name }, geometry: aoi.geometry }
+  });
+  map.addLayer({
+    id: AOI_LAYER_ID,
+    type: 'line',
+    source: AOI_SOURCE_ID,
+    paint: {
+      'line-color': '#facc15',
+      'line-width': 2.5,
+      'line-dasharray': [2, 1]
+    }
+  });
+};
+
+// Keep the outline on top after dataset layers are re-added
+export const raiseAOILayer = (map: mapboxgl.Map) => {
+  if (map.getLayer(AOI_LAYER_ID)) map.moveLayer(AOI_LAYER_ID);
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { CO2_PER_CARBON, KANOP_CARBON, carbonAccount } from './carbonAccounting';
+import { parseCSV, parseMangaroaRows } from './datasets';
+import { SQUARE_METRES_PER_HECTARE, geometryArea } from './geometry';
+
+const parse = (csv: string) => parseMangaroaRows(parseCSV(csv));
+
+describe('KANOP_CARBON', () => {
+  it('reads the CO₂e column when it has a value', () => {
+    const [record] = parse('x,y,year,living_biomass_carbon_stock,living_biomass_co2_eq\n175.1,-41.1,2020,40,150');
+    expect(KANOP_CARBON.co2e(record)).toBe(150);
+  });
+
+  it('falls back to carbon × 44/12 for a blank CO₂e cell', () => {
+    const [record] = parse('x,y,year,living_biomass_carbon_stock,living_biomass_co2_eq\n175.1,-41.1,2020,40,');
+    expect(KANOP_CARBON.co2e(record)).toBeCloseTo(40 * CO2_PER_CARBON);
+  });
+});
+
+describe('carbonAccount', () => {
+  it('multiplies t/ha densities by pixel area in hectares', () => {
+    const records = parse(
+      'x,y,year,living_biomass_carbon_stock,living_biomass_co2_eq\n175.1,-41.1,2020,40,150\n175.1,-41.1,2021,50,'
+    );
+    const areaHa = geometryArea(records[0].footprint) / SQUARE_METRES_PER_HECTARE;
+    const account = carbonAccount(records, KANOP_CARBON);
+
+    expect(account.areaHa).toBeCloseTo(areaHa);
+    expect(account.years[0]).toMatchObject({ year: 2020, pixelCount: 1, netRemovalsT: null });
+    expect(account.years[0].carbonT).toBeCloseTo(40 * areaHa);
+    expect(account.years[0].co2eT).toBeCloseTo(150 * areaHa);
+    expect(account.years[1].co2eT).toBeCloseTo(50 * CO2_PER_CARBON * areaHa);
+    expect(account.years[1].netRemovalsT).toBeCloseTo((50 * CO2_PER_CARBON - 150) * areaHa);
+  });
+});
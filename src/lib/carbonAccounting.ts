@@ -0,0 +1,104 @@
+import type { DatasetKey, MangaroaDataPoint } from './datasets';
+import type { PolygonalGeometry } from './geometry';
+import type { UploadedDataset, UploadedDataPoint } from './uploadedDatasets';
+import { pixelCoverage, type ZonalRecord } from './zonalStats';
+
+// Molar mass ratio of CO₂ to carbon, used when a CO₂e density is not available
+export const CO2_PER_CARBON = 44 / 12;
+
+// How to read per-pixel densities (t/ha) from a record
+export interface CarbonDensity<T> {
+  carbon: (record: T) => number;
+  co2e: (record: T) => number;
+}
+
+export interface CarbonYear {
+  year: number;
+  pixelCount: number;
+  carbonT: number;
+  co2eT: number;
+  // Yearly change in the CO₂e stock since the previous year on record; positive
+  // values are removals
+  netRemovalsT: number | null;
+  // Change in the CO₂e stock since the baseline year
+  cumulativeT: number;
+}
+
+export interface CarbonAccount {
+  baselineYear: number;
+  areaHa: number;
+  years: CarbonYear[];
+}
+
+// Kanop densities; the CO₂e column falls back to carbon × 44/12 when it is missing
+export const KANOP_CARBON: CarbonDensity<MangaroaDataPoint> = {
+  carbon: record => record.carbon_stock,
+  co2e: record => (Number.isFinite(record.co2_eq) ? record.co2_eq : record.carbon_stock * CO2_PER_CARBON)
+};
+
+// Built-in datasets that carry carbon densities
+export const CARBON_DATASETS: Partial<Record<DatasetKey, CarbonDensity<MangaroaDataPoint>>> = {
+  mangaroa: KANOP_CARBON
+};
+
+export const hasCarbonDensities = (datasetKey: string): datasetKey is 'mangaroa' => Object.hasOwn(CARBON_DATASETS, datasetKey);
+
+// Uploads carry carbon when a column was mapped to the Kanop carbon stock metric
+export const UPLOADED_CARBON: CarbonDensity<UploadedDataPoint> = {
+  carbon: record => record.values.carbon_stock,
+  co2e: record => record.values.co2_eq ?? record.values.carbon_stock * CO2_PER_CARBON
+};
+
+export const uploadHasCarbon = (dataset: UploadedDataset) =>
+  dataset.metrics.some(metric => metric.key === 'carbon_stock') && dataset.years.length > 0;
+
+// Per-year carbon and CO₂e totals in tonnes: each pixel's density times its real
+// area, counting only the share of the pixel inside `zone` when one is given
+export const carbonAccount = <T extends ZonalRecord>(
+  records: T[],
+  density: CarbonDensity<T>,
+  { zone, baselineYear }: { zone?: PolygonalGeometry; baselineYear?: number } = {}
+): CarbonAccount => {
+  const coverageOf = pixelCoverage(zone);
+  const totals = new Map<number, { pixelCount: number; carbonT: number; co2eT: number }>();
+  const pixelAreas = new Map<number, number>();
+
+  records.forEach(record => {
+    if (typeof record.year !== 'number') return;
+    const { weight, areaHa } = coverageOf(record);
+    if (!weight) return;
+
+    const pixelHa = weight * areaHa;
+    const carbon = density.carbon(record);
+    const co2e = density.co2e(record);
+    if (!Number.isFinite(carbon) || !Number.isFinite(co2e)) return;
+
+    const total = totals.get(record.year) ?? { pixelCount: 0, carbonT: 0, co2eT: 0 };
+    total.pixelCount++;
+    total.carbonT += carbon * pixelHa;
+    total.co2eT += co2e * pixelHa;
+    totals.set(record.year, total);
+    pixelAreas.set(record.pixel_id, pixelHa);
+  });
+
+  const years = Array.from(totals.keys()).sort((a, b) => a - b);
+  const baseline = baselineYear !== undefined && totals.has(baselineYear) ? baselineYear : years[0];
+  const baselineCO2e = totals.get(baseline)?.co2eT ?? 0;
+
+  return {
+    baselineYear: baseline,
+    areaHa: Array.from(pixelAreas.values()).reduce((a, b) => a + b, 0),
+    years: years.map((year, i) => {
+      const { pixelCount, carbonT, co2eT } = totals.get(year)!;
+      const previousYear = years[i - 1];
+      return {
+        year,
+        pixelCount,
+        carbonT,
+        co2eT,
+        netRemovalsT: i === 0 ? null : (co2eT - totals.get(previousYear)!.co2eT) / (year - previousYear),
+        cumulativeT: co2eT - baselineCO2e
+      };
+    })
+  };
+};
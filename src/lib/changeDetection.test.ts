@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { computeChange, periodLabel } from './changeDetection';
+
+interface Row {
+  pixel_id: number;
+  year: number;
+  value: number;
+}
+
+const row = (pixel_id: number, year: number, value: number): Row => ({ pixel_id, year, value });
+const change = (records: Row[], before = { start: 2013, end: 2015 }, after = { start: 2022, end: 2024 }) =>
+  computeChange(records, record => record.value, before, after);
+
+describe('periodLabel', () => {
+  it('shows a single year or a range', () => {
+    expect(periodLabel({ start: 2020, end: 2020 })).toBe('2020');
+    expect(periodLabel({ start: 2013, end: 2015 })).toBe('2013–2015');
+  });
+});
+
+describe('computeChange', () => {
+  it('averages each period per pixel before comparing', () => {
+    const [result] = change([
+      row(0, 2013, 10), row(0, 2014, 20), row(0, 2015, 30),
+      row(0, 2018, 99),
+      row(0, 2022, 40), row(0, 2023, 50), row(0, 2024, 60)
+    ]);
+
+    expect(result).toMatchObject({ pixel_id: 0, before: 20, after: 50, absolute: 30, percent: 150, status: 'ok' });
+  });
+
+  it('leaves blank years out of a period mean', () => {
+    const [result] = change([row(0, 2013, 10), row(0, 2014, NaN), row(0, 2022, 5)]);
+
+    expect(result).toMatchObject({ before: 10, after: 5, absolute: -5, percent: -50 });
+  });
+
+  it('compares single years', () => {
+    const [result] = change([row(0, 2019, 4), row(0, 2020, 6)], { start: 2019, end: 2019 }, { start: 2020, end: 2020 });
+
+    expect(result).toMatchObject({ before: 4, after: 6, absolute: 2, percent: 50 });
+  });
+
+  it('flags pixels missing from either period instead of counting them as 0', () => {
+    const results = change([
+      row(0, 2013, 10),
+      row(1, 2023, 12),
+      row(2, 2014, NaN), row(2, 2023, NaN)
+    ]);
+
+    expect(results.map(({ pixel_id, before, after, absolute, percent, status }) => ({ pixel_id, before, after, absolute, percent, status })))
+      .toEqual([
+        { pixel_id: 0, before: 10, after: null, absolute: null, percent: null, status: 'missing_after' },
+        { pixel_id: 1, before: null, after: 12, absolute: null, percent: null, status: 'missing_before' },
+        { pixel_id: 2, before: null, after: null, absolute: null, percent: null, status: 'missing_both' }
+      ]);
+  });
+
+  it('has no percent change from a before value of 0', () => {
+    const [result] = change([row(0, 2013, 0), row(0, 2022, 3)]);
+
+    expect(result).toMatchObject({ absolute: 3, percent: null, status: 'ok' });
+  });
+
+  it('skips pixels recorded only outside both periods and keeps the latest record', () => {
+    const records = [row(0, 2018, 5), row(1, 2013, 1), row(1, 2024, 2), row(1, 2022, 3)];
+    const results = change(records);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].record).toBe(records[2]);
+    expect(results[0].after).toBe(2.5);
+  });
+});
@@ -0,0 +1,104 @@
+// Change between two periods of a time-series dataset. A period is one year or a
+// window of years averaged per pixel.
+
+export interface ChangePeriod {
+  start: number;
+  end: number;
+}
+
+export type ChangeStatus = 'ok' | 'missing_before' | 'missing_after' | 'missing_both';
+
+export interface PixelChange<T> {
+  pixel_id: number;
+  // The latest record of the pixel, for its footprint and other properties
+  record: T;
+  before: number | null;
+  after: number | null;
+  absolute: number | null;
+  // Null when the before value is 0
+  percent: number | null;
+  status: ChangeStatus;
+}
+
+export type ChangeDisplay = 'absolute' | 'percent';
+
+export const MISSING_CHANGE_COLOR = '#9e9e9e';
+
+// Percent change ramp, sharing the diverging colours of the metric change ramps
+export const PERCENT_CHANGE_SCALE = [
+  { value: -50, color: '#d73027' },
+  { value: -25, color: '#fc8d59' },
+  { value: 0, color: '#ffffbf' },
+  { value: 25, color: '#91bfdb' },
+  { value: 50, color: '#4575b4' }
+];
+
+export const CHANGE_STATUS_LABELS: Record<Exclude<ChangeStatus, 'ok'>, string> = {
+  missing_before: 'No data in the before period',
+  missing_after: 'No data in the after period',
+  missing_both: 'No data in either period'
+};
+
+export const periodLabel = ({ start, end }: ChangePeriod) => (start === end ? `${start}` : `${start}–${end}`);
+
+export const periodContains = ({ start, end }: ChangePeriod, year: number) => year >= start && year <= end;
+
+// Mean value per pixel over the years of a period. Pixels without a valid value
+// in any of those years are left out rather than counted as 0.
+const periodMeans = <T extends { pixel_id: number; year: number }>(
+  records: T[],
+  value: (record: T) => number,
+  period: ChangePeriod
+) => {
+  const sums = new Map<number, { total: number; count: number }>();
+  records.forEach(record => {
+    const v = value(record);
+    if (!periodContains(period, record.year) || !Number.isFinite(v)) return;
+    const sum = sums.get(record.pixel_id) ?? { total: 0, count: 0 };
+    sum.total += v;
+    sum.count++;
+    sums.set(record.pixel_id, sum);
+  });
+  return new Map(Array.from(sums, ([pixelId, { total, count }]) => [pixelId, total / count]));
+};
+
+const statusOf = (before: number | null, after: number | null): ChangeStatus => {
+  if (before === null && after === null) return 'missing_both';
+  if (before === null) return 'missing_before';
+  if (after === null) return 'missing_after';
+  return 'ok';
+};
+
+// Absolute and percent change per pixel from `before` to `after`, for every pixel
+// recorded in either period. Pixels missing from a period are flagged by `status`.
+export const computeChange = <T extends { pixel_id: number; year: number }>(
+  records: T[],
+  value: (record: T) => number,
+  before: ChangePeriod,
+  after: ChangePeriod
+): PixelChange<T>[] => {
+  const beforeMeans = periodMeans(records, value, before);
+  const afterMeans = periodMeans(records, value, after);
+
+  const latest = new Map<number, T>();
+  records.forEach(record => {
+    if (!periodContains(before, record.year) && !periodContains(after, record.year)) return;
+    const current = latest.get(record.pixel_id);
+    if (!current || record.year > current.year) latest.set(record.pixel_id, record);
+  });
+
+  return Array.from(latest, ([pixelId, record]) => {
+    const beforeValue = beforeMeans.get(pixelId) ?? null;
+    const afterValue = afterMeans.get(pixelId) ?? null;
+    const absolute = beforeValue === null || afterValue === null ? null : afterValue - beforeValue;
+    return {
+      pixel_id: pixelId,
+      record,
+      before: beforeValue,
+      after: afterValue,
+      absolute,
+      percent: absolute === null || !beforeValue ? null : (absolute / Math.abs(beforeValue)) * 100,
+      status: statusOf(beforeValue, afterValue)
+    };
+  });
+};
@@ -0,0 +1,156 @@
+import type { CarbonAccount } from './carbonAccounting';
+import { getCachedResponse, hashContent, putCachedResponse, type CachedResponse } from './datasetCache';
+import type { DatasetKey } from './datasets';
+import type { DataStats } from './datasetQueries';
+import type { ForestAgreement } from './forestAgreement';
+import type { ForestDefinition, ForestDefinitionResult } from './forestDefinition';
+import type { PolygonalGeometry } from './geometry';
+import type { TransitionAnalysis } from './ioTransitions';
+import type { ZonalResult } from './zonalStats';
+
+interface SliceOptions {
+  year?: number;
+  signal?: AbortSignal;
+}
+
+const requestJSON = async <T>(url: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `Request failed: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+// The cache is an optimisation only: any IndexedDB failure falls back to the network
+const readCache = async (url: string): Promise<CachedResponse | undefined> => {
+  if (typeof indexedDB === 'undefined') return undefined;
+  try {
+    return await getCachedResponse(url);
+  } catch (error) {
+    console.warn('Dataset cache unavailable:', error);
+    return undefined;
+  }
+};
+
+const writeCache = async (entry: Omit<CachedResponse, 'schemaVersion' | 'cachedAt'>) => {
+  if (typeof indexedDB === 'undefined') return;
+  try {
+    await putCachedResponse(entry);
+  } catch (error) {
+    console.warn('Failed to cache dataset response:', error);
+  }
+};
+
+// GET a dataset route through the IndexedDB cache. The cached ETag is sent back as
+// If-None-Match, so an unchanged dataset costs a 304 instead of the whole body;
+// without an ETag, an unchanged body (by hash) reuses the parsed copy.
+const getCachedJSON = async <T>(url: string, signal?: AbortSignal): Promise<T> => {
+  const cached = await readCache(url);
+  const response = await fetch(url, {
+    signal,
+    headers: cached?.etag ? { 'If-None-Match': cached.etag } : undefined
+  });
+
+  if (response.status === 304 && cached) return cached.body as T;
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `Request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const text = await response.text();
+  const hash = await hashContent(text);
+  const etag = response.headers.get('ETag');
+  if (cached && cached.hash === hash) {
+    if (cached.etag !== etag) await writeCache({ ...cached, etag });
+    return cached.body as T;
+  }
+
+  const body: T = JSON.parse(text);
+  await writeCache({ url, etag, hash, body });
+  return body;
+};
+
+const sliceQuery = (year?: number) => (year !== undefined ? `?year=${year}` : '');
+
+// Pre-processed pixel footprints for one year of a dataset, from /api/datasets/[key]/pixels
+export const fetchDatasetPixels = (datasetKey: DatasetKey, { year, signal }: SliceOptions = {}) =>
+  getCachedJSON<GeoJSON.FeatureCollection>(`/api/datasets/${datasetKey}/pixels${sliceQuery(year)}`, signal);
+
+// Summary statistics for a dataset, from /api/datasets/[key]/stats
+export const fetchDatasetStats = (datasetKey: DatasetKey, { year, signal }: SliceOptions = {}) =>
+  getCachedJSON<DataStats>(`/api/datasets/${datasetKey}/stats${sliceQuery(year)}`, signal);
+
+// Area-weighted statistics for a zone, from POST /api/datasets/[key]/zonal
+export const fetchZonalStats = (
+  datasetKey: DatasetKey,
+  geometry: PolygonalGeometry,
+  { year, signal }: SliceOptions = {}
+) =>
+  requestJSON<ZonalResult>(`/api/datasets/${datasetKey}/zonal`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ geometry, year }),
+    signal
+  });
+
+// Carbon and CO₂e totals per year, from POST /api/datasets/[key]/carbon
+export const fetchCarbonAccount = (
+  datasetKey: DatasetKey,
+  { geometry, baselineYear, signal }: { geometry?: PolygonalGeometry; baselineYear?: number; signal?: AbortSignal } = {}
+) =>
+  requestJSON<CarbonAccount>(`/api/datasets/${datasetKey}/carbon`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ geometry, baselineYear }),
+    signal
+  });
+
+// IO-9 class transitions between two years and across all years, plus class areas, from
+// POST /api/datasets/io_class/transitions
+export const fetchLandCoverTransitions = (
+  { geometry, fromYear, toYear, signal }: {
+    geometry?: PolygonalGeometry;
+    fromYear?: number;
+    toYear?: number;
+    signal?: AbortSignal;
+  } = {}
+) =>
+  requestJSON<TransitionAnalysis>('/api/datasets/io_class/transitions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ geometry, fromYear, toYear }),
+    signal
+  });
+
+// Forest agreement across every dataset on a common grid, from POST /api/agreement
+export const fetchForestAgreement = (
+  { geometry, year, gladThreshold, cellSize, signal }: {
+    geometry?: PolygonalGeometry;
+    year?: number;
+    gladThreshold?: number;
+    cellSize?: number;
+    signal?: AbortSignal;
+  } = {}
+) =>
+  requestJSON<ForestAgreement>('/api/agreement', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ geometry, year, gladThreshold, cellSize }),
+    signal
+  });
+
+// A forest definition applied to a dataset, from POST /api/datasets/[key]/forest
+export const fetchForestDefinition = (
+  datasetKey: DatasetKey,
+  definition: ForestDefinition,
+  { geometry, year, signal }: { geometry?: PolygonalGeometry; year?: number; signal?: AbortSignal } = {}
+) =>
+  requestJSON<ForestDefinitionResult>(`/api/datasets/${datasetKey}/forest`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ geometry, year, ...definition }),
+    signal
+  });
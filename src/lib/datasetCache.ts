@@ -0,0 +1,74 @@
+const DB_NAME = 'mangaroa-datasets';
+const STORE_NAME = 'responses';
+
+// Bump whenever the shape of the cached route responses changes, so entries
+// stored by an older build are fetched again instead of served.
+const CACHE_SCHEMA_VERSION = 2;
+
+// A dataset route response, keyed by its URL (which includes the year slice)
+export interface CachedResponse {
+  url: string;
+  etag: string | null;
+  hash: string;
+  schemaVersion: number;
+  cachedAt: number;
+  body: unknown;
+}
+
+const openCache = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, CACHE_SCHEMA_VERSION);
+    // Older versions held parsed CSV records under a different store
+    request.onupgradeneeded = () => {
+      Array.from(request.result.objectStoreNames).forEach(name => request.result.deleteObjectStore(name));
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'url' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openCache();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+// Cached response for a URL, or undefined when missing or from an older schema
+export const getCachedResponse = async (url: string): Promise<CachedResponse | undefined> => {
+  const entry = await runTransaction<CachedResponse | undefined>('readonly', store => store.get(url));
+  return entry?.schemaVersion === CACHE_SCHEMA_VERSION ? entry : undefined;
+};
+
+export const putCachedResponse = async (entry: Omit<CachedResponse, 'schemaVersion' | 'cachedAt'>): Promise<void> => {
+  await runTransaction('readwrite', store => store.put({
+    ...entry,
+    schemaVersion: CACHE_SCHEMA_VERSION,
+    cachedAt: Date.now()
+  }));
+};
+
+export const clearDatasetCache = async (): Promise<void> => {
+  await runTransaction('readwrite', store => store.clear());
+};
+
+// Content hash used to detect a changed response when the server sends no ETag
+export const hashContent = async (content: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
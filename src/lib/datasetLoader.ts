@@ -0,0 +1,76 @@
+import { fetchDatasetPixels } from './datasetApi';
+import { fromFeatureCollection } from './datasetQueries';
+import type { DataPointByDataset, DatasetKey } from './datasets';
+import type { UploadWorkerMessage, UploadWorkerRequest, UploadWorkerResults } from './upload.worker';
+import type { UploadProgress } from './uploadedDatasets';
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Records of a dataset, parsed on the server and rebuilt from the pixels route:
+// one year with `year`, otherwise every record. Only views that analyse the whole
+// time series (change, trends, per-pixel charts, the timeline) load every record.
+export const loadDatasetRecords = async <K extends DatasetKey>(
+  datasetKey: K,
+  { year, signal }: { year?: number; signal?: AbortSignal } = {}
+): Promise<DataPointByDataset[K][]> =>
+  fromFeatureCollection<DataPointByDataset[K]>(await fetchDatasetPixels(datasetKey, { year, signal }));
+
+interface UploadParseOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Parse or decode an uploaded file in a Web Worker so the UI thread stays responsive.
+// Aborting the signal terminates the worker and rejects with an AbortError.
+export const parseUploadInWorker = <R extends UploadWorkerRequest>(
+  request: R,
+  { onProgress, signal }: UploadParseOptions = {}
+): Promise<UploadWorkerResults[R['type']]> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Upload parse aborted', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('./upload.worker.ts', import.meta.url));
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(new DOMException('Upload parse aborted', 'AbortError'));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<UploadWorkerMessage>) => {
+      const message = event.data;
+
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'done':
+          cleanup();
+          resolve(message.result as UploadWorkerResults[R['type']]);
+          break;
+        case 'error':
+          cleanup();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      cleanup();
+      reject(new Error(event.message || 'Upload worker failed'));
+    };
+
+    // A raster's bytes are handed over rather than copied
+    worker.postMessage(request, request.type === 'geotiff' ? [request.content] : []);
+  });
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { parseCSV, parseJRCCoverRows, parseMangaroaRows } from './datasets';
+import { fromFeatureCollection, toFeatureCollection } from './datasetQueries';
+
+describe('fromFeatureCollection', () => {
+  it('rebuilds the records a feature collection was made from', () => {
+    const mangaroa = parseMangaroaRows(parseCSV(
+      'x,y,year,canopy_cover,forest_cover,living_biomass_carbon_stock\n175.1,-41.1,2020,35,True,40\n175.1,-41.1,2021,38,True,42'
+    ));
+    const jrc = parseJRCCoverRows(parseCSV('x,y,forest_cover_2020\n175.1,-41.1,1'));
+
+    // JSON round trip, as the records arrive from the pixels route
+    const roundTrip = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+    expect(fromFeatureCollection(roundTrip(toFeatureCollection(mangaroa)))).toEqual(mangaroa);
+    expect(fromFeatureCollection(roundTrip(toFeatureCollection(jrc)))).toEqual(jrc);
+  });
+
+  it('reads blank Kanop metrics back as NaN', () => {
+    const mangaroa = parseMangaroaRows(parseCSV('x,y,year,canopy_cover,tree_height\n175.1,-41.1,2020,35,'));
+    const collection = JSON.parse(JSON.stringify(toFeatureCollection(mangaroa)));
+
+    expect(collection.features[0].properties.tree_height).toBeNull();
+    expect(fromFeatureCollection(collection)[0]).toMatchObject({ canopy_cover: 35, tree_height: NaN });
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  DATASETS,
+  MANGAROA_COLUMNS,
+  checkMetricRanges,
+  type DataPoint,
+  type DatasetKey,
+  type MangaroaDataPoint,
+  type MangaroaMetric,
+  type MetricRangeViolation
+} from './datasets';
+
+export interface DataStats {
+  totalRecords: number;
+  uniquePixels: number;
+  yearRange?: [number, number];
+  canopyRange?: [number, number];
+  avgCanopy?: number;
+  datasetType: string;
+  yearlyAverages?: Partial<Record<MangaroaMetric, { year: number; value: number }[]>>;
+  // Kanop metrics with values outside their declared range
+  rangeViolations?: MetricRangeViolation[];
+}
+
+export const isDatasetKey = (key: string): key is DatasetKey => Object.hasOwn(DATASETS, key);
+
+const minMax = (values: number[]): [number, number] => [
+  values.reduce((a, b) => Math.min(a, b)),
+  values.reduce((a, b) => Math.max(a, b))
+];
+
+// Records for one year of a time-series dataset; datasets without years are returned whole
+export const filterByYear = <T extends DataPoint>(records: T[], year?: number): T[] => {
+  if (year === undefined) return records;
+  return records.filter(d => !('year' in d) || d.year === year);
+};
+
+// Closest year on record to the one asked for
+export const nearestYear = (years: readonly number[], year: number) =>
+  years.reduce((best, candidate) => (Math.abs(candidate - year) < Math.abs(best - year) ? candidate : best), years[0]);
+
+// GeoJSON feature for a record: its footprint, with every scalar field as a property
+export const toFeature = (record: DataPoint): GeoJSON.Feature => {
+  const { footprint, coordinates, ...properties } = record;
+
+  return {
+    type: 'Feature',
+    properties,
+    geometry: footprint
+  };
+};
+
+export const toFeatureCollection = (records: DataPoint[]): GeoJSON.FeatureCollection => ({
+  type: 'FeatureCollection',
+  features: records.map(toFeature)
+});
+
+// JSON carries a blank Kanop metric (NaN) as null; read it back as NaN
+const restoreMissingMetrics = (properties: GeoJSON.GeoJsonProperties) => {
+  if (properties?.dataset !== 'mangaroa') return properties;
+  const restored = { ...properties };
+  (Object.keys(MANGAROA_COLUMNS) as MangaroaMetric[]).forEach(metric => {
+    if (restored[metric] === null) restored[metric] = NaN;
+  });
+  return restored;
+};
+
+// Records back from a collection built by toFeatureCollection
+export const fromFeatureCollection = <T extends DataPoint>(collection: GeoJSON.FeatureCollection): T[] =>
+  collection.features.map(({ properties, geometry }) => ({
+    ...restoreMissingMetrics(properties),
+    coordinates: [properties?.x, properties?.y],
+    footprint: geometry
+  }) as T);
+
+// Mean of a Kanop metric per year, sorted by year. Pixels without a value are skipped.
+export const yearlyAverages = (records: MangaroaDataPoint[], metric: MangaroaMetric) => {
+  const yearlyData = new Map<number, { sum: number; count: number }>();
+
+  records.forEach(point => {
+    if (!Number.isFinite(point[metric])) return;
+    const current = yearlyData.get(point.year) ?? { sum: 0, count: 0 };
+    current.sum += point[metric];
+    current.count += 1;
+    yearlyData.set(point.year, current);
+  });
+
+  return Array.from(yearlyData.entries())
+    .map(([year, data]) => ({ year, value: data.sum / data.count }))
+    .sort((a, b) => a.year - b.year);
+};
+
+// Every yearly record of one pixel, oldest first
+export const pixelTimeSeries = (records: MangaroaDataPoint[], pixelId: number) =>
+  records.filter(point => point.pixel_id === pixelId).sort((a, b) => a.year - b.year);
+
+export const computeDatasetStats = (datasetKey: DatasetKey, records: DataPoint[]): DataStats => {
+  const stats: DataStats = {
+    totalRecords: records.length,
+    uniquePixels: new Set(records.map(d => d.pixel_id)).size,
+    datasetType: DATASETS[datasetKey].type
+  };
+
+  const yearlyRecords = records.filter((d): d is DataPoint & { year: number } => 'year' in d);
+  if (yearlyRecords.length) {
+    stats.yearRange = minMax(yearlyRecords.map(d => d.year));
+  }
+
+  // Add time-series specific stats for Mangaroa data
+  if (datasetKey === 'mangaroa' && records.length) {
+    const mangaroaData = records as MangaroaDataPoint[];
+    const canopyValues = mangaroaData.map(d => d.canopy_cover).filter(v => Number.isFinite(v));
+
+    stats.canopyRange = minMax(canopyValues);
+    stats.avgCanopy = canopyValues.reduce((a, b) => a + b, 0) / canopyValues.length;
+    stats.yearlyAverages = Object.fromEntries(
+      (Object.keys(MANGAROA_COLUMNS) as MangaroaMetric[]).map(metric => [metric, yearlyAverages(mangaroaData, metric)])
+    );
+    stats.rangeViolations = checkMetricRanges(mangaroaData);
+  }
+
+  return stats;
+};
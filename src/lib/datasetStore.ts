@@ -0,0 +1,40 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DATASETS, parseDataset, type DataPointByDataset, type DatasetKey } from './datasets';
+import { isGeoTIFF, parseGeoTIFFDataset, readGeoTIFF, yearFromFileName } from './geotiff';
+
+// Server-side only: reads datasets straight from public/data and keeps the
+// parsed records in memory until the file's modification time changes.
+const cache = new Map<DatasetKey, { mtimeMs: number; records: DataPointByDataset[DatasetKey][] }>();
+
+const readArrayBuffer = async (filePath: string): Promise<ArrayBuffer> => {
+  const buffer = await fs.readFile(filePath);
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+};
+
+// Bump when parsing or the route responses change for an unchanged file, so
+// browsers holding a cached response fetch it again
+const RESPONSE_VERSION = 1;
+
+// ETag for responses built from a dataset: changes whenever its file does
+export const datasetETag = async (datasetKey: DatasetKey): Promise<string> => {
+  const { mtimeMs, size } = await fs.stat(path.join(process.cwd(), 'public', DATASETS[datasetKey].file));
+  return `"${datasetKey}-${RESPONSE_VERSION}-${Math.round(mtimeMs).toString(36)}-${size.toString(36)}"`;
+};
+
+export const readDataset = async <K extends DatasetKey>(datasetKey: K): Promise<DataPointByDataset[K][]> => {
+  const filePath = path.join(process.cwd(), 'public', DATASETS[datasetKey].file);
+  const { mtimeMs } = await fs.stat(filePath);
+
+  const cached = cache.get(datasetKey);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.records as DataPointByDataset[K][];
+  }
+
+  const { file } = DATASETS[datasetKey];
+  const records = isGeoTIFF(file)
+    ? parseGeoTIFFDataset(datasetKey, await readGeoTIFF(await readArrayBuffer(filePath)), { year: yearFromFileName(file) })
+    : parseDataset(datasetKey, await fs.readFile(filePath, 'utf8'));
+  cache.set(datasetKey, { mtimeMs, records });
+  return records;
+};
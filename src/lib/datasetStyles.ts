@@ -0,0 +1,217 @@
+import type mapboxgl from 'mapbox-gl';
+import type { DatasetKey, MangaroaMetric } from './datasets';
+import type { LossYearView } from './gladLoss';
+import { IO_CLASSES, IO_CLASS_CODES, UNKNOWN_IO_CLASS_COLOR } from './ioClasses';
+import { METRICS } from './metrics';
+import { TREND_COLORS, TREND_LABELS, type TrendDirection } from './trends';
+import { uploadedColorScale, type UploadedDataset } from './uploadedDatasets';
+
+export interface LegendItem {
+  color: string;
+  label: string;
+}
+
+// Alternative ramps for continuous metrics; `colors: null` keeps the metric's own scale
+export const COLOR_RAMPS = {
+  default: { label: 'Metric default', colors: null },
+  viridis: { label: 'Viridis', colors: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'] },
+  magma: { label: 'Magma', colors: ['#000004', '#51127c', '#b73779', '#fc8961', '#fcfdbf'] },
+  greys: { label: 'Greys', colors: ['#f7f7f7', '#cccccc', '#969696', '#636363', '#252525'] }
+} as const;
+
+export type ColorRampKey = keyof typeof COLOR_RAMPS;
+
+export interface DatasetStyleOptions {
+  // Kanop metric drawn for Mangaroa pixels
+  metric?: MangaroaMetric;
+  ramp?: ColorRampKey;
+  // IO-9: highlight pixels whose class changed rather than the class itself
+  temporalChange?: boolean;
+  // GLAD: colour pixels by the year they were lost rather than gain/loss/no change
+  lossYears?: LossYearView;
+}
+
+// Sequential (yellow to dark red) ramp for GLAD loss years
+const LOSS_YEAR_RAMP = ['#ffffb2', '#fecc5c', '#fd8d3c', '#f03b20', '#bd0026'];
+const LOSS_HIGHLIGHT_COLOR = '#2563eb';
+const NO_LOSS_COLOR = '#e5e5e5';
+
+// The loss-year ramp spread over the selected years
+const lossYearColorScale = ([from, to]: [number, number]) =>
+  from === to
+    ? [{ value: to, color: LOSS_YEAR_RAMP[LOSS_YEAR_RAMP.length - 1] }]
+    : LOSS_YEAR_RAMP.map((color, i) => ({ value: from + ((to - from) * i) / (LOSS_YEAR_RAMP.length - 1), color }));
+
+// A metric's scale re-coloured with another ramp, spread evenly over the same range
+export const rampedColorScale = (metric: MangaroaMetric, ramp: ColorRampKey = 'default') => {
+  const scale = METRICS[metric].colorScale;
+  const colors = COLOR_RAMPS[ramp].colors;
+  if (!colors) return scale;
+
+  const min = scale[0].value;
+  const max = scale[scale.length - 1].value;
+  return colors.map((color, i) => ({ value: min + ((max - min) * i) / (colors.length - 1), color }));
+};
+
+// Fill colour expression for a built-in dataset's pixel features
+export const datasetFillColor = (
+  dataset: DatasetKey,
+  { metric = 'canopy_cover', ramp = 'default', temporalChange = false, lossYears }: DatasetStyleOptions = {}
+): mapboxgl.Expression => {
+  switch (dataset) {
+    case 'mangaroa':
+      // Blank Kanop cells arrive as null and are drawn grey
+      return [
+        'case',
+        ['==', ['typeof', ['get', metric]], 'number'],
+        [
+          'interpolate',
+          ['linear'],
+          ['get', metric],
+          ...rampedColorScale(metric, ramp).flatMap(scale => [scale.value, scale.color])
+        ],
+        '#cccccc'
+      ] as mapboxgl.Expression;
+    case 'glad':
+      if (lossYears) {
+        return [
+          'case',
+          ['==', ['get', 'forest_loss_year'], null], NO_LOSS_COLOR,
+          ['==', ['get', 'forest_loss_year'], lossYears.highlight ?? -1], LOSS_HIGHLIGHT_COLOR,
+          [
+            'interpolate',
+            ['linear'],
+            ['get', 'forest_loss_year'],
+            ...lossYearColorScale(lossYears.range).flatMap(scale => [scale.value, scale.color])
+          ]
+        ] as mapboxgl.Expression;
+      }
+      return [
+        'case',
+        ['get', 'has_forest_gain'], '#4575b4',
+        ['!=', ['get', 'forest_loss_year'], null], '#d73027',
+        '#ffffbf'
+      ] as mapboxgl.Expression;
+    case 'io_class':
+      if (temporalChange) {
+        return [
+          'case',
+          ['get', 'has_temporal_change'], '#ff6b35', // Orange for changed pixels
+          '#cccccc'  // Gray for stable pixels
+        ] as mapboxgl.Expression;
+      }
+      return [
+        'match',
+        ['get', 'land_class'],
+        ...IO_CLASS_CODES.flatMap(code => [code, IO_CLASSES[code].color]),
+        UNKNOWN_IO_CLASS_COLOR
+      ] as mapboxgl.Expression;
+    case 'jrc_cover':
+    case 'jrc_type':
+      return [
+        'case',
+        ['get', 'is_forest'], '#2ca02c',
+        '#fee5d9'
+      ] as mapboxgl.Expression;
+    default:
+      return ['literal', '#22c55e'] as mapboxgl.Expression;
+  }
+};
+
+// Fill for an uploaded metric, or its change since the first year; pixels without
+// a value (e.g. missing from the baseline year) are drawn grey
+export const uploadedFillColor = (dataset: UploadedDataset, metricKey: string, change = false): mapboxgl.Expression => {
+  const property = change ? `${metricKey}_change` : metricKey;
+  return [
+    'case',
+    ['has', property],
+    [
+      'interpolate',
+      ['linear'],
+      ['get', property],
+      ...uploadedColorScale(dataset, metricKey, change).flatMap(scale => [scale.value, scale.color])
+    ],
+    '#cccccc'
+  ] as mapboxgl.Expression;
+};
+
+// Fill for the trend direction of an uploaded metric; pixels without a trend
+// (no year column, or a single year on record) are drawn grey
+export const UPLOADED_TREND_FILL = [
+  'match',
+  ['get', 'trend_direction'],
+  'increasing', TREND_COLORS.increasing,
+  'decreasing', TREND_COLORS.decreasing,
+  'no_trend', TREND_COLORS.no_trend,
+  '#cccccc'
+] as mapboxgl.Expression;
+
+export const uploadedTrendLegend = (dataset: UploadedDataset, metricKey: string): LegendItem[] => {
+  const label = dataset.metrics.find(m => m.key === metricKey)?.label ?? '';
+  return [
+    ...(['increasing', 'no_trend', 'decreasing'] as TrendDirection[]).map(direction => ({
+      color: TREND_COLORS[direction],
+      label: `${TREND_LABELS[direction]} in ${label}`
+    })),
+    { color: '#cccccc', label: 'No trend computed' }
+  ];
+};
+
+export const uploadedLegend = (dataset: UploadedDataset, metricKey: string, change = false): LegendItem[] => {
+  const metric = dataset.metrics.find(m => m.key === metricKey);
+  return [
+    ...uploadedColorScale(dataset, metricKey, change).map(scale => ({
+      color: scale.color,
+      label: `${change && scale.value > 0 ? '+' : ''}${+scale.value.toFixed(2)}${metric?.unit ?? ''} ${metric?.label ?? ''}${change ? ` change since ${dataset.years[0]}` : ''}`
+    })),
+    { color: '#cccccc', label: 'No value' }
+  ];
+};
+
+// Legend entries matching `datasetFillColor`
+export const datasetLegend = (
+  dataset: DatasetKey,
+  { metric = 'canopy_cover', ramp = 'default', temporalChange = false, lossYears }: DatasetStyleOptions = {}
+): LegendItem[] => {
+  switch (dataset) {
+    case 'mangaroa':
+      return [
+        ...rampedColorScale(metric, ramp).map((scale, index, array) => ({
+          color: scale.color,
+          label: `${index === 0 ? 'Low' : index === array.length - 1 ? 'Very High' : 'Medium'} ${METRICS[metric].label} (${+scale.value.toFixed(2)}${METRICS[metric].unit})`
+        })),
+        { color: '#cccccc', label: 'No value' }
+      ];
+    case 'glad':
+      if (lossYears) {
+        return [
+          ...lossYearColorScale(lossYears.range).map(scale => ({ color: scale.color, label: `Lost in ${Math.round(scale.value)}` })),
+          ...(lossYears.highlight !== null ? [{ color: LOSS_HIGHLIGHT_COLOR, label: `Lost in ${lossYears.highlight} (highlighted)` }] : []),
+          { color: NO_LOSS_COLOR, label: 'No loss' }
+        ];
+      }
+      return [
+        { color: '#4575b4', label: 'Forest Gain' },
+        { color: '#d73027', label: 'Forest Loss' },
+        { color: '#ffffbf', label: 'No Change' }
+      ];
+    case 'io_class':
+      return temporalChange
+        ? [
+            { color: '#ff6b35', label: 'Pixels with Temporal Change' },
+            { color: '#cccccc', label: 'Stable Pixels (filtered out)' }
+          ]
+        : [
+            ...IO_CLASS_CODES.map(code => ({ color: IO_CLASSES[code].color, label: `${IO_CLASSES[code].label} (Class ${code})` })),
+            { color: UNKNOWN_IO_CLASS_COLOR, label: 'Other/Unknown' }
+          ];
+    case 'jrc_cover':
+    case 'jrc_type':
+      return [
+        { color: '#2ca02c', label: 'Forest' },
+        { color: '#fee5d9', label: 'Non-forest' }
+      ];
+    default:
+      return [];
+  }
+};
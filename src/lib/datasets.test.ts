@@ -0,0 +1,271 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  DATASETS,
+  MANGAROA_COLUMNS,
+  checkMetricRanges,
+  parseCSV,
+  parseGLADRows,
+  parseIOClassRows,
+  parseJRCCoverRows,
+  parseJRCTypeRows,
+  parseDataset,
+  parseMangaroaRows,
+  readMangaroaColumn,
+  type DatasetKey
+} from './datasets';
+import { METRICS } from './metrics';
+
+const parseBundled = <K extends DatasetKey>(datasetKey: K) =>
+  parseDataset(datasetKey, readFileSync(path.join(process.cwd(), 'public', DATASETS[datasetKey].file), 'utf8'));
+
+const MANGAROA_HEADER =
+  'x,y,year,canopy_cover,canopy_height,tree_height,forest_cover,living_biomass,living_aboveground_biomass,' +
+  'living_belowground_biomass,living_biomass_carbon_stock,living_biomass_co2_eq,raos_q_diversity_index';
+
+describe('readMangaroaColumn', () => {
+  it('reads numbers and numeric strings', () => {
+    expect(readMangaroaColumn({ canopy_cover: 42.5 }, 'canopy_cover')).toBe(42.5);
+    expect(readMangaroaColumn({ canopy_cover: '12.25' }, 'canopy_cover')).toBe(12.25);
+  });
+
+  it('reads the source column rather than the metric key', () => {
+    expect(readMangaroaColumn({ living_biomass_carbon_stock: 7 }, 'carbon_stock')).toBe(7);
+    expect(readMangaroaColumn({ carbon_stock: 7 }, 'carbon_stock')).toBeNaN();
+  });
+
+  it('reads True/False flags as 1/0', () => {
+    expect(readMangaroaColumn({ forest_cover: true }, 'forest_cover')).toBe(1);
+    expect(readMangaroaColumn({ forest_cover: 'False' }, 'forest_cover')).toBe(0);
+    expect(readMangaroaColumn({ forest_cover: 'TRUE' }, 'forest_cover')).toBe(1);
+  });
+
+  it('reads blank and non-numeric cells as NaN', () => {
+    expect(readMangaroaColumn({ canopy_cover: null }, 'canopy_cover')).toBeNaN();
+    expect(readMangaroaColumn({ canopy_cover: '' }, 'canopy_cover')).toBeNaN();
+    expect(readMangaroaColumn({}, 'canopy_cover')).toBeNaN();
+    expect(readMangaroaColumn({ canopy_cover: 'n/a' }, 'canopy_cover')).toBeNaN();
+  });
+
+  it('keeps values outside the declared range as they are', () => {
+    expect(readMangaroaColumn({ canopy_cover: 150 }, 'canopy_cover')).toBe(150);
+    expect(readMangaroaColumn({ canopy_cover: -3 }, 'canopy_cover')).toBe(-3);
+  });
+});
+
+describe('parseMangaroaRows', () => {
+  const parse = (...lines: string[]) => parseMangaroaRows(parseCSV([MANGAROA_HEADER, ...lines].join('\n')));
+
+  it('parses a complete row', () => {
+    const [record] = parse('175.1,-41.1,2020,35,12,10,True,80,60,20,40,146.7,0.3');
+
+    expect(record).toMatchObject({
+      x: 175.1,
+      y: -41.1,
+      year: 2020,
+      pixel_id: 0,
+      canopy_cover: 35,
+      forest_cover: 1,
+      carbon_stock: 40,
+      co2_eq: 146.7,
+      diversity_index: 0.3,
+      dataset: 'mangaroa'
+    });
+    expect(record.footprint.type).toBe('Polygon');
+  });
+
+  it('drops rows with blank or non-numeric coordinates and years', () => {
+    expect(parse(
+      ',-41.1,2020,35,12,10,True,80,60,20,40,146.7,0.3',
+      'abc,-41.1,2020,35,12,10,True,80,60,20,40,146.7,0.3',
+      '175.1,-41.1,,35,12,10,True,80,60,20,40,146.7,0.3',
+      '175.1,-41.1,next,35,12,10,True,80,60,20,40,146.7,0.3'
+    )).toEqual([]);
+  });
+
+  it('drops rows for years outside the dataset', () => {
+    const records = parse(
+      '175.1,-41.1,2012,35,12,10,True,80,60,20,40,146.7,0.3',
+      '175.1,-41.1,2013,35,12,10,True,80,60,20,40,146.7,0.3',
+      '175.1,-41.1,2025,35,12,10,True,80,60,20,40,146.7,0.3'
+    );
+    expect(records.map(record => record.year)).toEqual([2013]);
+  });
+
+  it('keeps a blank metric as NaN', () => {
+    const [record] = parse('175.1,-41.1,2020,35,12,10,True,80,60,20,40,,');
+    expect(record.co2_eq).toBeNaN();
+    expect(record.diversity_index).toBeNaN();
+    expect(record.carbon_stock).toBe(40);
+  });
+
+  it('drops rows with every metric blank', () => {
+    const records = parse(
+      '175.1,-41.1,2020,,,,,,,,,,',
+      '175.1,-41.1,2021,35,12,10,True,80,60,20,40,146.7,0.3'
+    );
+    expect(records.map(record => record.year)).toEqual([2021]);
+  });
+
+  it('gives every year of one coordinate the same pixel_id', () => {
+    const records = parse(
+      '175.1,-41.1,2020,35,12,10,True,80,60,20,40,146.7,0.3',
+      '175.2,-41.1,2020,35,12,10,True,80,60,20,40,146.7,0.3',
+      '175.1,-41.1,2021,35,12,10,True,80,60,20,40,146.7,0.3'
+    );
+    expect(records.map(record => record.pixel_id)).toEqual([0, 1, 0]);
+  });
+});
+
+describe('parseGLADRows', () => {
+  const parse = (...lines: string[]) => parseGLADRows(parseCSV(['x,y,datamask,gain,lossyear,treecover2000', ...lines].join('\n')));
+
+  it('parses loss year, gain and baseline cover', () => {
+    const [record] = parse('175.1,-41.1,1,1,12,85');
+    expect(record).toMatchObject({
+      has_data: true,
+      has_forest_gain: true,
+      forest_loss_year: 2012,
+      baseline_tree_cover: 85,
+      dataset: 'glad'
+    });
+  });
+
+  it('reads loss year 0 as no loss', () => {
+    expect(parse('175.1,-41.1,1,0,0,40')[0].forest_loss_year).toBeNull();
+  });
+
+  it('drops no-data, blank and non-numeric datamask cells', () => {
+    expect(parse(
+      '175.1,-41.1,255,255,255,255',
+      '175.1,-41.1,,0,0,40',
+      '175.1,-41.1,land,0,0,40',
+      ',-41.1,1,0,0,40'
+    )).toEqual([]);
+  });
+});
+
+describe('parseIOClassRows', () => {
+  const header = 'x,y,class_2017,class_2018,class_2019,class_2020,class_2021,class_2022,class_2023';
+  const parse = (...lines: string[]) => parseIOClassRows(parseCSV([header, ...lines].join('\n')));
+
+  it('expands each pixel into one record per year', () => {
+    const records = parse('175.1,-41.1,11,11,11,2,2,2,2');
+
+    expect(records.map(record => [record.year, record.land_class])).toEqual([
+      [2017, 11], [2018, 11], [2019, 11], [2020, 2], [2021, 2], [2022, 2], [2023, 2]
+    ]);
+    expect(records.every(record => record.has_temporal_change && record.pixel_id === 0)).toBe(true);
+  });
+
+  it('drops pixels whose first year is no data, blank or non-numeric', () => {
+    expect(parse(
+      '175.1,-41.1,255,255,255,255,255,255,255',
+      '175.1,-41.1,,11,11,11,11,11,11',
+      '175.1,-41.1,water,11,11,11,11,11,11'
+    )).toEqual([]);
+  });
+
+  it('keeps class codes outside the IO-9 table', () => {
+    expect(parse('175.1,-41.1,3,3,3,3,3,3,3')[0].land_class).toBe(3);
+  });
+});
+
+describe('JRC row parsers', () => {
+  it('reads forest cover flags', () => {
+    const records = parseJRCCoverRows(parseCSV('x,y,forest_cover_2020\n175.1,-41.1,1\n175.2,-41.1,0'));
+    expect(records.map(record => record.is_forest)).toEqual([true, false]);
+    expect(records[0].dataset).toBe('jrc_cover');
+  });
+
+  it('reads forest type codes', () => {
+    const [record] = parseJRCTypeRows(parseCSV('x,y,forest_type_2020\n175.1,-41.1,1'));
+    expect(record).toMatchObject({ forest_type_2020: 1, is_forest: true, dataset: 'jrc_type' });
+  });
+
+  it('drops no-data, blank and non-numeric cells', () => {
+    expect(parseJRCCoverRows(parseCSV(
+      'x,y,forest_cover_2020\n175.1,-41.1,255\n175.1,-41.1,\n175.1,-41.1,forest'
+    ))).toEqual([]);
+  });
+});
+
+describe('checkMetricRanges', () => {
+  const parse = (...lines: string[]) => parseMangaroaRows(parseCSV([MANGAROA_HEADER, ...lines].join('\n')));
+
+  it('reports nothing when every value is in range', () => {
+    expect(checkMetricRanges(parse('175.1,-41.1,2020,35,12,10,True,80,60,20,40,146.7,0.3'))).toEqual([]);
+  });
+
+  it('reports a row outside the declared range', () => {
+    const records = parse(
+      '175.1,-41.1,2020,35,12,10,True,80,60,20,40,146.7,0.3',
+      '175.2,-41.1,2020,135,12,10,True,80,60,20,40,146.7,0.3',
+      '175.3,-41.1,2020,-5,12,10,True,80,60,20,40,146.7,0.3'
+    );
+    expect(checkMetricRanges(records)).toEqual([{ metric: 'canopy_cover', count: 2, min: -5, max: 135 }]);
+  });
+
+  it('finds no Kanop metric outside its declared range in the bundled screening', () => {
+    expect(checkMetricRanges(parseBundled('mangaroa'))).toEqual([]);
+  });
+
+  it('declares a scale that converts each column to its display unit', () => {
+    (Object.keys(MANGAROA_COLUMNS) as (keyof typeof MANGAROA_COLUMNS)[]).forEach(metric => {
+      const { unit, scale } = MANGAROA_COLUMNS[metric];
+      // Columns delivered in the display unit are kept as they are
+      if (unit === METRICS[metric].unit) expect(scale).toBe(1);
+      expect(scale).toBeGreaterThan(0);
+    });
+  });
+});
+
+describe('parsing the bundled CSVs', () => {
+  const countBy = <T>(records: T[], value: (record: T) => unknown) =>
+    records.reduce<Record<string, number>>((counts, record) => {
+      const key = String(value(record));
+      counts[key] = (counts[key] ?? 0) + 1;
+      return counts;
+    }, {});
+
+  // The file holds 77 pixels × 12 years = 924 rows, but the pixel at
+  // (175.087151, -41.151613) is blank in all 12 years, so 76 × 12 = 912 remain
+  it('reads 912 Kanop records, 76 pixels over 2013-2024', () => {
+    const records = parseBundled('mangaroa');
+
+    expect(records).toHaveLength(912);
+    expect(new Set(records.map(d => d.pixel_id)).size).toBe(76);
+    expect(Object.values(countBy(records, d => d.year))).toEqual(Array(12).fill(76));
+    expect(records.some(d => d.x.toFixed(6) === '175.087151' && d.y.toFixed(6) === '-41.151613')).toBe(false);
+    expect(records.every(d => d.footprint.type === 'Polygon')).toBe(true);
+  });
+
+  // 43 of the 120 cells are outside the data mask; none of the rest gained or lost forest
+  it('reads the GLAD pixels inside the data mask', () => {
+    const records = parseBundled('glad');
+
+    expect(records).toHaveLength(77);
+    expect(records.every(d => d.datamask === 1 && !d.has_forest_gain && d.forest_loss_year === null)).toBe(true);
+    expect(countBy(records, d => d.treecover2000)).toMatchObject({ 0: 74, 67: 2, 58: 1 });
+  });
+
+  // 256 of the 624 cells have no 2017 class and are dropped; the rest are one record per year
+  it('reads the IO land-cover classes per year', () => {
+    const records = parseBundled('io_class');
+
+    expect(records).toHaveLength(368 * 7);
+    expect(countBy(records, d => d.land_class)).toEqual({ 2: 1, 5: 62, 11: 2513 });
+    expect(countBy(records.filter(d => d.year === 2021), d => d.land_class)).toEqual({ 5: 57, 11: 311 });
+    expect(records.filter(d => d.has_temporal_change)).toHaveLength(57 * 7);
+  });
+
+  it('reads the JRC forest cover and type codes, without no-data cells', () => {
+    const cover = parseBundled('jrc_cover');
+    const type = parseBundled('jrc_type');
+
+    expect(countBy(cover, d => d.forest_cover_2020)).toEqual({ 0: 490, 1: 83 });
+    expect(cover.filter(d => d.is_forest)).toHaveLength(83);
+    expect(countBy(type, d => d.forest_type_2020)).toEqual({ 0: 419, 1: 77 });
+  });
+});
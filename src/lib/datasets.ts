@@ -0,0 +1,409 @@
+import Papa from 'papaparse';
+import { METRICS } from './metrics';
+
+// Dataset configuration. `resolution` is the nominal pixel size in metres and
+// `pixelSize` the native grid spacing in degrees ([lng, lat]).
+export const DATASETS = {
+  mangaroa: {
+    label: 'Mangaroa Canopy Cover',
+    description: 'Time-series canopy cover data (2013-2024)',
+    file: '/data/mangaroa_sampling_zone_1_kanop_screening_25_m.csv',
+    type: 'time_series',
+    resolution: 25,
+    pixelSize: [0.00025, 0.00025],
+    years: [2013, 2014, 2015, 2016, 2017, 2018, 2019, 2020, 2021, 2022, 2023, 2024]
+  },
+  glad: {
+    label: 'GLAD Forest Cover Loss/Gain',
+    description: 'Global forest change detection',
+    file: '/data/glad_forest_cover_loss_gain.csv',
+    type: 'forest_change',
+    resolution: 30,
+    pixelSize: [0.00025, 0.00025],
+    years: []
+  },
+  io_class: {
+    label: 'IO-9 Land Use Classification',
+    description: 'Time-series land use classification (2017-2023)',
+    file: '/data/io-9-class-10m.csv',
+    type: 'classification',
+    resolution: 10,
+    pixelSize: [0.0001256, 0.00009003],
+    years: [2017, 2018, 2019, 2020, 2021, 2022, 2023]
+  },
+  jrc_cover: {
+    label: 'JRC Forest Cover 2020',
+    description: 'European Commission forest cover',
+    file: '/data/jrc_forest_cover_2020.csv',
+    type: 'binary',
+    resolution: 10,
+    pixelSize: [0.00008333, 0.00008333],
+    years: []
+  },
+  jrc_type: {
+    label: 'JRC Forest Type 2020',
+    description: 'European Commission forest type',
+    file: '/data/jrc_forest_type_2020.csv',
+    type: 'binary',
+    resolution: 10,
+    pixelSize: [0.00008983, 0.00008983],
+    years: []
+  }
+} as const;
+
+export type DatasetKey = keyof typeof DATASETS;
+export type DatasetType = typeof DATASETS[DatasetKey]['type'];
+
+// Base data point interface
+export interface BaseDataPoint {
+  id: string;
+  pixel_id: number;
+  x: number;
+  y: number;
+  coordinates: [number, number];
+  footprint: GeoJSON.Polygon;
+  dataset: DatasetKey;
+}
+
+// Dataset-specific interfaces
+export interface MangaroaDataPoint extends BaseDataPoint {
+  year: number;
+  canopy_cover: number;
+  canopy_height: number;
+  tree_height: number;
+  forest_cover: number;
+  living_biomass: number;
+  living_aboveground_biomass: number;
+  living_belowground_biomass: number;
+  carbon_stock: number;
+  co2_eq: number;
+  diversity_index: number;
+}
+
+export interface GLADDataPoint extends BaseDataPoint {
+  datamask: number;
+  gain: number;
+  lossyear: number;
+  treecover2000: number;
+  has_data: boolean;
+  has_forest_gain: boolean;
+  forest_loss_year: number | null;
+  baseline_tree_cover: number;
+}
+
+// IO-9 is stored as one record per pixel per year; the wide class_YYYY
+// columns are kept on every record so the full history is at hand.
+export interface IOClassDataPoint extends BaseDataPoint {
+  year: number;
+  land_class: number;
+  class_2017: number;
+  class_2018: number;
+  class_2019: number;
+  class_2020: number;
+  class_2021: number;
+  class_2022: number;
+  class_2023: number;
+  has_data: boolean;
+  dominant_class: number;
+  has_temporal_change: boolean;
+}
+
+export interface JRCDataPoint extends BaseDataPoint {
+  forest_cover_2020?: number;
+  forest_type_2020?: number;
+  has_data: boolean;
+  is_forest: boolean;
+}
+
+export type DataPoint = MangaroaDataPoint | GLADDataPoint | IOClassDataPoint | JRCDataPoint;
+
+export interface DataPointByDataset {
+  mangaroa: MangaroaDataPoint;
+  glad: GLADDataPoint;
+  io_class: IOClassDataPoint;
+  jrc_cover: JRCDataPoint;
+  jrc_type: JRCDataPoint;
+}
+
+export type CsvRow = Record<string, any>;
+
+export type MangaroaMetric =
+  | 'canopy_cover'
+  | 'canopy_height'
+  | 'tree_height'
+  | 'forest_cover'
+  | 'living_biomass'
+  | 'living_aboveground_biomass'
+  | 'living_belowground_biomass'
+  | 'carbon_stock'
+  | 'co2_eq'
+  | 'diversity_index';
+
+// Kanop source column for each metric, the unit it is delivered in and the factor that
+// converts it to the display unit declared in METRICS, applied at load time. Every
+// column currently arrives in its display unit: canopy_cover is already a percentage
+// (0-42 % in the Mangaroa screening) and the densities are t/ha. forest_cover is a
+// True/False flag and is read as 1/0.
+export const MANGAROA_COLUMNS: { [K in MangaroaMetric]: { column: string; unit: string; scale: number } } = {
+  canopy_cover: { column: 'canopy_cover', unit: '%', scale: 1 },
+  canopy_height: { column: 'canopy_height', unit: 'm', scale: 1 },
+  tree_height: { column: 'tree_height', unit: 'm', scale: 1 },
+  forest_cover: { column: 'forest_cover', unit: '', scale: 1 },
+  living_biomass: { column: 'living_biomass', unit: 't/ha', scale: 1 },
+  living_aboveground_biomass: { column: 'living_aboveground_biomass', unit: 't/ha', scale: 1 },
+  living_belowground_biomass: { column: 'living_belowground_biomass', unit: 't/ha', scale: 1 },
+  carbon_stock: { column: 'living_biomass_carbon_stock', unit: 't/ha', scale: 1 },
+  co2_eq: { column: 'living_biomass_co2_eq', unit: 't CO₂e/ha', scale: 1 },
+  diversity_index: { column: 'raos_q_diversity_index', unit: '', scale: 1 }
+};
+
+export const isMangaroaMetric = (metric: string): metric is MangaroaMetric => Object.hasOwn(MANGAROA_COLUMNS, metric);
+
+// Read a Kanop column as a number in display units; blank and non-numeric cells are
+// NaN, not 0, so they stay out of averages and fallbacks can tell them apart
+export const readMangaroaColumn = (row: CsvRow, metric: MangaroaMetric): number => {
+  const { column, scale } = MANGAROA_COLUMNS[metric];
+  const value = row[column];
+
+  if (typeof value === 'boolean' || /^(true|false)$/i.test(String(value))) {
+    return String(value).toLowerCase() === 'true' ? 1 : 0;
+  }
+  return parseFloat(value) * scale;
+};
+
+export interface MetricRangeViolation {
+  metric: MangaroaMetric;
+  count: number;
+  min: number;
+  max: number;
+}
+
+// Metrics whose loaded values fall outside the range declared in METRICS, with
+// how many values and how far out
+export const checkMetricRanges = (data: MangaroaDataPoint[]): MetricRangeViolation[] => {
+  return (Object.keys(MANGAROA_COLUMNS) as MangaroaMetric[]).flatMap(metric => {
+    const [low, high] = METRICS[metric].range;
+    const outside = data.map(d => d[metric]).filter(v => v < low || v > high);
+
+    if (!outside.length) return [];
+    return [{
+      metric,
+      count: outside.length,
+      min: outside.reduce((a, b) => Math.min(a, b)),
+      max: outside.reduce((a, b) => Math.max(a, b))
+    }];
+  });
+};
+
+export const NO_DATA = 255;
+
+// Whether a coded raster cell holds a class; blank, non-numeric and no-data cells do not
+const hasValue = (value: unknown) => {
+  const code = parseInt(String(value));
+  return !isNaN(code) && code !== NO_DATA;
+};
+
+// Parse CSV text into header-keyed rows, trimming whitespace from column names
+export const CSV_PARSE_CONFIG = {
+  header: true,
+  dynamicTyping: true,
+  skipEmptyLines: true,
+  delimitersToGuess: [',', '\t', '|', ';'],
+  transformHeader: (header: string) => header.trim()
+};
+
+export const parseCSV = (csvText: string): CsvRow[] => {
+  return Papa.parse<CsvRow>(csvText, CSV_PARSE_CONFIG).data;
+};
+
+// Build a pixel footprint centred on (x, y) from the dataset's native grid spacing
+export const pixelFootprint = (x: number, y: number, [dx, dy]: readonly [number, number]): GeoJSON.Polygon => ({
+  type: 'Polygon',
+  coordinates: [[
+    [x - dx / 2, y - dy / 2],
+    [x + dx / 2, y - dy / 2],
+    [x + dx / 2, y + dy / 2],
+    [x - dx / 2, y + dy / 2],
+    [x - dx / 2, y - dy / 2]
+  ]]
+});
+
+// Kanop rows carry their true footprint as a GeoJSON polygon string in pixel_boundary;
+// rows read from a GeoTIFF carry it as a parsed polygon in `footprint`
+export const parsePixelBoundary = (boundary: unknown): GeoJSON.Polygon | null => {
+  try {
+    const geometry = typeof boundary === 'string' ? JSON.parse(boundary) : boundary;
+    if (geometry?.type === 'Polygon' && Array.isArray(geometry.coordinates)) {
+      return { type: 'Polygon', coordinates: geometry.coordinates };
+    }
+  } catch {
+    // Fall through to the synthesized footprint
+  }
+  return null;
+};
+
+// A row's own footprint when it has one, otherwise a square from the dataset's grid spacing
+const rowFootprint = (row: CsvRow, datasetKey: DatasetKey): GeoJSON.Polygon =>
+  parsePixelBoundary(row.footprint ?? row.pixel_boundary) ??
+  pixelFootprint(parseFloat(row.x), parseFloat(row.y), DATASETS[datasetKey].pixelSize);
+
+// Assign a stable pixel_id per unique coordinate, in order of first appearance.
+// Pass the same map across calls to number a file parsed in chunks.
+const assignPixelIds = <T extends BaseDataPoint>(data: T[], pixelMap: Map<string, number>): T[] => {
+  data.forEach(row => {
+    const coordKey = `${row.x.toFixed(6)}_${row.y.toFixed(6)}`;
+    if (!pixelMap.has(coordKey)) {
+      pixelMap.set(coordKey, pixelMap.size);
+    }
+    row.pixel_id = pixelMap.get(coordKey)!;
+  });
+
+  return data;
+};
+
+export const parseMangaroaRows = (rows: CsvRow[], pixelIds = new Map<string, number>()): MangaroaDataPoint[] => {
+  const { years } = DATASETS.mangaroa;
+
+  const processedData = rows.map((row, index) => ({
+    id: `${row.x}_${row.y}_${row.year}`,
+    pixel_id: index,
+    x: parseFloat(row.x),
+    y: parseFloat(row.y),
+    year: parseInt(row.year),
+    coordinates: [parseFloat(row.x), parseFloat(row.y)] as [number, number],
+    footprint: rowFootprint(row, 'mangaroa'),
+    canopy_cover: readMangaroaColumn(row, 'canopy_cover'),
+    canopy_height: readMangaroaColumn(row, 'canopy_height'),
+    tree_height: readMangaroaColumn(row, 'tree_height'),
+    forest_cover: readMangaroaColumn(row, 'forest_cover'),
+    living_biomass: readMangaroaColumn(row, 'living_biomass'),
+    living_aboveground_biomass: readMangaroaColumn(row, 'living_aboveground_biomass'),
+    living_belowground_biomass: readMangaroaColumn(row, 'living_belowground_biomass'),
+    carbon_stock: readMangaroaColumn(row, 'carbon_stock'),
+    co2_eq: readMangaroaColumn(row, 'co2_eq'),
+    diversity_index: readMangaroaColumn(row, 'diversity_index'),
+    dataset: 'mangaroa' as const
+  })).filter(row =>
+    !isNaN(row.x) && !isNaN(row.y) && !isNaN(row.year) &&
+    row.year >= years[0] && row.year <= years[years.length - 1] &&
+    // A row with every metric blank is a pixel Kanop has no estimate for that year
+    (Object.keys(MANGAROA_COLUMNS) as MangaroaMetric[]).some(metric => !isNaN(row[metric]))
+  );
+
+  return assignPixelIds(processedData, pixelIds);
+};
+
+export const parseGLADRows = (rows: CsvRow[], pixelIds = new Map<string, number>()): GLADDataPoint[] => {
+  const processedData = rows.map((row, index) => ({
+    id: `glad_${row.x}_${row.y}`,
+    pixel_id: index,
+    x: parseFloat(row.x),
+    y: parseFloat(row.y),
+    coordinates: [parseFloat(row.x), parseFloat(row.y)] as [number, number],
+    footprint: rowFootprint(row, 'glad'),
+    datamask: parseInt(row.datamask),
+    gain: parseInt(row.gain),
+    lossyear: parseInt(row.lossyear),
+    treecover2000: parseInt(row.treecover2000),
+    has_data: parseInt(row.datamask) === 1,
+    has_forest_gain: parseInt(row.gain) === 1,
+    forest_loss_year: parseInt(row.lossyear) > 0 ? 2000 + parseInt(row.lossyear) : null,
+    baseline_tree_cover: parseInt(row.treecover2000),
+    dataset: 'glad' as const
+  })).filter(row =>
+    !isNaN(row.x) && !isNaN(row.y) && row.has_data
+  );
+
+  return assignPixelIds(processedData, pixelIds);
+};
+
+export const parseIOClassRows = (rows: CsvRow[], pixelIds = new Map<string, number>()): IOClassDataPoint[] => {
+  const { years } = DATASETS.io_class;
+
+  const baseData = rows.map((row, index) => ({
+    pixel_id: index,
+    x: parseFloat(row.x),
+    y: parseFloat(row.y),
+    coordinates: [parseFloat(row.x), parseFloat(row.y)] as [number, number],
+    footprint: rowFootprint(row, 'io_class'),
+    class_2017: parseInt(row.class_2017),
+    class_2018: parseInt(row.class_2018),
+    class_2019: parseInt(row.class_2019),
+    class_2020: parseInt(row.class_2020),
+    class_2021: parseInt(row.class_2021),
+    class_2022: parseInt(row.class_2022),
+    class_2023: parseInt(row.class_2023),
+    has_data: hasValue(row.class_2017),
+    dominant_class: parseInt(row.class_2017) // Use 2017 as reference
+  })).filter(row =>
+    !isNaN(row.x) && !isNaN(row.y) && row.has_data
+  );
+
+  // Convert to time series format - one record per pixel per year
+  const timeSeriesData: IOClassDataPoint[] = [];
+
+  baseData.forEach(pixel => {
+    const classValues = years.map(year => pixel[`class_${year}`]);
+    const hasTemporalChange = new Set(classValues).size > 1;
+
+    years.forEach((year, i) => {
+      timeSeriesData.push({
+        ...pixel,
+        id: `io_${pixel.x}_${pixel.y}_${year}`,
+        year,
+        land_class: classValues[i],
+        has_temporal_change: hasTemporalChange,
+        dataset: 'io_class'
+      });
+    });
+  });
+
+  return assignPixelIds(timeSeriesData, pixelIds);
+};
+
+// JRC GFC2020 encodes 1 = forest, 0 = non-forest, 255 = no data
+const parseJRCRows = (
+  rows: CsvRow[],
+  dataset: 'jrc_cover' | 'jrc_type',
+  column: 'forest_cover_2020' | 'forest_type_2020',
+  pixelIds: Map<string, number>
+): JRCDataPoint[] => {
+  const processedData = rows.map((row, index) => ({
+    id: `${dataset}_${row.x}_${row.y}`,
+    pixel_id: index,
+    x: parseFloat(row.x),
+    y: parseFloat(row.y),
+    coordinates: [parseFloat(row.x), parseFloat(row.y)] as [number, number],
+    footprint: rowFootprint(row, dataset),
+    [column]: parseInt(row[column]),
+    has_data: hasValue(row[column]),
+    is_forest: parseInt(row[column]) === 1,
+    dataset
+  })).filter(row =>
+    !isNaN(row.x) && !isNaN(row.y) && row.has_data
+  );
+
+  return assignPixelIds(processedData, pixelIds);
+};
+
+export const parseJRCCoverRows = (rows: CsvRow[], pixelIds = new Map<string, number>()): JRCDataPoint[] =>
+  parseJRCRows(rows, 'jrc_cover', 'forest_cover_2020', pixelIds);
+
+export const parseJRCTypeRows = (rows: CsvRow[], pixelIds = new Map<string, number>()): JRCDataPoint[] =>
+  parseJRCRows(rows, 'jrc_type', 'forest_type_2020', pixelIds);
+
+export const ROW_PARSERS: {
+  [K in DatasetKey]: (rows: CsvRow[], pixelIds?: Map<string, number>) => DataPointByDataset[K][]
+} = {
+  mangaroa: parseMangaroaRows,
+  glad: parseGLADRows,
+  io_class: parseIOClassRows,
+  jrc_cover: parseJRCCoverRows,
+  jrc_type: parseJRCTypeRows
+};
+
+// Parse raw CSV text for a dataset into typed records
+export const parseDataset = <K extends DatasetKey>(datasetKey: K, csvText: string): DataPointByDataset[K][] => {
+  return ROW_PARSERS[datasetKey](parseCSV(csvText));
+};
+
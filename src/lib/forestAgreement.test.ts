@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { forestAgreement, type AgreementSources } from './forestAgreement';
+
+// Records carry only what the forest signals read; the unit cell size puts every
+// point with the same integer part of x and y in one cell
+const at = (x: number, y: number) => ({ x, y, coordinates: [x, y] as [number, number] });
+
+const jrc = (x: number, y: number, isForest: boolean) => ({ ...at(x, y), is_forest: isForest });
+
+const sources = (partial: Partial<Record<keyof AgreementSources, object[]>>) => ({
+  mangaroa: [],
+  glad: [],
+  io_class: [],
+  jrc_cover: [],
+  jrc_type: [],
+  ...partial
+}) as unknown as AgreementSources;
+
+const OPTIONS = { year: 2020, gladThreshold: 30, cellSize: 1 };
+
+const pairOf = (result: ReturnType<typeof forestAgreement>, a: string, b: string) =>
+  result.pairs.find(pair => pair.a === a && pair.b === b)!;
+
+describe('forestAgreement', () => {
+  it('takes a majority vote of the pixels in each cell, ties counting as forest', () => {
+    const kanop = (x: number, forest: number, year = 2020) => ({ ...at(x, 0.5), year, forest_cover: forest });
+    const result = forestAgreement(sources({
+      mangaroa: [
+        // Cell 0: 2 of 3 forest
+        kanop(0.1, 1), kanop(0.2, 1), kanop(0.3, 0),
+        // Cell 1: 1 of 2, a tie
+        kanop(1.1, 1), kanop(1.2, 0),
+        // Cell 2: 1 of 3, plus a forest pixel from another year that is not read
+        kanop(2.1, 1), kanop(2.2, 0), kanop(2.3, 0), kanop(2.4, 1, 2019), kanop(2.5, 1, 2019)
+      ],
+      jrc_cover: [jrc(0.5, 0.5, true), jrc(1.5, 0.5, true), jrc(2.5, 0.5, true)]
+    }), OPTIONS);
+
+    expect(result.signals.find(signal => signal.dataset === 'mangaroa')).toEqual({ dataset: 'mangaroa', cells: 3, forestCells: 2 });
+    expect(result.statusCounts).toEqual({ forest: 2, non_forest: 0, disputed: 1 });
+    expect(result.cells.features.map(feature => feature.properties)).toContainEqual({
+      status: 'disputed',
+      signals: 2,
+      forest_votes: 1,
+      mangaroa: 0,
+      jrc_cover: 1
+    });
+  });
+
+  it('reads the time-series signals at the nearest year on record', () => {
+    const io = (x: number, year: number, landClass: number) => ({ ...at(x, 0.5), year, land_class: landClass });
+    const result = forestAgreement(sources({
+      // IO-9 ends in 2023; 2030 reads 2023, where the pixel is Trees (class 2)
+      io_class: [io(0.5, 2017, 11), io(0.5, 2023, 2)],
+      jrc_cover: [jrc(0.5, 0.5, true)]
+    }), { ...OPTIONS, year: 2030 });
+
+    expect(result.statusCounts.forest).toBe(1);
+  });
+
+  // 10 cells: 4 both forest, 1 only JRC cover, 2 only JRC type, 3 both non-forest.
+  // p_o = 7/10; p_e = (5·6 + 5·4)/100 = 0.5; kappa = (0.7 - 0.5)/(1 - 0.5) = 0.4
+  it('builds the confusion matrix and Cohen’s kappa for each pair', () => {
+    const votes: [boolean, boolean][] = [
+      [true, true], [true, true], [true, true], [true, true],
+      [true, false],
+      [false, true], [false, true],
+      [false, false], [false, false], [false, false]
+    ];
+    const result = forestAgreement(sources({
+      jrc_cover: votes.map(([a], i) => jrc(i + 0.5, 0.5, a)),
+      jrc_type: votes.map(([, b], i) => jrc(i + 0.5, 0.5, b))
+    }), OPTIONS);
+
+    const pair = pairOf(result, 'jrc_cover', 'jrc_type');
+    expect(pair.cells).toBe(10);
+    expect(pair.matrix).toEqual({ bothForest: 4, onlyA: 1, onlyB: 2, bothNonForest: 3 });
+    expect(pair.accuracy).toBeCloseTo(0.7, 10);
+    expect(pair.kappa).toBeCloseTo(0.4, 10);
+    expect(result.statusCounts).toEqual({ forest: 4, non_forest: 3, disputed: 3 });
+  });
+
+  it('reports full agreement, and no kappa when chance agreement is total', () => {
+    const result = forestAgreement(sources({
+      mangaroa: [{ ...at(0.5, 0.5), year: 2020, forest_cover: 1 }],
+      glad: [{ ...at(0.5, 0.5), baseline_tree_cover: 80 }],
+      io_class: [{ ...at(0.5, 0.5), year: 2020, land_class: 2 }],
+      jrc_cover: [jrc(0.5, 0.5, true)],
+      jrc_type: [jrc(0.5, 0.5, true)]
+    }), OPTIONS);
+
+    expect(result.statusCounts).toEqual({ forest: 1, non_forest: 0, disputed: 0 });
+    expect(result.pairs).toHaveLength(10);
+    result.pairs.forEach(pair => {
+      expect(pair.matrix).toEqual({ bothForest: 1, onlyA: 0, onlyB: 0, bothNonForest: 0 });
+      expect(pair.accuracy).toBe(1);
+      expect(pair.kappa).toBeNull();
+    });
+  });
+
+  it('leaves cells with a single signal out of the comparison', () => {
+    const result = forestAgreement(sources({
+      jrc_cover: [jrc(0.5, 0.5, true), jrc(1.5, 0.5, false)],
+      jrc_type: [jrc(0.5, 0.5, true)]
+    }), OPTIONS);
+
+    expect(result.cells.features).toHaveLength(1);
+    expect(result.signals.find(signal => signal.dataset === 'jrc_cover')?.cells).toBe(2);
+    expect(pairOf(result, 'glad', 'jrc_cover')).toMatchObject({ cells: 0, accuracy: null, kappa: null });
+  });
+});
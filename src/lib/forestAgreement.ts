@@ -0,0 +1,225 @@
+import type mapboxgl from 'mapbox-gl';
+import { DATASETS, pixelFootprint, type DataPointByDataset, type DatasetKey } from './datasets';
+import { nearestYear } from './datasetQueries';
+import { pointInGeometry, type PolygonalGeometry } from './geometry';
+
+export interface AgreementOptions {
+  // Year read from the time-series signals (Kanop, IO-9)
+  year: number;
+  // GLAD treecover2000 (%) at or above which a pixel counts as forest
+  gladThreshold: number;
+  // Side of the common grid cells, in degrees
+  cellSize: number;
+  zone?: PolygonalGeometry;
+}
+
+export const DEFAULT_AGREEMENT_OPTIONS = {
+  // JRC's reference year
+  year: 2020,
+  gladThreshold: 30,
+  cellSize: 0.00025
+} as const;
+
+// Common grid sizes; 25 m matches the Kanop and GLAD grids
+export const AGREEMENT_CELL_SIZES = [
+  { label: '10 m', cellSize: 0.0001 },
+  { label: '25 m', cellSize: 0.00025 },
+  { label: '50 m', cellSize: 0.0005 }
+] as const;
+
+// IO-9 class 2 is Trees
+const IO_FOREST_CLASSES = [2];
+
+// How each dataset answers "is this pixel forest?"
+export const FOREST_SIGNALS: {
+  [K in DatasetKey]: { label: string; isForest: (record: DataPointByDataset[K], options: AgreementOptions) => boolean }
+} = {
+  mangaroa: { label: 'Kanop forest cover', isForest: record => record.forest_cover >= 0.5 },
+  glad: { label: 'GLAD tree cover 2000', isForest: (record, { gladThreshold }) => record.baseline_tree_cover >= gladThreshold },
+  io_class: { label: 'IO-9 Trees class', isForest: record => IO_FOREST_CLASSES.includes(record.land_class) },
+  jrc_cover: { label: 'JRC forest cover', isForest: record => record.is_forest },
+  jrc_type: { label: 'JRC forest type', isForest: record => record.is_forest }
+};
+
+export type AgreementStatus = 'forest' | 'non_forest' | 'disputed';
+
+export const AGREEMENT_COLORS: Record<AgreementStatus, string> = {
+  forest: '#1a9850',
+  non_forest: '#fee08b',
+  disputed: '#d73027'
+};
+
+export const AGREEMENT_LABELS: Record<AgreementStatus, string> = {
+  forest: 'All agree forest',
+  non_forest: 'All agree non-forest',
+  disputed: 'Disputed'
+};
+
+// Cell counts for a pair of signals, with `a` as the reference
+export interface ConfusionMatrix {
+  bothForest: number;
+  onlyA: number;
+  onlyB: number;
+  bothNonForest: number;
+}
+
+export interface PairAgreement {
+  a: DatasetKey;
+  b: DatasetKey;
+  cells: number;
+  matrix: ConfusionMatrix;
+  // null when the pair never overlaps
+  accuracy: number | null;
+  // null when chance agreement is already total (e.g. both all non-forest)
+  kappa: number | null;
+}
+
+export interface SignalSummary {
+  dataset: DatasetKey;
+  cells: number;
+  forestCells: number;
+}
+
+export interface ForestAgreement {
+  year: number;
+  gladThreshold: number;
+  cellSize: number;
+  statusCounts: Record<AgreementStatus, number>;
+  signals: SignalSummary[];
+  pairs: PairAgreement[];
+  // Cells covered by at least two signals, with `status`, `signals`, `forest_votes`
+  // and one 1/0 property per dataset
+  cells: GeoJSON.FeatureCollection;
+}
+
+export type AgreementSources = { [K in DatasetKey]: DataPointByDataset[K][] };
+
+const cohensKappa = ({ bothForest, onlyA, onlyB, bothNonForest }: ConfusionMatrix, cells: number): number | null => {
+  const observed = (bothForest + bothNonForest) / cells;
+  const expected = (
+    (bothForest + onlyA) * (bothForest + onlyB) +
+    (onlyB + bothNonForest) * (onlyA + bothNonForest)
+  ) / (cells * cells);
+  return expected === 1 ? null : (observed - expected) / (1 - expected);
+};
+
+// Resample every signal onto a common grid (majority vote of the pixel centres in
+// each cell, ties counting as forest), then compare them cell by cell
+export const forestAgreement = (sources: AgreementSources, options: AgreementOptions): ForestAgreement => {
+  const { cellSize, zone } = options;
+  const datasets = Object.keys(FOREST_SIGNALS) as DatasetKey[];
+  // cell key -> dataset -> [forest pixels, all pixels]
+  const grid = new Map<string, Map<DatasetKey, [number, number]>>();
+
+  const addSignal = <K extends DatasetKey>(dataset: K) => {
+    const years: readonly number[] = DATASETS[dataset].years;
+    const year = years.length ? nearestYear(years, options.year) : null;
+
+    sources[dataset].forEach(record => {
+      if (year !== null && 'year' in record && record.year !== year) return;
+      if (zone && !pointInGeometry(record.coordinates, zone)) return;
+
+      const key = `${Math.floor(record.x / cellSize)}_${Math.floor(record.y / cellSize)}`;
+      const cell = grid.get(key) ?? new Map<DatasetKey, [number, number]>();
+      const [forest, total] = cell.get(dataset) ?? [0, 0];
+      cell.set(dataset, [forest + (FOREST_SIGNALS[dataset].isForest(record, options) ? 1 : 0), total + 1]);
+      grid.set(key, cell);
+    });
+  };
+  datasets.forEach(addSignal);
+
+  const statusCounts: Record<AgreementStatus, number> = { forest: 0, non_forest: 0, disputed: 0 };
+  const signals = new Map(datasets.map(dataset => [dataset, { dataset, cells: 0, forestCells: 0 }]));
+  const pairs = datasets.flatMap((a, i) => datasets.slice(i + 1).map(b => ({
+    a,
+    b,
+    cells: 0,
+    matrix: { bothForest: 0, onlyA: 0, onlyB: 0, bothNonForest: 0 }
+  })));
+  const features: GeoJSON.Feature[] = [];
+
+  grid.forEach((cell, key) => {
+    const votes = new Map(Array.from(cell, ([dataset, [forest, total]]) => [dataset, forest * 2 >= total]));
+
+    votes.forEach((isForest, dataset) => {
+      const summary = signals.get(dataset)!;
+      summary.cells++;
+      if (isForest) summary.forestCells++;
+    });
+    if (votes.size < 2) return;
+
+    pairs.forEach(pair => {
+      if (!votes.has(pair.a) || !votes.has(pair.b)) return;
+      const a = votes.get(pair.a);
+      const b = votes.get(pair.b);
+      pair.cells++;
+      if (a && b) pair.matrix.bothForest++;
+      else if (a) pair.matrix.onlyA++;
+      else if (b) pair.matrix.onlyB++;
+      else pair.matrix.bothNonForest++;
+    });
+
+    const forestVotes = Array.from(votes.values()).filter(Boolean).length;
+    const status: AgreementStatus =
+      forestVotes === votes.size ? 'forest' : forestVotes === 0 ? 'non_forest' : 'disputed';
+    statusCounts[status]++;
+
+    const [i, j] = key.split('_').map(Number);
+    features.push({
+      type: 'Feature',
+      properties: {
+        status,
+        signals: votes.size,
+        forest_votes: forestVotes,
+        ...Object.fromEntries(Array.from(votes, ([dataset, isForest]) => [dataset, isForest ? 1 : 0]))
+      },
+      geometry: pixelFootprint((i + 0.5) * cellSize, (j + 0.5) * cellSize, [cellSize, cellSize])
+    });
+  });
+
+  return {
+    year: options.year,
+    gladThreshold: options.gladThreshold,
+    cellSize,
+    statusCounts,
+    signals: Array.from(signals.values()),
+    pairs: pairs.map(pair => ({
+      ...pair,
+      accuracy: pair.cells ? (pair.matrix.bothForest + pair.matrix.bothNonForest) / pair.cells : null,
+      kappa: pair.cells ? cohensKappa(pair.matrix, pair.cells) : null
+    })),
+    cells: { type: 'FeatureCollection', features }
+  };
+};
+
+const AGREEMENT_SOURCE_ID = 'forest-agreement';
+const AGREEMENT_LAYER_ID = 'forest-agreement-fill';
+
+// Draw (or with null, remove) the agreement map above the dataset layers
+export const showAgreementOnMap = (map: mapboxgl.Map, cells: GeoJSON.FeatureCollection | null) => {
+  if (map.getLayer(AGREEMENT_LAYER_ID)) map.removeLayer(AGREEMENT_LAYER_ID);
+  if (map.getSource(AGREEMENT_SOURCE_ID)) map.removeSource(AGREEMENT_SOURCE_ID);
+  if (!cells) return;
+
+  map.addSource(AGREEMENT_SOURCE_ID, { type: 'geojson', data: cells });
+  map.addLayer({
+    id: AGREEMENT_LAYER_ID,
+    type: 'fill',
+    source: AGREEMENT_SOURCE_ID,
+    paint: {
+      'fill-color': [
+        'match',
+        ['get', 'status'],
+        ...Object.entries(AGREEMENT_COLORS).flat(),
+        '#cccccc'
+      ] as mapboxgl.Expression,
+      'fill-outline-color': '#ffffff',
+      'fill-opacity': 0.85
+    }
+  });
+};
+
+// Keep the agreement map on top after dataset layers are re-added
+export const raiseAgreementLayer = (map: mapboxgl.Map) => {
+  if (map.getLayer(AGREEMENT_LAYER_ID)) map.moveLayer(AGREEMENT_LAYER_ID);
+};
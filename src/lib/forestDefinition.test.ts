@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { pixelFootprint, type MangaroaDataPoint } from './datasets';
+import {
+  DEFAULT_FOREST_DEFINITION,
+  FOREST_DEFINITION_PRESETS,
+  applyForestDefinition,
+  hasForestFields
+} from './forestDefinition';
+import { SQUARE_METRES_PER_HECTARE, geometryArea, rectanglePolygon } from './geometry';
+
+const SIZE = [0.00025, 0.00025] as const;
+const ORIGIN = [175.08, -41.15] as const;
+
+// A Kanop pixel on the 25 m grid at column i, row j. Coordinates carry a little
+// floating-point noise, as parsed CSV values do.
+const pixel = (i: number, j: number, canopy = 50, height = 10, year = 2020): MangaroaDataPoint => {
+  const x = ORIGIN[0] + i * SIZE[0] + 1e-9;
+  const y = ORIGIN[1] + j * SIZE[1] - 1e-9;
+  return {
+    pixel_id: i * 100 + j,
+    x,
+    y,
+    year,
+    coordinates: [x, y],
+    footprint: pixelFootprint(x, y, SIZE),
+    canopy_cover: canopy,
+    tree_height: height
+  } as MangaroaDataPoint;
+};
+
+const pixelHa = geometryArea(pixel(0, 0).footprint) / SQUARE_METRES_PER_HECTARE;
+
+const statusOf = (result: ReturnType<typeof applyForestDefinition>) =>
+  Object.fromEntries(result.cells.features.map(feature => [feature.properties?.pixel_id, feature.properties?.status]));
+
+describe('forest definition presets', () => {
+  it('follow NZ ETS and FAO FRA', () => {
+    expect(FOREST_DEFINITION_PRESETS.nz_ets.definition).toEqual({ minCanopyCover: 30, minTreeHeight: 5, minArea: 1 });
+    expect(FOREST_DEFINITION_PRESETS.fao.definition).toEqual({ minCanopyCover: 10, minTreeHeight: 5, minArea: 0.5 });
+    expect(DEFAULT_FOREST_DEFINITION).toBe(FOREST_DEFINITION_PRESETS.nz_ets.definition);
+  });
+
+  it('apply only to datasets with canopy cover or tree height', () => {
+    expect(hasForestFields('mangaroa')).toBe(true);
+    expect(hasForestFields('glad')).toBe(true);
+    expect(hasForestFields('jrc_cover')).toBe(false);
+    expect(hasForestFields('toString')).toBe(false);
+  });
+});
+
+describe('applyForestDefinition', () => {
+  it('requires both the canopy cover and the tree height minimum', () => {
+    const records = [pixel(0, 0, 30, 5), pixel(2, 0, 29, 20), pixel(4, 0, 90, 4.9)];
+    const result = applyForestDefinition('mangaroa', records, { minCanopyCover: 30, minTreeHeight: 5, minArea: 0 }, { year: 2020 });
+
+    expect(statusOf(result)).toEqual({ 0: 'forest', 200: 'non_forest', 400: 'non_forest' });
+    expect(result.criteria).toEqual({ canopyCover: true, treeHeight: true });
+  });
+
+  it('grows patches over edge-sharing neighbours only', () => {
+    // An L of three pixels, and one touching it only at a corner
+    const records = [pixel(0, 0), pixel(1, 0), pixel(1, 1), pixel(2, 2)];
+    const result = applyForestDefinition('mangaroa', records, { minCanopyCover: 30, minTreeHeight: 5, minArea: 2.5 * pixelHa }, { year: 2020 });
+
+    expect(statusOf(result)).toEqual({ 0: 'forest', 100: 'forest', 101: 'forest', 202: 'too_small' });
+    expect(result.years[0].forestPixels).toBe(3);
+    expect(result.years[0].forestHa).toBeCloseTo(3 * pixelHa, 4);
+    expect(result.years[0].tooSmallHa).toBeCloseTo(pixelHa, 4);
+  });
+
+  it('flips a patch between forest and too small at the minimum area', () => {
+    const records = [pixel(0, 0), pixel(0, 1), pixel(0, 2), pixel(0, 3)];
+    const patchHa = records.reduce((sum, record) => sum + geometryArea(record.footprint), 0) / SQUARE_METRES_PER_HECTARE;
+    const apply = (minArea: number) =>
+      applyForestDefinition('mangaroa', records, { minCanopyCover: 30, minTreeHeight: 5, minArea }).years[0];
+
+    // About 0.23 ha for four 25 m pixels at 41°S
+    expect(patchHa).toBeGreaterThan(0.2);
+    expect(apply(patchHa * 0.999)).toMatchObject({ forestPixels: 4, tooSmallHa: 0 });
+    expect(apply(patchHa * 1.001)).toMatchObject({ forestPixels: 0, forestHa: 0 });
+    expect(apply(patchHa * 1.001).tooSmallHa).toBeCloseTo(patchHa, 10);
+  });
+
+  it('summarises every year and maps the one asked for', () => {
+    const records = [pixel(0, 0, 50, 10, 2019), pixel(0, 0, 10, 10, 2020), pixel(1, 0, 50, 10, 2020)];
+    const result = applyForestDefinition('mangaroa', records, { minCanopyCover: 30, minTreeHeight: 5, minArea: 0 }, { year: 2019 });
+
+    expect(result.year).toBe(2019);
+    expect(result.years.map(({ year, forestPixels }) => ({ year, forestPixels }))).toEqual([
+      { year: 2019, forestPixels: 1 },
+      { year: 2020, forestPixels: 1 }
+    ]);
+    expect(result.cells.features).toHaveLength(1);
+  });
+
+  it('measures patches found over the whole dataset inside the zone', () => {
+    const records = [pixel(0, 0), pixel(1, 0), pixel(2, 0), pixel(3, 0)];
+    // Covers the first two pixels exactly
+    const zone = rectanglePolygon(
+      [ORIGIN[0] - SIZE[0] / 2 + 1e-9, ORIGIN[1] - SIZE[1] / 2 - 1e-9],
+      [ORIGIN[0] + 1.5 * SIZE[0] + 1e-9, ORIGIN[1] + SIZE[1] / 2 - 1e-9]
+    );
+    // The four-pixel patch passes a minimum the two pixels inside the zone would not
+    const result = applyForestDefinition('mangaroa', records, { minCanopyCover: 30, minTreeHeight: 5, minArea: 3 * pixelHa }, { zone });
+
+    expect(result.years[0].forestPixels).toBe(2);
+    expect(result.years[0].forestHa).toBeCloseTo(2 * pixelHa, 4);
+    expect(result.years[0].totalHa).toBeCloseTo(2 * pixelHa, 4);
+  });
+});
@@ -0,0 +1,213 @@
+import type mapboxgl from 'mapbox-gl';
+import { DATASETS, type DataPointByDataset, type DatasetKey } from './datasets';
+import { nearestYear } from './datasetQueries';
+import { SQUARE_METRES_PER_HECTARE, geometryArea, type PolygonalGeometry } from './geometry';
+import { pixelCoverage } from './zonalStats';
+
+// What counts as forest. A pixel must meet the canopy cover and tree height minimums,
+// and belong to a contiguous patch of such pixels at least `minArea` in size.
+export interface ForestDefinition {
+  // %
+  minCanopyCover: number;
+  // m
+  minTreeHeight: number;
+  // ha
+  minArea: number;
+}
+
+export const FOREST_DEFINITION_PRESETS = {
+  nz_ets: { label: 'NZ ETS', definition: { minCanopyCover: 30, minTreeHeight: 5, minArea: 1 } },
+  fao: { label: 'FAO FRA', definition: { minCanopyCover: 10, minTreeHeight: 5, minArea: 0.5 } }
+} as const;
+
+export type ForestDefinitionPreset = keyof typeof FOREST_DEFINITION_PRESETS;
+
+export const DEFAULT_FOREST_DEFINITION: ForestDefinition = FOREST_DEFINITION_PRESETS.nz_ets.definition;
+
+type ForestFields<T> = { canopyCover?: (record: T) => number; treeHeight?: (record: T) => number };
+
+// Where each dataset keeps canopy cover (%) and tree height (m). Datasets without
+// either only publish their own forest flag, so a definition can't be applied to them.
+const FOREST_FIELDS = {
+  mangaroa: { canopyCover: record => record.canopy_cover, treeHeight: record => record.tree_height },
+  glad: { canopyCover: record => record.baseline_tree_cover }
+} satisfies { [K in DatasetKey]?: ForestFields<DataPointByDataset[K]> };
+
+export type ForestDatasetKey = keyof typeof FOREST_FIELDS;
+
+export const hasForestFields = (key: string): key is ForestDatasetKey => Object.hasOwn(FOREST_FIELDS, key);
+
+export type ForestStatus = 'forest' | 'too_small' | 'non_forest';
+
+export const FOREST_STATUS_COLORS: Record<ForestStatus, string> = {
+  forest: '#1a9850',
+  too_small: '#a6d96a',
+  non_forest: '#f5f5dc'
+};
+
+export const FOREST_STATUS_LABELS: Record<ForestStatus, string> = {
+  forest: 'Forest',
+  too_small: 'Meets cover/height, patch too small',
+  non_forest: 'Non-forest'
+};
+
+export interface ForestYear {
+  // null for datasets without years
+  year: number | null;
+  forestHa: number;
+  tooSmallHa: number;
+  totalHa: number;
+  forestPixels: number;
+}
+
+export interface ForestDefinitionResult {
+  dataset: ForestDatasetKey;
+  definition: ForestDefinition;
+  // Criteria the dataset has fields for; the others are not checked
+  criteria: { canopyCover: boolean; treeHeight: boolean };
+  years: ForestYear[];
+  // Year drawn in `cells`, with a `status` property per pixel
+  year: number | null;
+  cells: GeoJSON.FeatureCollection;
+}
+
+type ForestRecord = { pixel_id: number; x: number; y: number; footprint: GeoJSON.Polygon; year?: number };
+
+// Status of every pixel in one year. Patches are grown over edge-sharing neighbours
+// on the dataset's native grid.
+const classifyPixels = <T extends ForestRecord>(
+  records: T[],
+  fields: ForestFields<T>,
+  definition: ForestDefinition,
+  [width, height]: readonly [number, number]
+) => {
+  const cellKey = (i: number, j: number) => `${i}_${j}`;
+  const meets = new Map<string, T>();
+  const status = new Map<T, ForestStatus>();
+
+  records.forEach(record => {
+    const passes =
+      (!fields.canopyCover || fields.canopyCover(record) >= definition.minCanopyCover) &&
+      (!fields.treeHeight || fields.treeHeight(record) >= definition.minTreeHeight);
+    status.set(record, 'non_forest');
+    if (passes) meets.set(cellKey(Math.round(record.x / width), Math.round(record.y / height)), record);
+  });
+
+  const visited = new Set<string>();
+  meets.forEach((_, start) => {
+    if (visited.has(start)) return;
+
+    const patch: T[] = [];
+    const stack = [start];
+    visited.add(start);
+    while (stack.length) {
+      const key = stack.pop()!;
+      patch.push(meets.get(key)!);
+      const [i, j] = key.split('_').map(Number);
+      [cellKey(i + 1, j), cellKey(i - 1, j), cellKey(i, j + 1), cellKey(i, j - 1)].forEach(next => {
+        if (meets.has(next) && !visited.has(next)) {
+          visited.add(next);
+          stack.push(next);
+        }
+      });
+    }
+
+    const areaHa = patch.reduce((sum, record) => sum + geometryArea(record.footprint), 0) / SQUARE_METRES_PER_HECTARE;
+    patch.forEach(record => status.set(record, areaHa >= definition.minArea ? 'forest' : 'too_small'));
+  });
+
+  return status;
+};
+
+// Apply a forest definition to a dataset: forest area per year inside `zone` (the
+// whole dataset without one) and the forest/non-forest map for `year`
+export const applyForestDefinition = <K extends ForestDatasetKey>(
+  dataset: K,
+  records: DataPointByDataset[K][],
+  definition: ForestDefinition,
+  { year, zone }: { year?: number; zone?: PolygonalGeometry } = {}
+): ForestDefinitionResult => {
+  const fields = FOREST_FIELDS[dataset] as ForestFields<DataPointByDataset[K]>;
+  const years: readonly number[] = DATASETS[dataset].years;
+  const mapYear = years.length ? nearestYear(years, year ?? years[years.length - 1]) : null;
+  const coverageOf = pixelCoverage(zone);
+
+  // Patches are found over the whole dataset, then measured inside the zone
+  const byYear = new Map<number | null, DataPointByDataset[K][]>();
+  records.forEach(record => {
+    const recordYear = 'year' in record ? record.year : null;
+    if (!byYear.has(recordYear)) byYear.set(recordYear, []);
+    byYear.get(recordYear)!.push(record);
+  });
+
+  const features: GeoJSON.Feature[] = [];
+  const summaries = Array.from(byYear, ([recordYear, yearRecords]) => {
+    const status = classifyPixels(yearRecords, fields, definition, DATASETS[dataset].pixelSize);
+    const summary: ForestYear = { year: recordYear, forestHa: 0, tooSmallHa: 0, totalHa: 0, forestPixels: 0 };
+
+    yearRecords.forEach(record => {
+      const { weight, areaHa } = coverageOf(record);
+      if (!weight) return;
+
+      const pixelStatus = status.get(record)!;
+      summary.totalHa += weight * areaHa;
+      if (pixelStatus === 'forest') {
+        summary.forestHa += weight * areaHa;
+        summary.forestPixels++;
+      } else if (pixelStatus === 'too_small') {
+        summary.tooSmallHa += weight * areaHa;
+      }
+
+      if (recordYear === mapYear) {
+        features.push({
+          type: 'Feature',
+          properties: { pixel_id: record.pixel_id, status: pixelStatus },
+          geometry: record.footprint
+        });
+      }
+    });
+
+    return summary;
+  });
+
+  return {
+    dataset,
+    definition,
+    criteria: { canopyCover: 'canopyCover' in fields, treeHeight: 'treeHeight' in fields },
+    years: summaries.sort((a, b) => (a.year ?? 0) - (b.year ?? 0)),
+    year: mapYear,
+    cells: { type: 'FeatureCollection', features }
+  };
+};
+
+const FOREST_SOURCE_ID = 'forest-definition';
+const FOREST_LAYER_ID = 'forest-definition-fill';
+
+// Draw (or with null, remove) the derived forest/non-forest layer above the dataset layers
+export const showForestOnMap = (map: mapboxgl.Map, cells: GeoJSON.FeatureCollection | null) => {
+  if (map.getLayer(FOREST_LAYER_ID)) map.removeLayer(FOREST_LAYER_ID);
+  if (map.getSource(FOREST_SOURCE_ID)) map.removeSource(FOREST_SOURCE_ID);
+  if (!cells) return;
+
+  map.addSource(FOREST_SOURCE_ID, { type: 'geojson', data: cells });
+  map.addLayer({
+    id: FOREST_LAYER_ID,
+    type: 'fill',
+    source: FOREST_SOURCE_ID,
+    paint: {
+      'fill-color': [
+        'match',
+        ['get', 'status'],
+        ...Object.entries(FOREST_STATUS_COLORS).flat(),
+        '#cccccc'
+      ] as mapboxgl.Expression,
+      'fill-outline-color': '#ffffff',
+      'fill-opacity': 0.85
+    }
+  });
+};
+
+// Keep the forest layer on top after dataset layers are re-added
+export const raiseForestLayer = (map: mapboxgl.Map) => {
+  if (map.getLayer(FOREST_LAYER_ID)) map.moveLayer(FOREST_LAYER_ID);
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { coverageFraction, geometryArea, rectanglePolygon } from './geometry';
+
+const R = 6378137;
+const radians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Area of a lon/lat rectangle on the sphere: R² · Δλ · (sin φ2 - sin φ1)
+const cellArea = (west: number, south: number, east: number, north: number) =>
+  R * R * radians(east - west) * (Math.sin(radians(north)) - Math.sin(radians(south)));
+
+describe('geometryArea', () => {
+  it('matches the spherical area of a 1° cell at the equator and at 41°S', () => {
+    expect(geometryArea(rectanglePolygon([0, 0], [1, 1]))).toBeCloseTo(12391399902.07, 0);
+    expect(geometryArea(rectanglePolygon([175, -41], [176, -40]))).toBeCloseTo(cellArea(175, -41, 176, -40), 0);
+  });
+
+  it('does not depend on the winding of the ring', () => {
+    const ring = rectanglePolygon([175, -41], [175.01, -40.99]).coordinates[0];
+    expect(geometryArea({ type: 'Polygon', coordinates: [[...ring].reverse()] }))
+      .toBeCloseTo(geometryArea({ type: 'Polygon', coordinates: [ring] }), 6);
+  });
+
+  it('takes holes out and adds up multipolygons', () => {
+    const outer = rectanglePolygon([0, 0], [2, 2]).coordinates[0];
+    const hole = rectanglePolygon([0.5, 0.5], [1.5, 1.5]).coordinates[0];
+    const withHole = geometryArea({ type: 'Polygon', coordinates: [outer, hole] });
+
+    expect(withHole).toBeCloseTo(cellArea(0, 0, 2, 2) - cellArea(0.5, 0.5, 1.5, 1.5), 0);
+    expect(geometryArea({
+      type: 'MultiPolygon',
+      coordinates: [rectanglePolygon([0, 0], [1, 1]).coordinates, rectanglePolygon([3, 0], [4, 1]).coordinates]
+    })).toBeCloseTo(2 * cellArea(0, 0, 1, 1), 0);
+  });
+});
+
+// Clipping is planar, so shares at these longitudes are good to about 1e-6
+describe('coverageFraction', () => {
+  const pixel = rectanglePolygon([175, -41], [175.001, -40.999]);
+
+  it('is 1 for a pixel inside the zone', () => {
+    expect(coverageFraction(pixel, rectanglePolygon([174.9, -41.1], [175.1, -40.9]))).toBeCloseTo(1, 5);
+  });
+
+  it('is the covered share for a pixel on the zone edge', () => {
+    expect(coverageFraction(pixel, rectanglePolygon([175.0005, -41.1], [175.1, -40.9]))).toBeCloseTo(0.5, 5);
+    expect(coverageFraction(pixel, rectanglePolygon([175.00075, -40.99925], [175.1, -40.9]))).toBeCloseTo(0.0625, 5);
+  });
+
+  it('is 0 for a pixel outside the zone', () => {
+    expect(coverageFraction(pixel, rectanglePolygon([176, -41], [177, -40]))).toBe(0);
+  });
+
+  it('leaves a zone’s holes out', () => {
+    const outer = rectanglePolygon([174.9, -41.1], [175.1, -40.9]).coordinates[0];
+    const hole = rectanglePolygon([175, -41.1], [175.0005, -40.9]).coordinates[0];
+    expect(coverageFraction(pixel, { type: 'Polygon', coordinates: [outer, hole] })).toBeCloseTo(0.5, 5);
+  });
+
+  it('follows a triangular zone across the pixel', () => {
+    // The diagonal from the pixel's south-west to north-east corner halves it
+    const triangle: GeoJSON.Polygon = {
+      type: 'Polygon',
+      coordinates: [[[175, -41], [175.001, -41], [175.001, -40.999], [175, -41]]]
+    };
+    expect(coverageFraction(pixel, triangle)).toBeCloseTo(0.5, 6);
+  });
+});
@@ -0,0 +1,152 @@
+// Planar and spherical helpers for longitude/latitude polygons
+
+export type PolygonalGeometry = GeoJSON.Polygon | GeoJSON.MultiPolygon;
+export type BBox = [number, number, number, number];
+
+const EARTH_RADIUS = 6378137;
+
+const polygonsOf = (geometry: PolygonalGeometry): GeoJSON.Position[][][] =>
+  geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+
+export const isPolygonal = (geometry: GeoJSON.Geometry | null | undefined): geometry is PolygonalGeometry =>
+  geometry?.type === 'Polygon' || geometry?.type === 'MultiPolygon';
+
+export const geometryBBox = (geometry: PolygonalGeometry): BBox =>
+  polygonsOf(geometry).flat(2).reduce<BBox>(
+    ([minX, minY, maxX, maxY], [x, y]) => [Math.min(minX, x), Math.min(minY, y), Math.max(maxX, x), Math.max(maxY, y)],
+    [Infinity, Infinity, -Infinity, -Infinity]
+  );
+
+// Even-odd ray casting against one ring
+const pointInRing = ([px, py]: [number, number], ring: GeoJSON.Position[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > py) !== (yj > py) && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// True when the point lies inside the outer ring of any polygon and outside its holes
+export const pointInGeometry = (point: [number, number], geometry: PolygonalGeometry): boolean =>
+  polygonsOf(geometry).some(([outer, ...holes]) =>
+    pointInRing(point, outer) && !holes.some(hole => pointInRing(point, hole))
+  );
+
+// Mean of a polygon's outer ring vertices; the centre of a pixel footprint
+export const polygonCentre = (polygon: GeoJSON.Polygon): [number, number] => {
+  const ring = polygon.coordinates[0].slice(0, -1);
+  return [
+    ring.reduce((sum, [x]) => sum + x, 0) / ring.length,
+    ring.reduce((sum, [, y]) => sum + y, 0) / ring.length
+  ];
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Spherical area of a ring in square metres (Chamberlain & Duquette, 2007)
+const ringArea = (ring: GeoJSON.Position[]): number => {
+  let total = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [x1, y1] = ring[i];
+    const [x2, y2] = ring[i + 1];
+    total += toRadians(x2 - x1) * (2 + Math.sin(toRadians(y1)) + Math.sin(toRadians(y2)));
+  }
+  return Math.abs((total * EARTH_RADIUS * EARTH_RADIUS) / 2);
+};
+
+export const geometryArea = (geometry: PolygonalGeometry): number =>
+  polygonsOf(geometry).reduce(
+    (sum, [outer, ...holes]) => sum + ringArea(outer) - holes.reduce((holeSum, hole) => holeSum + ringArea(hole), 0),
+    0
+  );
+
+export const SQUARE_METRES_PER_HECTARE = 10000;
+
+// Twice the signed planar area of a ring; positive when counter-clockwise
+const signedArea2 = (ring: GeoJSON.Position[]): number => {
+  let total = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    total += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return total;
+};
+
+// Sutherland–Hodgman: the part of `subject` inside the convex ring `clip`
+const clipToConvexRing = (subject: GeoJSON.Position[], clip: GeoJSON.Position[]): GeoJSON.Position[] => {
+  const window = signedArea2(clip) < 0 ? [...clip].reverse() : clip;
+  let output = subject.slice(0, -1);
+
+  for (let i = 0; i < window.length - 1 && output.length; i++) {
+    const [ax, ay] = window[i];
+    const [bx, by] = window[i + 1];
+    const inside = ([x, y]: GeoJSON.Position) => (bx - ax) * (y - ay) - (by - ay) * (x - ax) >= 0;
+    const intersect = ([px, py]: GeoJSON.Position, [qx, qy]: GeoJSON.Position): GeoJSON.Position => {
+      const a1 = by - ay, b1 = ax - bx, c1 = a1 * ax + b1 * ay;
+      const a2 = qy - py, b2 = px - qx, c2 = a2 * px + b2 * py;
+      const det = a1 * b2 - a2 * b1;
+      return [(b2 * c1 - b1 * c2) / det, (a1 * c2 - a2 * c1) / det];
+    };
+
+    const input = output;
+    output = [];
+    input.forEach((current, k) => {
+      const previous = input[(k + input.length - 1) % input.length];
+      if (inside(current)) {
+        if (!inside(previous)) output.push(intersect(previous, current));
+        output.push(current);
+      } else if (inside(previous)) {
+        output.push(intersect(previous, current));
+      }
+    });
+  }
+
+  return output.length ? [...output, output[0]] : [];
+};
+
+// Share (0-1) of a convex pixel footprint covered by a zone, holes excluded
+export const coverageFraction = (pixel: GeoJSON.Polygon, zone: PolygonalGeometry): number => {
+  const pixelRing = pixel.coordinates[0];
+  const pixelArea = Math.abs(signedArea2(pixelRing));
+  if (!pixelArea) return 0;
+
+  const covered = polygonsOf(zone).reduce((sum, [outer, ...holes]) =>
+    sum +
+    Math.abs(signedArea2(clipToConvexRing(outer, pixelRing))) -
+    holes.reduce((holeSum, hole) => holeSum + Math.abs(signedArea2(clipToConvexRing(hole, pixelRing))), 0),
+    0
+  );
+
+  return Math.min(1, Math.max(0, covered / pixelArea));
+};
+
+export const bboxesOverlap = ([aMinX, aMinY, aMaxX, aMaxY]: BBox, [bMinX, bMinY, bMaxX, bMaxY]: BBox): boolean =>
+  aMinX <= bMaxX && aMaxX >= bMinX && aMinY <= bMaxY && aMaxY >= bMinY;
+
+// Closed polygon approximating a circle of `radius` metres around a centre
+export const circlePolygon = ([lng, lat]: [number, number], radius: number, steps = 64): GeoJSON.Polygon => {
+  const dLat = toDegrees(radius / EARTH_RADIUS);
+  const dLng = dLat / Math.cos(toRadians(lat));
+  const ring = Array.from({ length: steps }, (_, i): GeoJSON.Position => {
+    const angle = (2 * Math.PI * i) / steps;
+    return [lng + dLng * Math.cos(angle), lat + dLat * Math.sin(angle)];
+  });
+  return { type: 'Polygon', coordinates: [[...ring, ring[0]]] };
+};
+
+export const rectanglePolygon = ([x1, y1]: [number, number], [x2, y2]: [number, number]): GeoJSON.Polygon => ({
+  type: 'Polygon',
+  coordinates: [[[x1, y1], [x2, y1], [x2, y2], [x1, y2], [x1, y1]]]
+});
+
+// Great-circle distance in metres
+export const distance = ([lng1, lat1]: [number, number], [lng2, lat2]: [number, number]): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.sqrt(a));
+};
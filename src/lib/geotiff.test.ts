@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { rasterToRows, type RasterData } from './geotiff';
+
+const raster = (band: ArrayLike<number>, noData: number | null): RasterData => ({
+  width: band.length,
+  height: 1,
+  epsg: 4326,
+  origin: [175, -41],
+  resolution: [0.001, -0.001],
+  noData,
+  bandNames: ['value'],
+  bands: [band]
+});
+
+describe('rasterToRows', () => {
+  it('skips nodata pixels in a float32 band', () => {
+    // GDAL often writes the float32 minimum as -3.40282346638529e+38, which is not
+    // the value the band stores
+    const noData = -3.40282346638529e38;
+    const band = Float32Array.from([noData, 12.5, noData]);
+    expect(band[0]).not.toBe(noData);
+
+    expect(rasterToRows(raster(band, noData)).map(row => row.value)).toEqual([12.5]);
+  });
+
+  it('skips a fractional nodata value that float32 cannot hold exactly', () => {
+    const band = Float32Array.from([0.1, 2, -9999.9]);
+
+    expect(rasterToRows(raster(band, -9999.9)).map(row => row.value)).toEqual([Math.fround(0.1), 2]);
+  });
+
+  it('skips nodata in a float64 band and NaN pixels', () => {
+    const band = Float64Array.from([-9999.9, NaN, 3]);
+
+    expect(rasterToRows(raster(band, -9999.9)).map(row => row.value)).toEqual([3]);
+  });
+
+  it('keeps every pixel when there is no nodata value', () => {
+    expect(rasterToRows(raster(Uint8Array.from([0, 255]), null))).toHaveLength(2);
+  });
+
+  it('places each row at its pixel centre with the pixel outline as footprint', () => {
+    const [row] = rasterToRows(raster(Uint8Array.from([1]), null), { year: 2024 });
+
+    expect(row.x).toBeCloseTo(175.0005);
+    expect(row.y).toBeCloseTo(-41.0005);
+    expect(row.year).toBe(2024);
+    expect(row.footprint.coordinates[0][2]).toEqual([175.001, -41.001]);
+  });
+});
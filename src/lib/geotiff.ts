@@ -0,0 +1,199 @@
+import { fromArrayBuffer } from 'geotiff';
+import {
+  DATASETS,
+  MANGAROA_COLUMNS,
+  ROW_PARSERS,
+  type CsvRow,
+  type DataPointByDataset,
+  type DatasetKey
+} from './datasets';
+
+// A decoded raster. `origin` is the outer corner of the top-left pixel and
+// `resolution` the pixel step in CRS units (the y step is negative for north-up images).
+export interface RasterData {
+  width: number;
+  height: number;
+  epsg: number;
+  origin: [number, number];
+  resolution: [number, number];
+  noData: number | null;
+  bandNames: string[];
+  bands: ArrayLike<number>[];
+}
+
+type Projection = (x: number, y: number) => [number, number];
+
+export const isGeoTIFF = (file: string) => /\.tiff?$/i.test(file);
+
+// WGS84 ellipsoid; the GRS80 difference is far below a pixel
+const SEMI_MAJOR_AXIS = 6378137;
+const FLATTENING = 1 / 298.257223563;
+const E2 = FLATTENING * (2 - FLATTENING);
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Inverse transverse Mercator (Snyder, Map Projections: A Working Manual, p. 63)
+const inverseTransverseMercator = (lon0: number, k0: number, falseEasting: number, falseNorthing: number): Projection => {
+  const ep2 = E2 / (1 - E2);
+  const e1 = (1 - Math.sqrt(1 - E2)) / (1 + Math.sqrt(1 - E2));
+
+  return (x, y) => {
+    const mu = (y - falseNorthing) / k0 / (SEMI_MAJOR_AXIS * (1 - E2 / 4 - (3 * E2 ** 2) / 64 - (5 * E2 ** 3) / 256));
+    const phi1 = mu +
+      ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+      ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+      ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+      ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+    const sin = Math.sin(phi1);
+    const cos = Math.cos(phi1);
+    const tan = Math.tan(phi1);
+    const n1 = SEMI_MAJOR_AXIS / Math.sqrt(1 - E2 * sin * sin);
+    const t1 = tan * tan;
+    const c1 = ep2 * cos * cos;
+    const r1 = (SEMI_MAJOR_AXIS * (1 - E2)) / (1 - E2 * sin * sin) ** 1.5;
+    const d = (x - falseEasting) / (n1 * k0);
+
+    const lat = phi1 - ((n1 * tan) / r1) * (
+      (d ** 2) / 2 -
+      ((5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * ep2) * d ** 4) / 24 +
+      ((61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * ep2 - 3 * c1 ** 2) * d ** 6) / 720
+    );
+    const lng = (d - ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+      ((5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * ep2 + 24 * t1 ** 2) * d ** 5) / 120) / cos;
+
+    return [lon0 + toDegrees(lng), toDegrees(lat)];
+  };
+};
+
+const inverseWebMercator: Projection = (x, y) => [
+  toDegrees(x / SEMI_MAJOR_AXIS),
+  toDegrees(2 * Math.atan(Math.exp(y / SEMI_MAJOR_AXIS)) - Math.PI / 2)
+];
+
+// Projection from a supported CRS to longitude/latitude: geographic CRSs,
+// Web Mercator, NZTM2000 and the WGS84 UTM zones
+const projectionFor = (epsg: number): Projection => {
+  if (epsg === 4326 || epsg === 4167 || epsg === 4269 || epsg === 4283) return (x, y) => [x, y];
+  if (epsg === 3857) return inverseWebMercator;
+  if (epsg === 2193) return inverseTransverseMercator(173, 0.9996, 1600000, 10000000);
+  if (epsg > 32600 && epsg <= 32660) return inverseTransverseMercator((epsg - 32600) * 6 - 183, 0.9996, 500000, 0);
+  if (epsg > 32700 && epsg <= 32760) return inverseTransverseMercator((epsg - 32700) * 6 - 183, 0.9996, 500000, 10000000);
+
+  throw new Error(`Unsupported GeoTIFF CRS EPSG:${epsg}; reproject to EPSG:4326`);
+};
+
+// Decode the first image of a GeoTIFF held in memory
+export const readGeoTIFF = async (source: ArrayBuffer): Promise<RasterData> => {
+  const tiff = await fromArrayBuffer(source);
+  const image = await tiff.getImage();
+  const geoKeys = image.getGeoKeys() ?? {};
+
+  const epsg = geoKeys.ProjectedCSTypeGeoKey ?? geoKeys.GeographicTypeGeoKey;
+  if (!epsg) {
+    throw new Error('GeoTIFF has no georeferencing');
+  }
+
+  const [originX, originY] = image.getOrigin();
+  const [resX, resY] = image.getResolution();
+
+  // PixelIsPoint rasters reference pixel centres; shift to the outer corner
+  const isPoint = geoKeys.GTRasterTypeGeoKey === 2;
+  const origin: [number, number] = isPoint ? [originX - resX / 2, originY - resY / 2] : [originX, originY];
+
+  const bandCount = image.getSamplesPerPixel();
+  const bandNames = Array.from({ length: bandCount }, (_, sample) =>
+    image.getGDALMetadata(sample)?.DESCRIPTION?.trim() || `band_${sample + 1}`
+  );
+
+  const rasters = await image.readRasters();
+
+  return {
+    width: image.getWidth(),
+    height: image.getHeight(),
+    epsg,
+    origin,
+    resolution: [resX, resY],
+    noData: image.getGDALNoData(),
+    bandNames,
+    bands: Array.from(rasters as ArrayLike<ArrayLike<number>>)
+  };
+};
+
+// GDAL keeps nodata as text, so a float32 band holds it rounded to single precision
+// and never equals the parsed double exactly
+const noDataTest = (noData: number | null) => {
+  if (noData === null) return () => false;
+  const single = Math.fround(noData);
+  return (value: number) => value === noData || value === single;
+};
+
+// One header-keyed row per pixel, in the shape the CSV row parsers take: x/y are
+// the pixel centre in longitude/latitude, each band becomes a column and `footprint`
+// carries the reprojected pixel outline. Pixels where any band is nodata are skipped.
+export const rasterToRows = (
+  raster: RasterData,
+  { columns = raster.bandNames, year }: { columns?: string[]; year?: number } = {}
+): CsvRow[] => {
+  const project = projectionFor(raster.epsg);
+  const { width, height, origin: [x0, y0], resolution: [dx, dy], noData, bands } = raster;
+  const corner = (col: number, row: number) => project(x0 + col * dx, y0 + row * dy);
+  const isNoData = noDataTest(noData);
+  const rows: CsvRow[] = [];
+
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const index = row * width + col;
+      const values = bands.map(band => band[index]);
+
+      if (values.some(value => Number.isNaN(value) || isNoData(value))) continue;
+
+      const [x, y] = project(x0 + (col + 0.5) * dx, y0 + (row + 0.5) * dy);
+      const topLeft = corner(col, row);
+      const footprint: GeoJSON.Polygon = {
+        type: 'Polygon',
+        coordinates: [[topLeft, corner(col + 1, row), corner(col + 1, row + 1), corner(col, row + 1), topLeft]]
+      };
+
+      rows.push({
+        x,
+        y,
+        ...(year !== undefined && { year }),
+        ...Object.fromEntries(columns.map((column, band) => [column, values[band]])),
+        footprint
+      });
+    }
+  }
+
+  return rows;
+};
+
+// CSV columns each dataset's row parser reads, in the band order expected when
+// a GeoTIFF carries no band descriptions
+export const RASTER_BAND_COLUMNS: { [K in DatasetKey]: readonly string[] } = {
+  mangaroa: Object.values(MANGAROA_COLUMNS).map(({ column }) => column),
+  glad: ['datamask', 'gain', 'lossyear', 'treecover2000'],
+  io_class: DATASETS.io_class.years.map(year => `class_${year}`),
+  jrc_cover: ['forest_cover_2020'],
+  jrc_type: ['forest_type_2020']
+};
+
+// A four-digit year in a file name, e.g. canopy_2024.tif
+export const yearFromFileName = (file: string): number | undefined => {
+  const match = file.match(/(?:^|\D)((?:19|20)\d{2})(?:\D|$)/);
+  return match ? Number(match[1]) : undefined;
+};
+
+// Parse a decoded raster into a dataset's records. Bands are matched to the
+// dataset's columns by description, or by position when they are unnamed.
+export const parseGeoTIFFDataset = <K extends DatasetKey>(
+  datasetKey: K,
+  raster: RasterData,
+  { year }: { year?: number } = {}
+): DataPointByDataset[K][] => {
+  const expected = RASTER_BAND_COLUMNS[datasetKey];
+  const named = raster.bandNames.every(name => expected.includes(name));
+  const columns = named ? raster.bandNames : raster.bandNames.map((name, band) => expected[band] ?? name);
+
+  return ROW_PARSERS[datasetKey](rasterToRows(raster, { columns, year }));
+};
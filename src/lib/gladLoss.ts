@@ -0,0 +1,41 @@
+import { SQUARE_METRES_PER_HECTARE, geometryArea } from './geometry';
+
+// GLAD (v1.11) records loss from 2001 to 2023
+export const GLAD_LOSS_YEARS = Array.from({ length: 23 }, (_, i) => 2001 + i);
+
+// Loss-year view of GLAD: pixels lost within `range`, with one year optionally highlighted
+export interface LossYearView {
+  range: [number, number];
+  highlight: number | null;
+}
+
+export const DEFAULT_LOSS_YEAR_VIEW: LossYearView = {
+  range: [GLAD_LOSS_YEARS[0], GLAD_LOSS_YEARS[GLAD_LOSS_YEARS.length - 1]],
+  highlight: null
+};
+
+// Pixels without loss stay on the map for context; loss outside the range is hidden
+export const inLossYearRange = (properties: GeoJSON.GeoJsonProperties, [from, to]: [number, number]) => {
+  const year = properties?.forest_loss_year;
+  return typeof year !== 'number' || (year >= from && year <= to);
+};
+
+export interface AnnualLoss {
+  year: number;
+  pixels: number;
+  hectares: number;
+}
+
+// Pixels and hectares lost in every GLAD loss year
+export const annualLoss = (features: GeoJSON.Feature[]): AnnualLoss[] => {
+  const losses = new Map(GLAD_LOSS_YEARS.map(year => [year, { year, pixels: 0, hectares: 0 }]));
+
+  features.forEach(feature => {
+    const loss = losses.get(feature.properties?.forest_loss_year);
+    if (!loss || feature.geometry.type !== 'Polygon') return;
+    loss.pixels++;
+    loss.hectares += geometryArea(feature.geometry) / SQUARE_METRES_PER_HECTARE;
+  });
+
+  return Array.from(losses.values());
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GLAD_THRESHOLDS, countMasks, matchesMaskQuery, type MaskQuery } from './gladMasks';
+
+const gain = { has_data: true, has_forest_gain: true, forest_loss_year: null, baseline_tree_cover: 80 };
+const loss = { has_data: true, has_forest_gain: false, forest_loss_year: 2015, baseline_tree_cover: 20 };
+
+describe('matchesMaskQuery', () => {
+  it('matches every pixel when no masks are picked', () => {
+    (['and', 'or'] as const).forEach(operator => {
+      const query: MaskQuery = { operator, terms: [] };
+      expect(matchesMaskQuery(gain, query, DEFAULT_GLAD_THRESHOLDS)).toBe(true);
+      expect(matchesMaskQuery(loss, query, DEFAULT_GLAD_THRESHOLDS)).toBe(true);
+    });
+  });
+
+  it('combines negated terms with AND and OR', () => {
+    const terms = [{ mask: 'hasForestGain', negate: false }, { mask: 'isForested', negate: true }] as MaskQuery['terms'];
+    expect(matchesMaskQuery(gain, { operator: 'and', terms }, DEFAULT_GLAD_THRESHOLDS)).toBe(false);
+    expect(matchesMaskQuery(gain, { operator: 'or', terms }, DEFAULT_GLAD_THRESHOLDS)).toBe(true);
+    expect(matchesMaskQuery(loss, { operator: 'or', terms }, DEFAULT_GLAD_THRESHOLDS)).toBe(true);
+  });
+});
+
+describe('countMasks', () => {
+  it('counts every pixel as matched when no masks are picked', () => {
+    const counts = countMasks([gain, loss], { operator: 'or', terms: [] }, DEFAULT_GLAD_THRESHOLDS);
+    expect(counts.matched).toBe(2);
+    expect(counts.masks).toMatchObject({ hasForestGain: 1, hasForestLoss: 1, isForested: 1 });
+  });
+});
@@ -0,0 +1,91 @@
+import type { GLADDataPoint } from './datasets';
+
+// Tree-cover (%) bounds between the low, medium and high classes; `forest` is also
+// the forest definition
+export interface GladThresholds {
+  forest: number;
+  high: number;
+}
+
+export const DEFAULT_GLAD_THRESHOLDS: GladThresholds = { forest: 30, high: 70 };
+
+type GladFields = Pick<GLADDataPoint, 'has_data' | 'has_forest_gain' | 'forest_loss_year' | 'baseline_tree_cover'>;
+
+// Binary masks over a GLAD pixel
+export const GLAD_MASKS = {
+  hasData: { label: 'Has data', test: (p: GladFields) => p.has_data },
+  hasForestGain: { label: 'Forest gain', test: (p: GladFields) => p.has_forest_gain },
+  hasForestLoss: { label: 'Forest loss', test: (p: GladFields) => p.forest_loss_year !== null },
+  hasAnyTreeCover: { label: 'Any tree cover', test: (p: GladFields) => p.baseline_tree_cover > 0 },
+  hasLowTreeCover: {
+    label: 'Low tree cover',
+    cover: (t: GladThresholds) => `1–${t.forest - 1}%`,
+    test: (p: GladFields, t: GladThresholds) => p.baseline_tree_cover > 0 && p.baseline_tree_cover < t.forest
+  },
+  hasMediumTreeCover: {
+    label: 'Medium tree cover',
+    cover: (t: GladThresholds) => `${t.forest}–${t.high - 1}%`,
+    test: (p: GladFields, t: GladThresholds) => p.baseline_tree_cover >= t.forest && p.baseline_tree_cover < t.high
+  },
+  hasHighTreeCover: {
+    label: 'High tree cover',
+    cover: (t: GladThresholds) => `≥ ${t.high}%`,
+    test: (p: GladFields, t: GladThresholds) => p.baseline_tree_cover >= t.high
+  },
+  hasAnyChange: { label: 'Any change', test: (p: GladFields) => p.has_forest_gain || p.forest_loss_year !== null },
+  isForested: {
+    label: 'Forested',
+    cover: (t: GladThresholds) => `≥ ${t.forest}%`,
+    test: (p: GladFields, t: GladThresholds) => p.baseline_tree_cover >= t.forest
+  },
+  isValidForestPixel: { label: 'Valid forest pixel', test: (p: GladFields) => p.has_data && p.baseline_tree_cover > 0 }
+} as const;
+
+export type GladMaskKey = keyof typeof GLAD_MASKS;
+
+export const GLAD_MASK_KEYS = Object.keys(GLAD_MASKS) as GladMaskKey[];
+
+// Mask name, with the tree-cover range for the threshold-based masks
+export const gladMaskLabel = (mask: GladMaskKey, thresholds: GladThresholds) => {
+  const definition = GLAD_MASKS[mask];
+  return 'cover' in definition ? `${definition.label} (${definition.cover(thresholds)})` : definition.label;
+};
+
+// Masks combined with AND or OR; each term may be negated
+export interface MaskQuery {
+  operator: 'and' | 'or';
+  terms: { mask: GladMaskKey; negate: boolean }[];
+}
+
+// The query with no masks picked is no filter, so every pixel matches it
+export const isEmptyMaskQuery = (query: MaskQuery) => query.terms.length === 0;
+
+export const matchesMaskQuery = (point: GladFields, { operator, terms }: MaskQuery, thresholds: GladThresholds) => {
+  if (!terms.length) return true;
+  const results = terms.map(term => GLAD_MASKS[term.mask].test(point, thresholds) !== term.negate);
+  return operator === 'and' ? results.every(Boolean) : results.some(Boolean);
+};
+
+export interface MaskCounts {
+  total: number;
+  matched: number;
+  masks: Record<GladMaskKey, number>;
+}
+
+// Pixels inside each mask and inside the combined query, as the analysis scripts reported them
+export const countMasks = (points: GladFields[], query: MaskQuery, thresholds: GladThresholds): MaskCounts => {
+  const counts: MaskCounts = {
+    total: points.length,
+    matched: 0,
+    masks: Object.fromEntries(GLAD_MASK_KEYS.map(key => [key, 0])) as Record<GladMaskKey, number>
+  };
+
+  points.forEach(point => {
+    GLAD_MASK_KEYS.forEach(key => {
+      if (GLAD_MASKS[key].test(point, thresholds)) counts.masks[key]++;
+    });
+    if (matchesMaskQuery(point, query, thresholds)) counts.matched++;
+  });
+
+  return counts;
+};
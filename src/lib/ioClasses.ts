@@ -0,0 +1,24 @@
+// Impact Observatory 9-class land use / land cover codes, with IO's own palette
+export const IO_CLASSES = {
+  1: { label: 'Water', color: '#419bdf' },
+  2: { label: 'Trees', color: '#397d49' },
+  4: { label: 'Flooded vegetation', color: '#7a87c6' },
+  5: { label: 'Crops', color: '#e49635' },
+  7: { label: 'Built area', color: '#c4281b' },
+  8: { label: 'Bare ground', color: '#a59b8f' },
+  9: { label: 'Snow/ice', color: '#a8ebff' },
+  10: { label: 'Clouds', color: '#616161' },
+  11: { label: 'Rangeland', color: '#e3e2c3' }
+} as const;
+
+export type IOClassCode = keyof typeof IO_CLASSES;
+
+export const IO_CLASS_CODES = Object.keys(IO_CLASSES).map(Number) as IOClassCode[];
+
+export const UNKNOWN_IO_CLASS_COLOR = '#cccccc';
+
+export const isIOClassCode = (code: number): code is IOClassCode => code in IO_CLASSES;
+
+export const ioClassLabel = (code: number) => (isIOClassCode(code) ? IO_CLASSES[code].label : `Class ${code}`);
+
+export const ioClassColor = (code: number) => (isIOClassCode(code) ? IO_CLASSES[code].color : UNKNOWN_IO_CLASS_COLOR);
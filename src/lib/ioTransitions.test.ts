@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { DATASETS, pixelFootprint, type IOClassDataPoint } from './datasets';
+import { SQUARE_METRES_PER_HECTARE, geometryArea } from './geometry';
+import { classAreasByYear, transitionFlows, transitionMatrix } from './ioTransitions';
+
+const YEARS = DATASETS.io_class.years;
+
+// Every yearly record of one pixel, each carrying its full class history
+const pixel = (pixelId: number, classes: number[]): IOClassDataPoint[] => {
+  const x = 175.08 + pixelId * 0.0001;
+  const y = -41.15;
+  const history = Object.fromEntries(YEARS.map((year, i) => [`class_${year}`, classes[i]]));
+  return YEARS.map((year, i) => ({
+    ...history,
+    id: `io_${x}_${y}_${year}`,
+    pixel_id: pixelId,
+    x,
+    y,
+    coordinates: [x, y],
+    footprint: pixelFootprint(x, y, DATASETS.io_class.pixelSize),
+    year,
+    land_class: classes[i]
+  }) as IOClassDataPoint);
+};
+
+const RANGELAND = 11;
+const TREES = 2;
+const CROPS = 5;
+const NO_DATA = 255;
+
+const records = [
+  ...pixel(0, [RANGELAND, RANGELAND, RANGELAND, TREES, TREES, TREES, TREES]),
+  ...pixel(1, [RANGELAND, RANGELAND, RANGELAND, RANGELAND, RANGELAND, RANGELAND, RANGELAND]),
+  // Classified in 2017, no data from 2021 on
+  ...pixel(2, [CROPS, CROPS, CROPS, CROPS, NO_DATA, NO_DATA, NO_DATA]),
+  // A blank cell in 2019
+  ...pixel(3, [TREES, TREES, NaN, TREES, TREES, TREES, TREES])
+];
+
+const pixelHa = (pixelId: number) => geometryArea(records[pixelId * YEARS.length].footprint) / SQUARE_METRES_PER_HECTARE;
+
+describe('transitionMatrix', () => {
+  it('counts from/to classes between two years', () => {
+    const matrix = transitionMatrix(records, 2017, 2020);
+
+    expect(matrix.classes).toEqual([TREES, CROPS, RANGELAND]);
+    expect(matrix.cells.map(({ from, to, pixels }) => ({ from, to, pixels }))).toEqual([
+      { from: RANGELAND, to: TREES, pixels: 1 },
+      { from: RANGELAND, to: RANGELAND, pixels: 1 },
+      { from: CROPS, to: CROPS, pixels: 1 },
+      { from: TREES, to: TREES, pixels: 1 }
+    ]);
+    expect(matrix.pixels).toBe(4);
+    expect(matrix.noData).toEqual({ pixels: 0, hectares: 0 });
+  });
+
+  it('leaves no-data pixels out of the matrix and counts them separately', () => {
+    const matrix = transitionMatrix(records, 2017, 2023);
+
+    expect(matrix.classes).not.toContain(NO_DATA);
+    expect(matrix.cells.some(cell => cell.to === NO_DATA)).toBe(false);
+    expect(matrix.pixels).toBe(3);
+    expect(matrix.noData.pixels).toBe(1);
+    expect(matrix.noData.hectares).toBeCloseTo(pixelHa(2), 10);
+    expect(matrix.hectares).toBeCloseTo(pixelHa(0) + pixelHa(1) + pixelHa(3), 10);
+  });
+
+  it('treats a blank class as no data', () => {
+    const matrix = transitionMatrix(records, 2019, 2020);
+
+    expect(matrix.noData.pixels).toBe(1);
+    expect(matrix.cells.every(cell => Number.isFinite(cell.from))).toBe(true);
+  });
+});
+
+describe('transitionFlows', () => {
+  it('links consecutive years without no-data nodes', () => {
+    const { nodes, links } = transitionFlows(records);
+
+    expect(nodes.some(node => node.code === NO_DATA || !Number.isFinite(node.code))).toBe(false);
+    expect(nodes.map(node => node.name)).toContain('Trees 2020');
+    expect(nodes.map(node => node.name)).not.toContain('Class 255 2021');
+
+    // 2020 → 2021: pixel 2 goes to no data, so only three pixels flow on
+    const flow2020 = links.filter(link => nodes[link.source].year === 2020);
+    expect(flow2020.reduce((sum, link) => sum + link.pixels, 0)).toBe(3);
+  });
+});
+
+describe('classAreasByYear', () => {
+  it('keeps no-data pixels out of the class areas and counts them per year', () => {
+    const areas = classAreasByYear(records);
+    const year = (target: number) => areas.find(entry => entry.year === target)!;
+
+    expect(areas.map(entry => entry.year)).toEqual([...YEARS]);
+    expect(year(2017).pixels).toEqual({ [RANGELAND]: 2, [CROPS]: 1, [TREES]: 1 });
+    expect(year(2017).noData).toEqual({ pixels: 0, hectares: 0 });
+
+    expect(year(2019).pixels).toEqual({ [RANGELAND]: 2, [CROPS]: 1 });
+    expect(year(2019).noData.pixels).toBe(1);
+
+    expect(year(2021).pixels).toEqual({ [RANGELAND]: 1, [TREES]: 2 });
+    expect(year(2021).pixels).not.toHaveProperty(String(NO_DATA));
+    expect(year(2021).noData.pixels).toBe(1);
+    expect(year(2021).noData.hectares).toBeCloseTo(pixelHa(2), 10);
+  });
+});
@@ -0,0 +1,169 @@
+import { DATASETS, NO_DATA, type IOClassDataPoint } from './datasets';
+import type { PolygonalGeometry } from './geometry';
+import { ioClassLabel } from './ioClasses';
+import { pixelCoverage } from './zonalStats';
+
+export interface TransitionCell {
+  from: number;
+  to: number;
+  pixels: number;
+  hectares: number;
+}
+
+// From/to class counts between two years
+export interface TransitionMatrix {
+  fromYear: number;
+  toYear: number;
+  // Every class seen in either year, ascending
+  classes: number[];
+  cells: TransitionCell[];
+  pixels: number;
+  hectares: number;
+  // Pixels without a class in either year, left out of the cells and totals
+  noData: { pixels: number; hectares: number };
+}
+
+// Sankey nodes are one class in one year; links join consecutive years
+export interface TransitionFlows {
+  nodes: { name: string; year: number; code: number }[];
+  links: { source: number; target: number; pixels: number; hectares: number }[];
+}
+
+// Pixels and hectares in each class, keyed by class code
+export interface ClassAreas {
+  year: number;
+  pixels: Record<number, number>;
+  hectares: Record<number, number>;
+  // Pixels without a class that year, not in any class above
+  noData: { pixels: number; hectares: number };
+}
+
+export interface TransitionAnalysis {
+  matrix: TransitionMatrix;
+  flows: TransitionFlows;
+  classAreas: ClassAreas[];
+}
+
+// Pixels that went from one class to another, used to filter the map
+export interface TransitionFilter {
+  fromYear: number;
+  toYear: number;
+  from: number;
+  to: number;
+}
+
+// Every record carries the pixel's full class history in its class_YYYY columns
+export const classInYear = (record: IOClassDataPoint, year: number) =>
+  record[`class_${year}` as keyof IOClassDataPoint] as number;
+
+// No-data cells (255, or blank) are not a class: they stay out of the matrix, flows
+// and class areas rather than showing up as "Class 255"
+const hasClass = (code: number) => Number.isFinite(code) && code !== NO_DATA;
+
+export const matchesTransition = (properties: GeoJSON.GeoJsonProperties, { fromYear, toYear, from, to }: TransitionFilter) =>
+  properties?.[`class_${fromYear}`] === from && properties?.[`class_${toYear}`] === to;
+
+// One record per pixel (its history is on every year's record), with the area inside the zone
+const zonePixels = (records: IOClassDataPoint[], zone?: PolygonalGeometry) => {
+  const coverageOf = pixelCoverage(zone);
+  const firstYear = DATASETS.io_class.years[0];
+
+  return records
+    .filter(record => record.year === firstYear)
+    .map(record => {
+      const { weight, areaHa } = coverageOf(record);
+      return { record, weight, hectares: weight * areaHa };
+    })
+    .filter(pixel => pixel.weight > 0);
+};
+
+export const transitionMatrix = (
+  records: IOClassDataPoint[],
+  fromYear: number,
+  toYear: number,
+  zone?: PolygonalGeometry
+): TransitionMatrix => {
+  const cells = new Map<string, TransitionCell>();
+  const noData = { pixels: 0, hectares: 0 };
+  let pixels = 0;
+  let hectares = 0;
+
+  zonePixels(records, zone).forEach(pixel => {
+    const from = classInYear(pixel.record, fromYear);
+    const to = classInYear(pixel.record, toYear);
+    if (!hasClass(from) || !hasClass(to)) {
+      noData.pixels++;
+      noData.hectares += pixel.hectares;
+      return;
+    }
+
+    const cell = cells.get(`${from}_${to}`) ?? { from, to, pixels: 0, hectares: 0 };
+    cell.pixels++;
+    cell.hectares += pixel.hectares;
+    cells.set(`${from}_${to}`, cell);
+    pixels++;
+    hectares += pixel.hectares;
+  });
+
+  const classes = Array.from(new Set(Array.from(cells.values()).flatMap(cell => [cell.from, cell.to]))).sort((a, b) => a - b);
+  return { fromYear, toYear, classes, cells: Array.from(cells.values()), pixels, hectares, noData };
+};
+
+// Area of each class in every year
+export const classAreasByYear = (records: IOClassDataPoint[], zone?: PolygonalGeometry): ClassAreas[] => {
+  const pixels = zonePixels(records, zone);
+
+  return DATASETS.io_class.years.map(year => {
+    const areas: ClassAreas = { year, pixels: {}, hectares: {}, noData: { pixels: 0, hectares: 0 } };
+    pixels.forEach(pixel => {
+      const code = classInYear(pixel.record, year);
+      if (!hasClass(code)) {
+        areas.noData.pixels++;
+        areas.noData.hectares += pixel.hectares;
+        return;
+      }
+
+      areas.pixels[code] = (areas.pixels[code] ?? 0) + 1;
+      areas.hectares[code] = (areas.hectares[code] ?? 0) + pixel.hectares;
+    });
+    return areas;
+  });
+};
+
+// Class-to-class flows between every pair of consecutive years
+export const transitionFlows = (
+  records: IOClassDataPoint[],
+  zone?: PolygonalGeometry
+): TransitionFlows => {
+  const years = DATASETS.io_class.years;
+  const pixels = zonePixels(records, zone);
+  const nodes: TransitionFlows['nodes'] = [];
+  const nodeIndex = new Map<string, number>();
+  const links = new Map<string, TransitionFlows['links'][number]>();
+
+  const nodeFor = (year: number, code: number) => {
+    const key = `${year}_${code}`;
+    if (!nodeIndex.has(key)) {
+      nodeIndex.set(key, nodes.length);
+      nodes.push({ name: `${ioClassLabel(code)} ${year}`, year, code });
+    }
+    return nodeIndex.get(key)!;
+  };
+
+  years.slice(1).forEach((year, i) => {
+    pixels.forEach(pixel => {
+      const from = classInYear(pixel.record, years[i]);
+      const to = classInYear(pixel.record, year);
+      if (!hasClass(from) || !hasClass(to)) return;
+
+      const source = nodeFor(years[i], from);
+      const target = nodeFor(year, to);
+      const link = links.get(`${source}_${target}`) ?? { source, target, pixels: 0, hectares: 0 };
+      link.pixels++;
+      link.hectares += pixel.hectares;
+      links.set(`${source}_${target}`, link);
+    });
+  });
+
+  return { nodes, links: Array.from(links.values()) };
+};
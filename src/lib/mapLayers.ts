@@ -0,0 +1,84 @@
+import type mapboxgl from 'mapbox-gl';
+
+// One entry per dataset in the layer manager, listed top of the draw order first
+export interface MapLayer {
+  key: string;
+  visible: boolean;
+  // 0–100
+  opacity: number;
+  // Draw pixel outlines in the fill colours instead of filled pixels
+  outline: boolean;
+}
+
+// What to draw for a visible layer
+export interface LayerContent {
+  data: GeoJSON.FeatureCollection;
+  color: mapboxgl.Expression;
+}
+
+export const layerSourceId = (key: string) => `dataset-data-${key}`;
+export const layerId = (key: string) => `dataset-layer-${key}`;
+
+export const createMapLayer = (key: string, visible = false): MapLayer => ({
+  key,
+  visible,
+  opacity: 80,
+  outline: false
+});
+
+export const updateMapLayer = (layers: MapLayer[], key: string, changes: Partial<MapLayer>): MapLayer[] =>
+  layers.map(layer => (layer.key === key ? { ...layer, ...changes } : layer));
+
+// Move a layer up (-1) or down (+1) the draw order
+export const moveMapLayer = (layers: MapLayer[], key: string, offset: number): MapLayer[] => {
+  const from = layers.findIndex(layer => layer.key === key);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= layers.length) return layers;
+
+  const reordered = [...layers];
+  [reordered[from], reordered[to]] = [reordered[to], reordered[from]];
+  return reordered;
+};
+
+// Re-add every visible layer bottom-up so Mapbox draws them in the manager's order.
+// Layers without content yet (still loading) are skipped.
+export const drawMapLayers = (map: mapboxgl.Map, layers: MapLayer[], content: Map<string, LayerContent>) => {
+  layers.forEach(({ key }) => {
+    if (map.getLayer(layerId(key))) map.removeLayer(layerId(key));
+    if (map.getSource(layerSourceId(key))) map.removeSource(layerSourceId(key));
+  });
+
+  [...layers].reverse().forEach(layer => {
+    const layerContent = content.get(layer.key);
+    if (!layer.visible || !layerContent) return;
+
+    map.addSource(layerSourceId(layer.key), { type: 'geojson', data: layerContent.data });
+    if (layer.outline) {
+      map.addLayer({
+        id: layerId(layer.key),
+        type: 'line',
+        source: layerSourceId(layer.key),
+        paint: {
+          'line-color': layerContent.color,
+          'line-width': 1.5,
+          'line-opacity': layer.opacity / 100
+        }
+      });
+    } else {
+      map.addLayer({
+        id: layerId(layer.key),
+        type: 'fill',
+        source: layerSourceId(layer.key),
+        paint: {
+          'fill-color': layerContent.color,
+          'fill-outline-color': '#ffffff',
+          'fill-opacity': layer.opacity / 100
+        }
+      });
+    }
+  });
+};
+
+// Ids of the drawn dataset layers, topmost first, for feature queries
+export const visibleLayerIds = (map: mapboxgl.Map, layers: MapLayer[]) =>
+  layers.map(layer => layerId(layer.key)).filter(id => map.getLayer(id));
@@ -0,0 +1,235 @@
+import { IO_CLASSES, IO_CLASS_CODES } from './ioClasses';
+
+// Display metadata for every metric. Values are held in the display `unit`
+// once loaded; `range` is the span a valid value must fall within.
+export const METRICS = {
+  canopy_cover: {
+    label: 'Canopy Cover',
+    unit: '%',
+    range: [0, 100],
+    colorScale: [
+      { value: 0, color: '#ffffcc' },
+      { value: 25, color: '#a1dab4' },
+      { value: 50, color: '#41b6c4' },
+      { value: 75, color: '#2c7fb8' },
+      { value: 100, color: '#253494' }
+    ],
+    changeColorScale: [
+      { value: -50, color: '#d73027' },
+      { value: -25, color: '#fc8d59' },
+      { value: 0, color: '#ffffbf' },
+      { value: 25, color: '#91bfdb' },
+      { value: 50, color: '#4575b4' }
+    ]
+  },
+  canopy_height: {
+    label: 'Canopy Height',
+    unit: 'm',
+    range: [0, 100],
+    colorScale: [
+      { value: 0, color: '#ffffcc' },
+      { value: 10, color: '#a1dab4' },
+      { value: 20, color: '#41b6c4' },
+      { value: 30, color: '#2c7fb8' },
+      { value: 40, color: '#253494' }
+    ],
+    changeColorScale: [
+      { value: -20, color: '#d73027' },
+      { value: -10, color: '#fc8d59' },
+      { value: 0, color: '#ffffbf' },
+      { value: 10, color: '#91bfdb' },
+      { value: 20, color: '#4575b4' }
+    ]
+  },
+  tree_height: {
+    label: 'Tree Height',
+    unit: 'm',
+    range: [0, 100],
+    colorScale: [
+      { value: 0, color: '#ffffcc' },
+      { value: 10, color: '#a1dab4' },
+      { value: 20, color: '#41b6c4' },
+      { value: 30, color: '#2c7fb8' },
+      { value: 40, color: '#253494' }
+    ],
+    changeColorScale: [
+      { value: -20, color: '#d73027' },
+      { value: -10, color: '#fc8d59' },
+      { value: 0, color: '#ffffbf' },
+      { value: 10, color: '#91bfdb' },
+      { value: 20, color: '#4575b4' }
+    ]
+  },
+  forest_cover: {
+    label: 'Kanop Forest Cover',
+    unit: '',
+    range: [0, 1],
+    colorScale: [
+      { value: 0, color: '#fee5d9' }, // Non-forest
+      { value: 1, color: '#2ca02c' }  // Forest
+    ],
+    changeColorScale: [
+      { value: -1, color: '#d73027' },
+      { value: 0, color: '#ffffbf' },
+      { value: 1, color: '#4575b4' }
+    ]
+  },
+  living_biomass: {
+    label: 'Living Biomass',
+    unit: 't/ha',
+    range: [0, 500],
+    colorScale: [
+      { value: 0, color: '#ffffcc' },
+      { value: 50, color: '#a1dab4' },
+      { value: 100, color: '#41b6c4' },
+      { value: 150, color: '#2c7fb8' },
+      { value: 200, color: '#253494' }
+    ],
+    changeColorScale: [
+      { value: -100, color: '#d73027' },
+      { value: -50, color: '#fc8d59' },
+      { value: 0, color: '#ffffbf' },
+      { value: 50, color: '#91bfdb' },
+      { value: 100, color: '#4575b4' }
+    ]
+  },
+  living_aboveground_biomass: {
+    label: 'Aboveground Biomass',
+    unit: 't/ha',
+    range: [0, 500],
+    colorScale: [
+      { value: 0, color: '#ffffcc' },
+      { value: 37.5, color: '#a1dab4' },
+      { value: 75, color: '#41b6c4' },
+      { value: 112.5, color: '#2c7fb8' },
+      { value: 150, color: '#253494' }
+    ],
+    changeColorScale: [
+      { value: -75, color: '#d73027' },
+      { value: -37.5, color: '#fc8d59' },
+      { value: 0, color: '#ffffbf' },
+      { value: 37.5, color: '#91bfdb' },
+      { value: 75, color: '#4575b4' }
+    ]
+  },
+  living_belowground_biomass: {
+    label: 'Belowground Biomass',
+    unit: 't/ha',
+    range: [0, 250],
+    colorScale: [
+      { value: 0, color: '#ffffcc' },
+      { value: 12.5, color: '#a1dab4' },
+      { value: 25, color: '#41b6c4' },
+      { value: 37.5, color: '#2c7fb8' },
+      { value: 50, color: '#253494' }
+    ],
+    changeColorScale: [
+      { value: -25, color: '#d73027' },
+      { value: -12.5, color: '#fc8d59' },
+      { value: 0, color: '#ffffbf' },
+      { value: 12.5, color: '#91bfdb' },
+      { value: 25, color: '#4575b4' }
+    ]
+  },
+  carbon_stock: {
+    label: 'Carbon Stock',
+    unit: 't/ha',
+    range: [0, 250],
+    colorScale: [
+      { value: 0, color: '#ffffcc' },
+      { value: 12.5, color: '#a1dab4' },
+      { value: 25, color: '#41b6c4' },
+      { value: 37.5, color: '#2c7fb8' },
+      { value: 50, color: '#253494' }
+    ],
+    changeColorScale: [
+      { value: -25, color: '#d73027' },
+      { value: -12.5, color: '#fc8d59' },
+      { value: 0, color: '#ffffbf' },
+      { value: 12.5, color: '#91bfdb' },
+      { value: 25, color: '#4575b4' }
+    ]
+  },
+  co2_eq: {
+    label: 'Living Biomass CO₂e',
+    unit: 't CO₂e/ha',
+    range: [0, 1000],
+    colorScale: [
+      { value: 0, color: '#ffffcc' },
+      { value: 50, color: '#a1dab4' },
+      { value: 100, color: '#41b6c4' },
+      { value: 150, color: '#2c7fb8' },
+      { value: 200, color: '#253494' }
+    ],
+    changeColorScale: [
+      { value: -100, color: '#d73027' },
+      { value: -50, color: '#fc8d59' },
+      { value: 0, color: '#ffffbf' },
+      { value: 50, color: '#91bfdb' },
+      { value: 100, color: '#4575b4' }
+    ]
+  },
+  diversity_index: {
+    label: 'Diversity Index',
+    unit: '',
+    range: [0, 2],
+    colorScale: [
+      { value: 0, color: '#ffffcc' },
+      { value: 0.25, color: '#a1dab4' },
+      { value: 0.5, color: '#41b6c4' },
+      { value: 0.75, color: '#2c7fb8' },
+      { value: 1, color: '#253494' }
+    ],
+    changeColorScale: [
+      { value: -0.5, color: '#d73027' },
+      { value: -0.25, color: '#fc8d59' },
+      { value: 0, color: '#ffffbf' },
+      { value: 0.25, color: '#91bfdb' },
+      { value: 0.5, color: '#4575b4' }
+    ]
+  },
+  forest_change: {
+    label: 'Forest Change',
+    unit: '',
+    range: [0, 2],
+    colorScale: [
+      { value: 0, color: '#d73027' }, // Loss
+      { value: 1, color: '#ffffbf' }, // No change
+      { value: 2, color: '#4575b4' }  // Gain
+    ],
+    changeColorScale: []
+  },
+  land_class: {
+    label: 'Land Classification',
+    unit: '',
+    range: [0, 255],
+    // A stop at every class code, so each class gets its own colour
+    colorScale: IO_CLASS_CODES.map(code => ({ value: code, color: IO_CLASSES[code].color })),
+    changeColorScale: []
+  },
+  forest_binary: {
+    label: 'Forest Cover',
+    unit: '',
+    range: [0, 1],
+    colorScale: [
+      { value: 0, color: '#2ca02c' }, // Forest
+      { value: 1, color: '#fee5d9' }  // Non-forest
+    ],
+    changeColorScale: []
+  }
+} as const;
+
+export type Metric = keyof typeof METRICS;
+
+// Axis/legend label, e.g. "Canopy Cover (%)"
+export const formatMetricLabel = (metric: Metric): string => {
+  const { label, unit } = METRICS[metric];
+  return unit ? `${label} (${unit})` : label;
+};
+
+// Value with its unit, e.g. "42.10%"
+export const formatMetricValue = (metric: Metric, value: number, digits = 2): string => {
+  // Blank Kanop cells reach popups as null
+  if (!Number.isFinite(value)) return 'No data';
+  return `${value.toFixed(digits)}${METRICS[metric].unit}`;
+};
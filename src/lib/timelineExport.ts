@@ -0,0 +1,159 @@
+import type mapboxgl from 'mapbox-gl';
+import { GIFEncoder, applyPalette, quantize } from 'gifenc';
+import type { LegendItem } from './datasetStyles';
+
+export type ExportFormat = 'gif' | 'webm';
+
+export const EXPORT_RESOLUTIONS = [
+  { label: '640 × 360', width: 640, height: 360 },
+  { label: '1280 × 720', width: 1280, height: 720 },
+  { label: '1920 × 1080', width: 1920, height: 1080 }
+] as const;
+
+export interface TimelineExportOptions {
+  format: ExportFormat;
+  width: number;
+  height: number;
+  frameDurationMs: number;
+  title: string;
+  legend: LegendItem[];
+}
+
+export const supportsWebM = () =>
+  typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported('video/webm');
+
+// Resolves once the map has drawn the data it was just given
+const waitForMapIdle = (map: mapboxgl.Map) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, 5000);
+    map.once('idle', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+    map.triggerRepaint();
+  });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// The map canvas cropped to fill the frame, with the year label and legend burned in.
+// Reading the WebGL canvas needs the map to be created with `preserveDrawingBuffer`.
+const drawFrame = (
+  ctx: CanvasRenderingContext2D,
+  mapCanvas: HTMLCanvasElement,
+  year: number,
+  { width, height, title, legend }: TimelineExportOptions
+) => {
+  const scale = Math.max(width / mapCanvas.width, height / mapCanvas.height);
+  const sourceWidth = width / scale;
+  const sourceHeight = height / scale;
+  ctx.drawImage(
+    mapCanvas,
+    (mapCanvas.width - sourceWidth) / 2, (mapCanvas.height - sourceHeight) / 2, sourceWidth, sourceHeight,
+    0, 0, width, height
+  );
+
+  // Text and swatches scale with the output height
+  const unit = height / 360;
+  const padding = 8 * unit;
+  ctx.textBaseline = 'top';
+
+  ctx.font = `${Math.round(11 * unit)}px Arial, sans-serif`;
+  const titleWidth = ctx.measureText(title).width;
+  ctx.font = `bold ${Math.round(28 * unit)}px Arial, sans-serif`;
+  const yearWidth = ctx.measureText(String(year)).width;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.fillRect(padding, padding, Math.max(titleWidth, yearWidth) + 2 * padding, 50 * unit);
+  ctx.fillStyle = '#111827';
+  ctx.fillText(String(year), 2 * padding, padding + 18 * unit);
+  ctx.font = `${Math.round(11 * unit)}px Arial, sans-serif`;
+  ctx.fillStyle = '#4b5563';
+  ctx.fillText(title, 2 * padding, padding + 5 * unit);
+
+  if (!legend.length) return;
+
+  const rowHeight = 14 * unit;
+  const swatch = 10 * unit;
+  const legendWidth = Math.max(...legend.map(item => ctx.measureText(item.label).width)) + swatch + 3 * padding;
+  const legendHeight = legend.length * rowHeight + padding;
+  const top = height - legendHeight - padding;
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.fillRect(padding, top, legendWidth, legendHeight);
+  legend.forEach((item, i) => {
+    const y = top + padding / 2 + i * rowHeight;
+    ctx.fillStyle = item.color;
+    ctx.fillRect(2 * padding, y + (rowHeight - swatch) / 2, swatch, swatch);
+    ctx.fillStyle = '#111827';
+    ctx.fillText(item.label, 2 * padding + swatch + padding / 2, y + (rowHeight - 11 * unit) / 2);
+  });
+};
+
+// Record one frame per year as an animated GIF or a WebM video. `showYear` must put
+// that year's data on the map; the map is then left to render before each capture.
+export const exportTimeline = async (
+  map: mapboxgl.Map,
+  years: readonly number[],
+  showYear: (year: number) => void,
+  options: TimelineExportOptions,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+  const { width, height, frameDurationMs, format } = options;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+
+  const renderYear = async (year: number) => {
+    showYear(year);
+    await waitForMapIdle(map);
+    drawFrame(ctx, map.getCanvas(), year, options);
+  };
+
+  if (format === 'gif') {
+    const gif = GIFEncoder();
+    for (const [i, year] of years.entries()) {
+      await renderYear(year);
+      const { data } = ctx.getImageData(0, 0, width, height);
+      const palette = quantize(data, 256);
+      gif.writeFrame(applyPalette(data, palette), width, height, { palette, delay: frameDurationMs });
+      onProgress?.(i + 1, years.length);
+    }
+    gif.finish();
+    return new Blob([gif.bytes()], { type: 'image/gif' });
+  }
+
+  // WebM is recorded in real time: each frame is held for its duration
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.start();
+  for (const [i, year] of years.entries()) {
+    await renderYear(year);
+    track.requestFrame();
+    onProgress?.(i + 1, years.length);
+    await sleep(frameDurationMs);
+  }
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach(t => t.stop());
+
+  return new Blob(chunks, { type: 'video/webm' });
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
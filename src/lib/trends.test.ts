@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { computeTrend, normalCDF, normalQuantile } from './trends';
+
+const years = (count: number, start = 2013) => Array.from({ length: count }, (_, i) => start + i);
+
+describe('normal distribution helpers', () => {
+  it('match tabulated values', () => {
+    expect(normalCDF(0)).toBeCloseTo(0.5, 6);
+    expect(normalCDF(1.96)).toBeCloseTo(0.975, 4);
+    expect(normalCDF(-1.96)).toBeCloseTo(0.025, 4);
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+    expect(normalQuantile(0.005)).toBeCloseTo(-2.575829, 5);
+  });
+});
+
+describe('computeTrend', () => {
+  // Every pairwise slope is 2, S = 45 and Var(S) = 10·9·25/18 = 125,
+  // so z = (45 - 1)/√125 = 3.9355 and p = 8.3e-5
+  it('finds a significant increase in a monotonic series', () => {
+    const trend = computeTrend(years(10), years(10).map((_, i) => 2 * i + 1));
+
+    expect(trend).toMatchObject({ slope: 2, lower: 2, upper: 2, direction: 'increasing', n: 10 });
+    expect(trend.pValue).toBeCloseTo(8.303e-5, 6);
+  });
+
+  it('finds a significant decrease when the series falls', () => {
+    const trend = computeTrend(years(10), years(10).map((_, i) => 40 - 3 * i));
+
+    expect(trend).toMatchObject({ slope: -3, direction: 'decreasing' });
+    expect(trend.pValue).toBeCloseTo(8.303e-5, 6);
+  });
+
+  it('finds no trend in a flat series', () => {
+    const trend = computeTrend(years(8), Array(8).fill(5));
+
+    expect(trend).toMatchObject({ slope: 0, lower: 0, upper: 0, direction: 'no_trend', n: 8 });
+    // z = 0; the erf approximation puts p within 1e-9 of 1
+    expect(trend.pValue).toBeCloseTo(1, 8);
+  });
+
+  // 15 ordered slopes [-1, -1, 1/3, 0.5, 0.5, 0.75, 0.75, 1, 1, 1, 4/3, 4/3, 2, 2, 3];
+  // S = 11, Var(S) = 6·5·17/18 = 28.33, z = 1.8787, p = 0.0603.
+  // Gilbert: C = 1.96·√28.33 = 10.43, M1 = round((15 - C)/2) = 2, M2 + 1 = round((15 + C)/2) + 1 = 14
+  it('bounds the Theil–Sen slope with the Gilbert interval', () => {
+    const trend = computeTrend([1, 2, 3, 4, 5, 6], [1, 3, 2, 5, 4, 6]);
+
+    expect(trend.slope).toBe(1);
+    expect(trend.lower).toBe(-1);
+    expect(trend.upper).toBe(2);
+    expect(trend.pValue).toBeCloseTo(0.0603, 4);
+    expect(trend.direction).toBe('no_trend');
+    // The same series is significant at the 10% level
+    expect(computeTrend([1, 2, 3, 4, 5, 6], [1, 3, 2, 5, 4, 6], 0.1).direction).toBe('increasing');
+  });
+
+  // Tie groups of 2 and 3 take 2·1·9 + 3·2·11 = 84 off n(n-1)(2n+5) = 798,
+  // so Var(S) = 714/18 = 39.67; S = 17, z = 2.5404, p = 0.0111
+  it('corrects the Mann–Kendall variance for ties', () => {
+    const trend = computeTrend(years(7), [1, 2, 2, 3, 3, 3, 4]);
+
+    expect(trend.slope).toBe(0.5);
+    expect(trend.lower).toBe(0);
+    expect(trend.upper).toBeCloseTo(2 / 3, 10);
+    expect(trend.pValue).toBeCloseTo(0.01107, 4);
+    expect(trend.direction).toBe('increasing');
+    expect(computeTrend(years(7), [1, 2, 2, 3, 3, 3, 4], 0.01).direction).toBe('no_trend');
+  });
+
+  it('reports no significant trend for fewer than three points', () => {
+    expect(computeTrend([2013, 2014], [1, 3])).toEqual({
+      slope: 2,
+      lower: 2,
+      upper: 2,
+      pValue: 1,
+      direction: 'no_trend',
+      n: 2
+    });
+    expect(computeTrend([2013], [4])).toMatchObject({ slope: 0, pValue: 1, n: 1 });
+    expect(computeTrend([], [])).toMatchObject({ slope: 0, pValue: 1, n: 0 });
+  });
+
+  it('leaves out missing values and sorts by year', () => {
+    expect(computeTrend([2015, 2013, 2014], [5, 1, NaN])).toMatchObject({ slope: 2, n: 2, direction: 'no_trend' });
+    expect(computeTrend(years(10).reverse(), years(10).map((_, i) => 2 * (9 - i) + 1))).toMatchObject({
+      slope: 2,
+      direction: 'increasing'
+    });
+  });
+});
@@ -0,0 +1,130 @@
+// Non-parametric trend tests for per-pixel time series: Theil–Sen slope with its
+// confidence interval, and Mann–Kendall significance (Gilbert, 1987)
+
+export type TrendDirection = 'increasing' | 'decreasing' | 'no_trend';
+
+export interface TrendResult {
+  // Theil–Sen slope in metric units per year, with its (1 - significance) interval
+  slope: number;
+  lower: number;
+  upper: number;
+  // Two-sided Mann–Kendall p-value
+  pValue: number;
+  direction: TrendDirection;
+  n: number;
+}
+
+export const DEFAULT_SIGNIFICANCE = 0.05;
+export const SIGNIFICANCE_LEVELS = [0.01, 0.05, 0.1] as const;
+
+export const TREND_COLORS: Record<TrendDirection, string> = {
+  increasing: '#2ca02c',
+  no_trend: '#bdbdbd',
+  decreasing: '#d62728'
+};
+
+export const TREND_LABELS: Record<TrendDirection, string> = {
+  increasing: 'Significant increase',
+  no_trend: 'No significant trend',
+  decreasing: 'Significant decrease'
+};
+
+// Standard normal CDF via the Abramowitz & Stegun 7.1.26 erf approximation
+export const normalCDF = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+// Inverse standard normal CDF (Acklam's rational approximation)
+export const normalQuantile = (p: number): number => {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) return -normalQuantile(1 - p);
+
+  const q = p - 0.5;
+  const r = q * q;
+  return ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+const median = (sorted: number[]): number => {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Mann–Kendall S statistic and its variance, corrected for tied values
+const mannKendall = (values: number[]) => {
+  const n = values.length;
+  let s = 0;
+  for (let i = 0; i < n - 1; i++) {
+    for (let j = i + 1; j < n; j++) {
+      s += Math.sign(values[j] - values[i]);
+    }
+  }
+
+  const ties = new Map<number, number>();
+  values.forEach(value => ties.set(value, (ties.get(value) ?? 0) + 1));
+  const tieCorrection = Array.from(ties.values()).reduce((sum, t) => sum + t * (t - 1) * (2 * t + 5), 0);
+
+  return { s, variance: (n * (n - 1) * (2 * n + 5) - tieCorrection) / 18 };
+};
+
+// Trend of one series. Points with a missing value are left out; fewer than three
+// points (or a constant series) give no significant trend.
+export const computeTrend = (
+  years: number[],
+  values: number[],
+  significance = DEFAULT_SIGNIFICANCE
+): TrendResult => {
+  const points = years
+    .map((year, i) => ({ year, value: values[i] }))
+    .filter(point => Number.isFinite(point.value))
+    .sort((a, b) => a.year - b.year);
+  const n = points.length;
+
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (points[j].year !== points[i].year) {
+        slopes.push((points[j].value - points[i].value) / (points[j].year - points[i].year));
+      }
+    }
+  }
+  slopes.sort((a, b) => a - b);
+
+  if (n < 3 || !slopes.length) {
+    const slope = slopes.length ? median(slopes) : 0;
+    return { slope, lower: slope, upper: slope, pValue: 1, direction: 'no_trend', n };
+  }
+
+  const { s, variance } = mannKendall(points.map(point => point.value));
+  const sd = Math.sqrt(variance);
+  const z = !sd || s === 0 ? 0 : (s - Math.sign(s)) / sd;
+  const pValue = Math.min(1, 2 * (1 - normalCDF(Math.abs(z))));
+
+  // Ranks of the interval bounds among the ordered pairwise slopes
+  const spread = normalQuantile(1 - significance / 2) * sd;
+  const lowerRank = Math.round((slopes.length - spread) / 2);
+  const upperRank = Math.round((slopes.length + spread) / 2) + 1;
+  const clamp = (rank: number) => slopes[Math.min(slopes.length - 1, Math.max(0, rank - 1))];
+
+  const significant = pValue < significance && s !== 0;
+  return {
+    slope: median(slopes),
+    lower: clamp(lowerRank),
+    upper: clamp(upperRank),
+    pValue,
+    direction: significant ? (s > 0 ? 'increasing' : 'decreasing') : 'no_trend',
+    n
+  };
+};
@@ -0,0 +1,62 @@
+import type { CsvRow } from './datasets';
+import { rasterToRows, readGeoTIFF, type RasterData } from './geotiff';
+import {
+  parseUploadedCSV,
+  parseUploadedRows,
+  type UploadOptions,
+  type UploadProgress,
+  type UploadedDataset
+} from './uploadedDatasets';
+
+// `csv` and `rows` validate an upload against its column mapping; `geotiff` decodes
+// a raster into x/y/band rows for the mapping step
+export type UploadWorkerRequest =
+  | { type: 'csv'; csvText: string; options: UploadOptions & { delimiter: string } }
+  | { type: 'rows'; rows: CsvRow[]; options: UploadOptions }
+  | { type: 'geotiff'; content: ArrayBuffer };
+
+export interface UploadWorkerResults {
+  csv: UploadedDataset;
+  rows: UploadedDataset;
+  geotiff: { data: RasterData; rows: CsvRow[] };
+}
+
+export type UploadWorkerMessage =
+  | { type: 'progress'; progress: UploadProgress }
+  | { type: 'done'; result: UploadWorkerResults[UploadWorkerRequest['type']] }
+  | { type: 'error'; message: string };
+
+const ctx = self as unknown as Worker;
+
+const post = (message: UploadWorkerMessage) => ctx.postMessage(message);
+
+const onProgress = (progress: UploadProgress) => post({ type: 'progress', progress });
+
+// GeoTIFFs are decoded whole, so progress only marks the start and the end
+const decodeGeoTIFF = async (content: ArrayBuffer): Promise<UploadWorkerResults['geotiff']> => {
+  onProgress({ phase: 'read', percent: 0 });
+  const data = await readGeoTIFF(content);
+  const rows = rasterToRows(data);
+  onProgress({ phase: 'read', percent: 100 });
+  return { data, rows };
+};
+
+ctx.onmessage = async (event: MessageEvent<UploadWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    switch (request.type) {
+      case 'csv':
+        post({ type: 'done', result: parseUploadedCSV(request.csvText, request.options, { onProgress }) });
+        break;
+      case 'rows':
+        post({ type: 'done', result: parseUploadedRows(request.rows, request.options, { onProgress }) });
+        break;
+      case 'geotiff':
+        post({ type: 'done', result: await decodeGeoTIFF(request.content) });
+        break;
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
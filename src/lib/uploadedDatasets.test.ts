@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  escapeHTML,
+  guessColumnMapping,
+  knownMetric,
+  parseUploadedCSV,
+  uploadedFeatureCollection,
+  type UploadProgress
+} from './uploadedDatasets';
+
+describe('escapeHTML', () => {
+  it('escapes markup in user-supplied labels', () => {
+    expect(escapeHTML('<img src=x onerror="alert(1)">')).toBe('&lt;img src=x onerror=&quot;alert(1)&quot;&gt;');
+    expect(escapeHTML("Tom's & Jerry's")).toBe('Tom&#39;s &amp; Jerry&#39;s');
+  });
+
+  it('leaves plain text alone', () => {
+    expect(escapeHTML('Biomass (t/ha)')).toBe('Biomass (t/ha)');
+  });
+});
+
+describe('parseUploadedCSV', () => {
+  const options = {
+    mapping: { x: 'x', y: 'y', year: 'year', boundary: null, metrics: [knownMetric('canopy_cover', 'cover')] },
+    key: 'upload_1' as const,
+    label: 'Test',
+    fileName: 'test.csv',
+    delimiter: ','
+  };
+
+  it('reports reading, then validating, up to 100%', () => {
+    const lines = Array.from({ length: 300 }, (_, i) => `${175 + i * 0.001},-41.1,2020,${i % 100}`);
+    const progress: UploadProgress[] = [];
+    const dataset = parseUploadedCSV(['x,y,year,cover', ...lines].join('\n'), options, {
+      onProgress: update => progress.push(update)
+    });
+
+    expect(dataset.records).toHaveLength(300);
+    const read = progress.filter(update => update.phase === 'read').map(update => update.percent);
+    const validate = progress.filter(update => update.phase === 'validate').map(update => update.percent);
+    expect(read[read.length - 1]).toBe(100);
+    expect(validate[validate.length - 1]).toBe(100);
+    expect(progress.findIndex(update => update.phase === 'validate')).toBe(read.length);
+    // One update per whole percent at most
+    expect(read).toEqual([...new Set(read)].sort((a, b) => a - b));
+  });
+
+  it('takes footprints from a mapped pixel_boundary column', () => {
+    const square = { type: 'Polygon', coordinates: [[[175, -41.1], [175.001, -41.1], [175.001, -41.099], [175, -41.1]]] };
+    const cell = (geometry: unknown) => `"${JSON.stringify(geometry).replace(/"/g, '""')}"`;
+    const csv = [
+      'x,y,year,cover,pixel_boundary',
+      `175.0005,-41.0995,2020,40,${cell(square)}`,
+      // Blank: a square from the grid spacing
+      '175.0015,-41.0995,2020,50,',
+      `175.0025,-41.0995,2020,60,${cell({ type: 'Point', coordinates: [175, -41] })}`
+    ].join('\n');
+    const mapping = { ...options.mapping, boundary: guessColumnMapping(['x', 'y', 'year', 'cover', 'pixel_boundary']).boundary! };
+    const dataset = parseUploadedCSV(csv, { ...options, mapping });
+
+    expect(mapping.boundary).toBe('pixel_boundary');
+    expect(dataset.records).toHaveLength(2);
+    expect(dataset.records[0].footprint).toEqual(square);
+    expect(dataset.records[1].footprint.coordinates[0]).toHaveLength(5);
+    expect(dataset.invalidRows).toEqual([{ location: 'Line 4', reason: 'pixel_boundary is not a GeoJSON polygon' }]);
+  });
+
+  it('reports invalid rows by the line they start on', () => {
+    const csv = [
+      'x,y,year,cover',
+      '175.0005,-41.0995,2020,40',
+      '',
+      // A quoted cell over three lines
+      '175.0015,-41.0995,2020,"50',
+      '',
+      'per cent"',
+      '175.0025,-41.0995,2020,abc',
+      '175.0035,-41.0995,2020,200'
+    ].join('\r\n');
+    const dataset = parseUploadedCSV(csv, options);
+
+    expect(dataset.invalidRows.map(row => row.location)).toEqual(['Line 4', 'Line 7', 'Line 8']);
+  });
+});
+
+describe('uploadedFeatureCollection', () => {
+  // Pixel 0 grows every year, pixel 1 stays flat, pixel 2 has a single year
+  const csv = [
+    'x,y,year,cover',
+    ...[2018, 2019, 2020, 2021, 2022].flatMap(year => [
+      `175.0005,-41.0995,${year},${10 + (year - 2018) * 5}`,
+      `175.0015,-41.0995,${year},30`
+    ]),
+    '175.0025,-41.0995,2022,50'
+  ].join('\n');
+  const dataset = parseUploadedCSV(csv, {
+    mapping: { x: 'x', y: 'y', year: 'year', boundary: null, metrics: [knownMetric('canopy_cover', 'cover')] },
+    key: 'upload_1',
+    label: 'Test',
+    fileName: 'test.csv',
+    delimiter: ','
+  });
+
+  it('adds each pixel’s trend over every year to the features of one year', () => {
+    const { features } = uploadedFeatureCollection(dataset, { year: 2022, trendMetric: 'canopy_cover' });
+    const properties = features.map(feature => feature.properties!);
+
+    expect(properties).toHaveLength(3);
+    expect(properties[0]).toMatchObject({ canopy_cover: 30, trend_slope: 5, trend_direction: 'increasing' });
+    expect(properties[0].trend_p_value).toBeLessThan(0.05);
+    expect(properties[1]).toMatchObject({ trend_slope: 0, trend_direction: 'no_trend' });
+    expect(properties[2]).toMatchObject({ trend_slope: 0, trend_direction: 'no_trend' });
+  });
+
+  it('leaves trend properties out unless asked for', () => {
+    const { features } = uploadedFeatureCollection(dataset, { year: 2022 });
+    expect(features[0].properties).not.toHaveProperty('trend_direction');
+  });
+});
@@ -0,0 +1,447 @@
+import Papa from 'papaparse';
+import {
+  CSV_PARSE_CONFIG,
+  DATASETS,
+  MANGAROA_COLUMNS,
+  isMangaroaMetric,
+  parsePixelBoundary,
+  pixelFootprint,
+  type BaseDataPoint,
+  type CsvRow,
+  type MangaroaMetric
+} from './datasets';
+import { METRICS } from './metrics';
+import { computeTrend, type TrendResult } from './trends';
+
+// Datasets uploaded by the user live only for the browser session, next to the
+// built-in DATASETS registry, under keys that cannot collide with it.
+export type UploadedDatasetKey = `upload_${number}`;
+
+export const isUploadedDatasetKey = (key: string): key is UploadedDatasetKey => /^upload_\d+$/.test(key);
+
+const HTML_ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+// Labels, units and file names of uploads come from the user's file; escape them
+// before they go into popup HTML
+export const escapeHTML = (text: string) => text.replace(/[&<>"']/g, char => HTML_ENTITIES[char]);
+
+// A mapped metric column. `key` is the Kanop metric it was mapped to, or a
+// property name derived from the column for custom metrics.
+export interface UploadedMetric {
+  key: string;
+  column: string;
+  label: string;
+  unit: string;
+}
+
+// `boundary` is a column of GeoJSON pixel polygons, such as Kanop's pixel_boundary
+export interface ColumnMapping {
+  x: string;
+  y: string;
+  year: string | null;
+  boundary: string | null;
+  metrics: UploadedMetric[];
+}
+
+export interface UploadedDataPoint extends Omit<BaseDataPoint, 'dataset'> {
+  dataset: UploadedDatasetKey;
+  year: number | null;
+  values: Record<string, number>;
+}
+
+// `location` names the row: the line it starts on in a CSV, as an editor numbers
+// it, or its pixel number in a GeoTIFF
+export interface InvalidRow {
+  location: string;
+  reason: string;
+}
+
+export interface UploadedDataset {
+  key: UploadedDatasetKey;
+  label: string;
+  description: string;
+  fileName: string;
+  type: 'uploaded';
+  resolution: number;
+  pixelSize: [number, number];
+  years: number[];
+  metrics: UploadedMetric[];
+  records: UploadedDataPoint[];
+  invalidRows: InvalidRow[];
+}
+
+// How far an upload has been read: `read` while the file is parsed or decoded,
+// `validate` while its rows are checked against the column mapping
+export interface UploadProgress {
+  phase: 'read' | 'validate';
+  percent: number;
+}
+
+type ProgressCallback = (progress: UploadProgress) => void;
+
+// Report progress only when the whole percentage moves, so a large file doesn't
+// flood the caller (or the worker's message channel) with updates
+const progressReporter = (phase: UploadProgress['phase'], onProgress?: ProgressCallback) => {
+  let reported = -1;
+  return (done: number, total: number) => {
+    const percent = total ? Math.min(100, Math.floor((done / total) * 100)) : 100;
+    if (percent > reported) {
+      reported = percent;
+      onProgress?.({ phase, percent });
+    }
+  };
+};
+
+export interface CSVPreview {
+  delimiter: string;
+  headers: string[];
+  rows: CsvRow[];
+}
+
+const PREVIEW_ROWS = 10;
+
+// Properties every rendered feature already carries; custom metrics must not shadow them
+const RESERVED_PROPERTIES = new Set(['id', 'pixel_id', 'dataset', 'year', 'x', 'y', 'trend_slope', 'trend_p_value', 'trend_direction']);
+
+// Detect the delimiter (unless one is given) and return the header and first rows as raw strings
+export const previewCSV = (csvText: string, delimiter?: string): CSVPreview => {
+  const result = Papa.parse<CsvRow>(csvText, {
+    ...CSV_PARSE_CONFIG,
+    dynamicTyping: false,
+    preview: PREVIEW_ROWS,
+    delimiter
+  });
+
+  return {
+    delimiter: result.meta.delimiter,
+    headers: result.meta.fields ?? [],
+    rows: result.data
+  };
+};
+
+const customMetricKey = (column: string): string => {
+  const key = column.trim().toLowerCase().replace(/\W+/g, '_').replace(/^_|_$/g, '') || 'value';
+  return RESERVED_PROPERTIES.has(key) || isMangaroaMetric(key) ? `custom_${key}` : key;
+};
+
+export const knownMetric = (metric: MangaroaMetric, column: string): UploadedMetric => ({
+  key: metric,
+  column,
+  label: METRICS[metric].label,
+  unit: METRICS[metric].unit
+});
+
+export const customMetric = (column: string): UploadedMetric => ({
+  key: customMetricKey(column),
+  column,
+  label: column,
+  unit: ''
+});
+
+// Best guess at a mapping: common coordinate/year names, and Kanop columns (metrics and
+// pixel_boundary) by their export name
+export const guessColumnMapping = (headers: string[]): Partial<ColumnMapping> => {
+  const find = (pattern: RegExp) => headers.find(header => pattern.test(header));
+  const kanopColumns = Object.entries(MANGAROA_COLUMNS) as [MangaroaMetric, { column: string }][];
+
+  return {
+    x: find(/^(x|lon|lng|long|longitude)$/i),
+    y: find(/^(y|lat|latitude)$/i),
+    year: find(/^(year|yr)$/i) ?? null,
+    boundary: find(/^pixel_boundary$/i) ?? null,
+    metrics: kanopColumns
+      .filter(([, { column }]) => headers.includes(column))
+      .map(([metric, { column }]) => knownMetric(metric, column))
+  };
+};
+
+// A numeric cell, reading True/False flags as 1/0. Blank or non-numeric cells yield null.
+const readNumber = (value: unknown): number | null => {
+  const text = String(value ?? '').trim();
+  if (/^(true|false)$/i.test(text)) return text.toLowerCase() === 'true' ? 1 : 0;
+  if (text === '') return null;
+
+  const number = Number(text);
+  return Number.isFinite(number) ? number : null;
+};
+
+// Grid spacing from the smallest gap between distinct coordinates
+const inferSpacing = (values: number[], fallback: number): number => {
+  const sorted = Array.from(new Set(values.map(v => +v.toFixed(8)))).sort((a, b) => a - b);
+  let spacing = Infinity;
+
+  for (let i = 1; i < sorted.length; i++) {
+    spacing = Math.min(spacing, sorted[i] - sorted[i - 1]);
+  }
+  return Number.isFinite(spacing) ? spacing : fallback;
+};
+
+// Nominal pixel size in metres at the data's mean latitude
+const spacingToMetres = ([dx, dy]: [number, number], latitude: number): number => {
+  const metresPerDegree = 111320;
+  return Math.round(Math.max(dx * metresPerDegree * Math.cos((latitude * Math.PI) / 180), dy * metresPerDegree));
+};
+
+export interface UploadOptions {
+  mapping: ColumnMapping;
+  key: UploadedDatasetKey;
+  label: string;
+  fileName: string;
+}
+
+// Build a session dataset from header-keyed rows with the user's column mapping.
+// Rows that cannot be used are collected in `invalidRows` with the reason, rather
+// than dropped silently. Rows may carry their own `footprint` polygon (GeoTIFF
+// pixels) or a mapped boundary column; the rest get a square footprint from the
+// inferred grid spacing.
+export const parseUploadedRows = (
+  rows: CsvRow[],
+  { mapping, key, label, fileName }: UploadOptions,
+  {
+    describeRow = index => `Pixel ${index + 1}`,
+    rowErrors = new Map<number, string>(),
+    onProgress
+  }: { describeRow?: (index: number) => string; rowErrors?: Map<number, string>; onProgress?: ProgressCallback } = {}
+): UploadedDataset => {
+  const reportProgress = progressReporter('validate', onProgress);
+  const invalidRows: InvalidRow[] = [];
+  const records: UploadedDataPoint[] = [];
+  const synthesized: UploadedDataPoint[] = [];
+  const seen = new Map<string, string>();
+  const pixelIds = new Map<string, number>();
+
+  rows.forEach((row, index) => {
+    reportProgress(index, rows.length);
+    const location = describeRow(index);
+    const problems: string[] = [];
+
+    if (rowErrors.has(index)) problems.push(rowErrors.get(index)!);
+
+    const x = readNumber(row[mapping.x]);
+    const y = readNumber(row[mapping.y]);
+    if (x === null || x < -180 || x > 180) problems.push(`${mapping.x} "${row[mapping.x] ?? ''}" is not a longitude`);
+    if (y === null || y < -90 || y > 90) problems.push(`${mapping.y} "${row[mapping.y] ?? ''}" is not a latitude`);
+
+    let year: number | null = null;
+    if (mapping.year) {
+      year = readNumber(row[mapping.year]);
+      if (year === null || !Number.isInteger(year)) problems.push(`${mapping.year} "${row[mapping.year] ?? ''}" is not a year`);
+    }
+
+    // A blank boundary cell falls back to a square footprint like an unmapped one
+    let footprint: GeoJSON.Polygon | null = row.footprint?.type === 'Polygon' ? row.footprint : null;
+    if (!footprint && mapping.boundary && String(row[mapping.boundary] ?? '').trim() !== '') {
+      footprint = parsePixelBoundary(row[mapping.boundary]);
+      if (!footprint) problems.push(`${mapping.boundary} is not a GeoJSON polygon`);
+    }
+
+    const values: Record<string, number> = {};
+    mapping.metrics.forEach(metric => {
+      const value = readNumber(row[metric.column]);
+      if (value === null) {
+        problems.push(`${metric.column} "${row[metric.column] ?? ''}" is not a number`);
+        return;
+      }
+
+      if (isMangaroaMetric(metric.key)) {
+        const [low, high] = METRICS[metric.key].range;
+        if (value < low || value > high) {
+          problems.push(`${metric.column} ${value} is outside ${low}–${high}${metric.unit}`);
+          return;
+        }
+      }
+      values[metric.key] = value;
+    });
+
+    if (problems.length || x === null || y === null) {
+      invalidRows.push({ location, reason: problems.join('; ') });
+      return;
+    }
+
+    const recordKey = `${x.toFixed(6)}_${y.toFixed(6)}_${year ?? ''}`;
+    if (seen.has(recordKey)) {
+      invalidRows.push({ location, reason: `duplicates ${seen.get(recordKey)}` });
+      return;
+    }
+    seen.set(recordKey, location);
+
+    const coordKey = `${x.toFixed(6)}_${y.toFixed(6)}`;
+    if (!pixelIds.has(coordKey)) pixelIds.set(coordKey, pixelIds.size);
+
+    const record: UploadedDataPoint = {
+      id: `${key}_${recordKey}`,
+      pixel_id: pixelIds.get(coordKey)!,
+      x,
+      y,
+      coordinates: [x, y],
+      footprint: footprint ?? pixelFootprint(x, y, [0, 0]),
+      dataset: key,
+      year,
+      values
+    };
+    records.push(record);
+    if (!footprint) synthesized.push(record);
+  });
+
+  reportProgress(rows.length, rows.length);
+
+  // Footprints need the grid spacing, which is only known once every row is read
+  const fallback = DATASETS.mangaroa.pixelSize;
+  const pixelSize: [number, number] = [
+    inferSpacing(records.map(d => d.x), fallback[0]),
+    inferSpacing(records.map(d => d.y), fallback[1])
+  ];
+  synthesized.forEach(record => {
+    record.footprint = pixelFootprint(record.x, record.y, pixelSize);
+  });
+
+  const meanLatitude = records.length ? records.reduce((sum, d) => sum + d.y, 0) / records.length : 0;
+  const years = Array.from(new Set(records.flatMap(d => (d.year === null ? [] : [d.year])))).sort((a, b) => a - b);
+
+  if (invalidRows.length) {
+    console.warn(`${fileName}: ${invalidRows.length} invalid rows`, invalidRows);
+  }
+
+  return {
+    key,
+    label,
+    description: `Uploaded from ${fileName}`,
+    fileName,
+    type: 'uploaded',
+    resolution: spacingToMetres(pixelSize, meanLatitude),
+    pixelSize,
+    years,
+    metrics: mapping.metrics,
+    records,
+    invalidRows
+  };
+};
+
+const LINE_BREAKS = /\r\n|\r|\n/g;
+const LINE_BREAK_END = /(\r\n|\r|\n)$/;
+
+const countLineBreaks = (text: string) => text.match(LINE_BREAKS)?.length ?? 0;
+
+// Parse an uploaded CSV row by row, reporting how much of the text has been read;
+// invalid rows are reported by their line in the file
+export const parseUploadedCSV = (
+  csvText: string,
+  { delimiter, ...options }: UploadOptions & { delimiter: string },
+  { onProgress }: { onProgress?: ProgressCallback } = {}
+): UploadedDataset => {
+  const reportProgress = progressReporter('read', onProgress);
+  const rows: CsvRow[] = [];
+  // Papa reports structural problems (e.g. missing fields) with the row they occur in
+  const rowErrors = new Map<number, string>();
+  // The line each row starts on. The cursor is at the end of the row, past its line
+  // break; quoted cells can span lines, and skipped blank lines still count.
+  const lines: number[] = [];
+  let counted = 0;
+  let breaks = 0;
+
+  Papa.parse<CsvRow>(csvText, {
+    ...CSV_PARSE_CONFIG,
+    dynamicTyping: false,
+    delimiter,
+    step: ({ data, errors, meta }) => {
+      if (errors.length) rowErrors.set(rows.length, errors[0].message);
+      breaks += countLineBreaks(csvText.slice(counted, meta.cursor));
+      counted = meta.cursor;
+      const trailing = LINE_BREAK_END.test(csvText.slice(Math.max(0, meta.cursor - 2), meta.cursor)) ? 1 : 0;
+      lines.push(breaks - trailing + 1 - countLineBreaks(Object.values(data).flat().join('')));
+      rows.push(data);
+      reportProgress(meta.cursor, csvText.length);
+    }
+  });
+  reportProgress(csvText.length, csvText.length);
+
+  return parseUploadedRows(rows, options, {
+    describeRow: index => `Line ${lines[index]}`,
+    rowErrors,
+    onProgress
+  });
+};
+
+// Theil–Sen slope and Mann–Kendall result of one metric for each pixel, over every year on record
+const pixelTrends = (dataset: UploadedDataset, metricKey: string) => {
+  const series = new Map<number, { years: number[]; values: number[] }>();
+  dataset.records.forEach(record => {
+    const value = record.values[metricKey];
+    if (record.year === null || value === undefined) return;
+    if (!series.has(record.pixel_id)) series.set(record.pixel_id, { years: [], values: [] });
+    series.get(record.pixel_id)!.years.push(record.year);
+    series.get(record.pixel_id)!.values.push(value);
+  });
+
+  return new Map(Array.from(series, ([pixelId, { years, values }]) => [pixelId, computeTrend(years, values)]));
+};
+
+// GeoJSON for one year of an uploaded dataset (all records when it has no year column).
+// With `baselineYear`, each feature also gets `<metric>_change` relative to that year;
+// pixels missing from the baseline get no change property. With `trendMetric`, each
+// feature gets the trend of that metric across the years as `trend_slope`,
+// `trend_p_value` and `trend_direction`.
+export const uploadedFeatureCollection = (
+  dataset: UploadedDataset,
+  { year, baselineYear, trendMetric }: { year?: number; baselineYear?: number; trendMetric?: string } = {}
+): GeoJSON.FeatureCollection => {
+  const records = dataset.years.length && year !== undefined
+    ? dataset.records.filter(d => d.year === year)
+    : dataset.records;
+
+  const baseline = new Map(
+    baselineYear === undefined ? [] : dataset.records.filter(d => d.year === baselineYear).map(d => [d.pixel_id, d.values])
+  );
+  const trends = trendMetric === undefined ? new Map<number, TrendResult>() : pixelTrends(dataset, trendMetric);
+
+  return {
+    type: 'FeatureCollection',
+    features: records.map(record => {
+      const baselineValues = baseline.get(record.pixel_id);
+      const changes = baselineValues
+        ? Object.fromEntries(dataset.metrics.map(({ key }) => [`${key}_change`, record.values[key] - baselineValues[key]]))
+        : {};
+      const trend = trends.get(record.pixel_id);
+      const trendProperties = trend
+        ? { trend_slope: trend.slope, trend_p_value: trend.pValue, trend_direction: trend.direction }
+        : {};
+
+      return {
+        type: 'Feature',
+        properties: {
+          id: record.id,
+          pixel_id: record.pixel_id,
+          dataset: record.dataset,
+          year: record.year,
+          ...record.values,
+          ...changes,
+          ...trendProperties
+        },
+        geometry: record.footprint
+      };
+    })
+  };
+};
+
+const SEQUENTIAL_COLORS = ['#ffffcc', '#a1dab4', '#41b6c4', '#2c7fb8', '#253494'];
+const DIVERGING_COLORS = ['#d73027', '#fc8d59', '#ffffbf', '#91bfdb', '#4575b4'];
+
+// Colour stops for an uploaded metric: the declared ramp for Kanop metrics,
+// otherwise five even stops across the values in the file
+export const uploadedColorScale = (dataset: UploadedDataset, metricKey: string, change = false) => {
+  if (isMangaroaMetric(metricKey)) {
+    return change ? METRICS[metricKey].changeColorScale : METRICS[metricKey].colorScale;
+  }
+
+  const values = dataset.records.map(d => d.values[metricKey]).filter(v => v !== undefined);
+  const min = values.length ? values.reduce((a, b) => Math.min(a, b)) : 0;
+  const max = values.length ? values.reduce((a, b) => Math.max(a, b)) : 1;
+
+  if (change) {
+    const extent = Math.max(max - min, Number.EPSILON);
+    return DIVERGING_COLORS.map((color, i) => ({ value: -extent + (i * extent) / 2, color }));
+  }
+
+  const span = Math.max(max - min, Number.EPSILON);
+  return SEQUENTIAL_COLORS.map((color, i) => ({ value: min + (i * span) / 4, color }));
+};
@@ -0,0 +1,11 @@
+import { useEffect, useRef } from 'react';
+
+// A ref holding the latest render's value. Effects read callback props through it,
+// so a parent passing a new function each render doesn't re-run them.
+export const useLatest = <T>(value: T) => {
+  const ref = useRef(value);
+  useEffect(() => {
+    ref.current = value;
+  });
+  return ref;
+};
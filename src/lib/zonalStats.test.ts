@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { SQUARE_METRES_PER_HECTARE, geometryArea, rectanglePolygon } from './geometry';
+import { zonalStatistics, type ZonalField } from './zonalStats';
+
+interface Pixel {
+  pixel_id: number;
+  footprint: GeoJSON.Polygon;
+  year?: number;
+  value: number;
+}
+
+// 0.001° pixels in a row along 41°S
+const footprint = (i: number) => rectanglePolygon([175 + i * 0.001, -41], [175.001 + i * 0.001, -40.999]);
+const pixel = (i: number, value: number, year?: number): Pixel => ({ pixel_id: i, footprint: footprint(i), year, value });
+
+const FIELDS: ZonalField<Pixel>[] = [{ key: 'value', label: 'Value', unit: 'm', value: record => record.value }];
+
+// Covers pixel 0 in full and the western half of pixel 1; pixel 2 is outside
+const ZONE = rectanglePolygon([174.999, -41.001], [175.0015, -40.998]);
+
+const hectares = (i: number) => geometryArea(footprint(i)) / SQUARE_METRES_PER_HECTARE;
+
+describe('zonalStatistics', () => {
+  it('weights each pixel by the share of it inside the zone', () => {
+    const result = zonalStatistics([pixel(0, 10), pixel(1, 40), pixel(2, 1000)], ZONE, FIELDS);
+    const summary = result.metrics.value;
+
+    expect(result.pixelCount).toBe(2);
+    expect(result.hectares).toBeCloseTo(hectares(0) + hectares(1) / 2, 4);
+    // (10·1 + 40·0.5)/1.5 = 20; variance (1·10² + 0.5·20²)/1.5 = 200
+    expect(summary.mean).toBeCloseTo(20, 4);
+    expect(summary.std).toBeCloseTo(Math.sqrt(200), 4);
+    // Pixel 0 alone holds two thirds of the weight
+    expect(summary.median).toBe(10);
+    expect(summary.min).toBe(10);
+    expect(summary.max).toBe(40);
+    expect(result.fields).toEqual([{ key: 'value', label: 'Value', unit: 'm' }]);
+    expect(result.series).toBeUndefined();
+  });
+
+  it('summarises the year asked for and builds a weighted series over every year', () => {
+    const result = zonalStatistics(
+      [pixel(0, 10, 2020), pixel(1, 40, 2020), pixel(0, 4, 2021), pixel(1, 16, 2021), pixel(2, 1000, 2021)],
+      ZONE,
+      FIELDS,
+      2021
+    );
+
+    expect(result.pixelCount).toBe(2);
+    expect(result.metrics.value.mean).toBeCloseTo(8, 4);
+    expect(result.series?.map(({ year, values }) => ({ year, value: Number(values.value.toFixed(4)) }))).toEqual([
+      { year: 2020, value: 20 },
+      { year: 2021, value: 8 }
+    ]);
+  });
+
+  it('leaves blank values out of the statistics but not the area', () => {
+    const result = zonalStatistics([pixel(0, NaN), pixel(1, 40)], ZONE, FIELDS);
+
+    expect(result.pixelCount).toBe(2);
+    expect(result.hectares).toBeCloseTo(hectares(0) + hectares(1) / 2, 4);
+    expect(result.metrics.value).toMatchObject({ mean: 40, median: 40, std: 0 });
+  });
+
+  it('has no metrics for a zone without pixels', () => {
+    const result = zonalStatistics([pixel(5, 1)], ZONE, FIELDS);
+
+    expect(result).toMatchObject({ pixelCount: 0, hectares: 0, metrics: {} });
+  });
+});
@@ -0,0 +1,180 @@
+import {
+  MANGAROA_COLUMNS,
+  type DataPointByDataset,
+  type DatasetKey,
+  type MangaroaDataPoint,
+  type MangaroaMetric
+} from './datasets';
+import {
+  SQUARE_METRES_PER_HECTARE,
+  bboxesOverlap,
+  coverageFraction,
+  geometryArea,
+  geometryBBox,
+  type PolygonalGeometry
+} from './geometry';
+import { IO_CLASSES, IO_CLASS_CODES } from './ioClasses';
+import { METRICS } from './metrics';
+
+// A numeric field summarised by zonal statistics, with how to read it from a record
+export interface ZonalField<T> {
+  key: string;
+  label: string;
+  unit: string;
+  value: (record: T) => number;
+}
+
+export interface MetricSummary {
+  mean: number;
+  median: number;
+  min: number;
+  max: number;
+  std: number;
+}
+
+// Area-weighted statistics for one zone. Each pixel counts in proportion to the
+// share of its footprint inside the zone. `series` holds the weighted mean of every
+// field per year for time-series datasets.
+export interface ZonalResult {
+  fields: { key: string; label: string; unit: string }[];
+  pixelCount: number;
+  hectares: number;
+  metrics: Record<string, MetricSummary>;
+  series?: { year: number; values: Record<string, number> }[];
+}
+
+export type ZonalRecord = { pixel_id: number; footprint: GeoJSON.Polygon; year?: number | null };
+
+const kanopFields: ZonalField<MangaroaDataPoint>[] = (Object.keys(MANGAROA_COLUMNS) as MangaroaMetric[]).map(metric => ({
+  key: metric,
+  label: METRICS[metric].label,
+  unit: METRICS[metric].unit,
+  value: record => record[metric]
+}));
+
+const forestShare: ZonalField<DataPointByDataset['jrc_cover']>[] = [
+  { key: 'forest', label: 'Forest (share of area)', unit: '', value: record => Number(record.is_forest) }
+];
+
+// Share of the zone in each IO-9 class
+const ioClassShares: ZonalField<DataPointByDataset['io_class']>[] = IO_CLASS_CODES.map(code => ({
+  key: `class_${code}`,
+  label: `${IO_CLASSES[code].label} (share of area)`,
+  unit: '',
+  value: record => Number(record.land_class === code)
+}));
+
+// Fields summarised for each built-in dataset
+export const ZONAL_FIELDS: { [K in DatasetKey]: ZonalField<DataPointByDataset[K]>[] } = {
+  mangaroa: kanopFields,
+  glad: [
+    { key: 'baseline_tree_cover', label: 'Baseline Tree Cover', unit: '%', value: record => record.baseline_tree_cover },
+    { key: 'forest_gain', label: 'Forest Gain (share of area)', unit: '', value: record => Number(record.has_forest_gain) },
+    { key: 'forest_loss', label: 'Forest Loss (share of area)', unit: '', value: record => Number(record.forest_loss_year !== null) }
+  ],
+  io_class: ioClassShares,
+  jrc_cover: forestShare,
+  jrc_type: forestShare
+};
+
+// Pixels without a value (blank cells) are left out, keeping values and weights paired
+const withValues = (values: number[], weights: number[]) => {
+  const kept = values.map((_, i) => i).filter(i => Number.isFinite(values[i]));
+  return { values: kept.map(i => values[i]), weights: kept.map(i => weights[i]) };
+};
+
+const weightedMean = (values: number[], weights: number[], totalWeight: number) =>
+  values.reduce((sum, value, i) => sum + value * weights[i], 0) / totalWeight;
+
+const summarise = (allValues: number[], allWeights: number[]): MetricSummary => {
+  const { values, weights } = withValues(allValues, allWeights);
+  if (!values.length) return { mean: NaN, median: NaN, min: NaN, max: NaN, std: NaN };
+
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+  const mean = weightedMean(values, weights, totalWeight);
+  const variance = values.reduce((sum, value, i) => sum + weights[i] * (value - mean) ** 2, 0) / totalWeight;
+
+  // Weighted median: the first value at which the cumulative weight reaches half
+  const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+  let cumulative = 0;
+  const medianIndex = order.find(i => (cumulative += weights[i]) >= totalWeight / 2) ?? order[order.length - 1];
+
+  return {
+    mean,
+    median: values[medianIndex],
+    min: values.reduce((a, b) => Math.min(a, b)),
+    max: values.reduce((a, b) => Math.max(a, b)),
+    std: Math.sqrt(variance)
+  };
+};
+
+// Share of each pixel inside `zone` (every pixel counts in full without one) and
+// its area. Both are per pixel, so they are cached across its yearly records.
+export const pixelCoverage = (zone?: PolygonalGeometry) => {
+  const zoneBBox = zone && geometryBBox(zone);
+  const coverage = new Map<number, { weight: number; areaHa: number }>();
+
+  return (record: ZonalRecord) => {
+    if (!coverage.has(record.pixel_id)) {
+      let weight = 1;
+      if (zone && zoneBBox) {
+        weight = bboxesOverlap(geometryBBox(record.footprint), zoneBBox) ? coverageFraction(record.footprint, zone) : 0;
+      }
+      coverage.set(record.pixel_id, {
+        weight,
+        areaHa: weight ? geometryArea(record.footprint) / SQUARE_METRES_PER_HECTARE : 0
+      });
+    }
+    return coverage.get(record.pixel_id)!;
+  };
+};
+
+// Zonal statistics for `year` (or every record for datasets without years)
+export const zonalStatistics = <T extends ZonalRecord>(
+  records: T[],
+  zone: PolygonalGeometry,
+  fields: ZonalField<T>[],
+  year?: number
+): ZonalResult => {
+  const coverageOf = pixelCoverage(zone);
+
+  const inZone = records.filter(record => coverageOf(record).weight > 0);
+  const hasYears = inZone.some(record => typeof record.year === 'number');
+  const current = hasYears && year !== undefined ? inZone.filter(record => record.year === year) : inZone;
+
+  const weights = current.map(record => coverageOf(record).weight);
+  const metrics = current.length
+    ? Object.fromEntries(fields.map(field => [field.key, summarise(current.map(field.value), weights)]))
+    : {};
+
+  const result: ZonalResult = {
+    fields: fields.map(({ key, label, unit }) => ({ key, label, unit })),
+    pixelCount: current.length,
+    hectares: current.reduce((sum, record) => sum + coverageOf(record).weight * coverageOf(record).areaHa, 0),
+    metrics
+  };
+
+  if (hasYears) {
+    const byYear = new Map<number, T[]>();
+    inZone.forEach(record => {
+      const yearRecords = byYear.get(record.year as number) ?? [];
+      yearRecords.push(record);
+      byYear.set(record.year as number, yearRecords);
+    });
+
+    result.series = Array.from(byYear.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([seriesYear, yearRecords]) => {
+        const yearWeights = yearRecords.map(record => coverageOf(record).weight);
+        return {
+          year: seriesYear,
+          values: Object.fromEntries(fields.map(field => {
+            const { values, weights } = withValues(yearRecords.map(field.value), yearWeights);
+            return [field.key, weightedMean(values, weights, weights.reduce((a, b) => a + b, 0))];
+          }))
+        };
+      });
+  }
+
+  return result;
+};
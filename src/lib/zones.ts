@@ -0,0 +1,113 @@
+import type mapboxgl from 'mapbox-gl';
+import { SQUARE_METRES_PER_HECTARE, geometryArea } from './geometry';
+
+export type ZoneShape = 'polygon' | 'rectangle' | 'circle';
+
+// A shape drawn on the map for zonal statistics
+export interface Zone {
+  id: string;
+  name: string;
+  shape: ZoneShape;
+  geometry: GeoJSON.Polygon;
+  areaHa: number;
+}
+
+export const ZONE_COLORS = ['#e11d48', '#7c3aed', '#0891b2', '#ea580c', '#16a34a', '#ca8a04'];
+
+const STORAGE_KEY = 'mangaroa-zones';
+
+export const ZONES_SOURCE_ID = 'zones';
+export const ZONE_DRAFT_SOURCE_ID = 'zone-draft';
+const ZONE_LAYER_IDS = ['zones-fill', 'zones-outline', 'zones-label', 'zone-draft-line'];
+
+export const createZone = (shape: ZoneShape, geometry: GeoJSON.Polygon, existing: Zone[]): Zone => {
+  const count = existing.filter(zone => zone.shape === shape).length + 1;
+  return {
+    id: `zone_${Date.now()}`,
+    name: `${shape[0].toUpperCase()}${shape.slice(1)} ${count}`,
+    shape,
+    geometry,
+    areaHa: geometryArea(geometry) / SQUARE_METRES_PER_HECTARE
+  };
+};
+
+export const zoneColor = (zones: Zone[], id: string) =>
+  ZONE_COLORS[Math.max(0, zones.findIndex(zone => zone.id === id)) % ZONE_COLORS.length];
+
+// Zones survive reloads for the rest of the browser session
+export const loadSessionZones = (): Zone[] => {
+  try {
+    return JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? '[]');
+  } catch (error) {
+    console.warn('Could not restore drawn zones:', error);
+    return [];
+  }
+};
+
+export const saveSessionZones = (zones: Zone[]) => {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(zones));
+  } catch (error) {
+    console.warn('Could not save drawn zones:', error);
+  }
+};
+
+const setSourceData = (map: mapboxgl.Map, id: string, data: GeoJSON.FeatureCollection) => {
+  const source = map.getSource(id) as mapboxgl.GeoJSONSource | undefined;
+  if (source) {
+    source.setData(data);
+  } else {
+    map.addSource(id, { type: 'geojson', data });
+  }
+};
+
+// Draw the zones (and the shape being drawn) above the dataset layers
+export const showZonesOnMap = (map: mapboxgl.Map, zones: Zone[], draft: GeoJSON.Geometry | null) => {
+  setSourceData(map, ZONES_SOURCE_ID, {
+    type: 'FeatureCollection',
+    features: zones.map(zone => ({
+      type: 'Feature',
+      properties: { name: zone.name, color: zoneColor(zones, zone.id) },
+      geometry: zone.geometry
+    }))
+  });
+  setSourceData(map, ZONE_DRAFT_SOURCE_ID, {
+    type: 'FeatureCollection',
+    features: draft ? [{ type: 'Feature', properties: {}, geometry: draft }] : []
+  });
+
+  if (!map.getLayer('zones-fill')) {
+    map.addLayer({
+      id: 'zones-fill',
+      type: 'fill',
+      source: ZONES_SOURCE_ID,
+      paint: { 'fill-color': ['get', 'color'], 'fill-opacity': 0.15 }
+    });
+    map.addLayer({
+      id: 'zones-outline',
+      type: 'line',
+      source: ZONES_SOURCE_ID,
+      paint: { 'line-color': ['get', 'color'], 'line-width': 2 }
+    });
+    map.addLayer({
+      id: 'zones-label',
+      type: 'symbol',
+      source: ZONES_SOURCE_ID,
+      layout: { 'text-field': ['get', 'name'], 'text-size': 12 },
+      paint: { 'text-color': '#ffffff', 'text-halo-color': '#000000', 'text-halo-width': 1 }
+    });
+    map.addLayer({
+      id: 'zone-draft-line',
+      type: 'line',
+      source: ZONE_DRAFT_SOURCE_ID,
+      paint: { 'line-color': '#ffffff', 'line-width': 2, 'line-dasharray': [2, 2] }
+    });
+  }
+};
+
+// Keep the zones on top after dataset layers are re-added
+export const raiseZoneLayers = (map: mapboxgl.Map) => {
+  ZONE_LAYER_IDS.forEach(id => {
+    if (map.getLayer(id)) map.moveLayer(id);
+  });
+};